@@ -7,16 +7,20 @@
  * 1. Reads the Excel file with Ethiopia feed data
  * 2. Transforms data to match database schema
  * 3. Imports via Admin Bulk Upload API
+ * 4. Saves vernacular feed names to the MCP server's feed name catalogue
  */
 
 import XLSX from 'xlsx';
 import fetch from 'node-fetch';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
 import 'dotenv/config';
 
 const EXCEL_FILE = '../Analysed chemical composition of feeds (highlighted for compound feeds, horticultural wastes and agroindustrial byproducts).xls';
 const API_BASE_URL = process.env.FEED_API_BASE_URL || 'http://47.128.1.51:8000';
 const ADMIN_USER_ID = process.env.ADMIN_USER_ID || ''; // Admin user UUID
 const ETHIOPIA_COUNTRY_ID = process.env.ETHIOPIA_COUNTRY_ID || ''; // Ethiopia UUID (need to get/create)
+const FEED_NAMES_PATH = process.env.FEED_NAMES_PATH || './feed-names.json'; // Feed name catalogue read by the server
+const VERNACULAR_LANGUAGE = process.env.VERNACULAR_LANGUAGE || 'am'; // Language of the vernacular name column
 
 // Map sheet names to feed types
 const SHEET_TO_FEED_TYPE = {
@@ -53,6 +57,14 @@ function findFeedNameColumn(columns) {
   return null;
 }
 
+// Find vernacular name column, if the sheet has one besides the feed name column
+function findVernacularColumn(columns, nameCol) {
+  return columns.find(c =>
+    c !== nameCol &&
+    (c.toLowerCase().includes('vernacular') || c.toLowerCase().includes('local name'))
+  ) || null;
+}
+
 // Transform Excel row to database format
 function transformRow(row, sheetName, rowIndex) {
   const columns = Object.keys(row);
@@ -128,7 +140,11 @@ function transformRow(row, sheetName, rowIndex) {
     fd_ipb_local_lab: ''
   };
   
-  return feedData;
+  // Keep the vernacular name for the catalogue; it is not part of the database schema
+  const vernacularCol = findVernacularColumn(columns, nameCol);
+  const vernacular = vernacularCol && row[vernacularCol] ? String(row[vernacularCol]).trim() : '';
+  
+  return { feedData, vernacular: vernacular && vernacular !== feedName ? vernacular : null };
 }
 
 // Read and transform Excel data
@@ -137,6 +153,7 @@ function readExcelData() {
   const workbook = XLSX.readFile(EXCEL_FILE);
   
   const allFeeds = [];
+  const vernacularNames = {};
   
   workbook.SheetNames.forEach((sheetName) => {
     console.log(`\n📋 Processing sheet: "${sheetName}"`);
@@ -147,7 +164,7 @@ function readExcelData() {
     
     data.forEach((row, index) => {
       try {
-        const feedData = transformRow(row, sheetName, index);
+        const { feedData, vernacular } = transformRow(row, sheetName, index);
         
         // Validate required fields
         if (!feedData.fd_name || !feedData.fd_dm) {
@@ -156,6 +173,9 @@ function readExcelData() {
         }
         
         allFeeds.push(feedData);
+        if (vernacular) {
+          vernacularNames[feedData.fd_name] = vernacular;
+        }
       } catch (error) {
         console.log(`   ❌ Error processing row ${index + 1}: ${error.message}`);
       }
@@ -163,7 +183,25 @@ function readExcelData() {
   });
   
   console.log(`\n✅ Total feeds prepared: ${allFeeds.length}`);
-  return allFeeds;
+  return { feeds: allFeeds, vernacularNames };
+}
+
+// Merge vernacular names into the feed name catalogue (keyed by English feed name)
+function saveFeedNames(vernacularNames) {
+  const entries = Object.entries(vernacularNames);
+  if (entries.length === 0) {
+    console.log('\nℹ️  No vernacular names found');
+    return;
+  }
+  
+  const catalogue = existsSync(FEED_NAMES_PATH)
+    ? JSON.parse(readFileSync(FEED_NAMES_PATH, 'utf8'))
+    : {};
+  for (const [name, vernacular] of entries) {
+    catalogue[name] = { ...catalogue[name], [VERNACULAR_LANGUAGE]: vernacular };
+  }
+  writeFileSync(FEED_NAMES_PATH, JSON.stringify(catalogue, null, 2) + '\n');
+  console.log(`\n🌍 Saved ${entries.length} ${VERNACULAR_LANGUAGE} feed names to ${FEED_NAMES_PATH}`);
 }
 
 // Upload feeds via Admin Add Feed API (batch processing)
@@ -282,13 +320,15 @@ async function main() {
     console.log('='.repeat(70));
     
     // Step 1: Read Excel
-    const feeds = readExcelData();
+    const { feeds, vernacularNames } = readExcelData();
     
     if (feeds.length === 0) {
       console.log('\n❌ No feeds to import');
       return;
     }
     
+    saveFeedNames(vernacularNames);
+    
     // Step 2: Show sample
     console.log('\n📝 Sample feed (first one):');
     console.log(JSON.stringify(feeds[0], null, 2));
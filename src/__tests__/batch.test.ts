@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for Batch Diet Evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency, extractEvaluationMetrics, summarizeHerd } from '../batch.js';
+
+describe('mapWithConcurrency', () => {
+  it('should never exceed the concurrency limit', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return n * 2;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map(r => (r as PromiseFulfilledResult<number>).value)).toEqual([2, 4, 6, 8, 10, 12]);
+  });
+
+  it('should capture failures per item', async () => {
+    const results = await mapWithConcurrency(['ok', 'bad'], 4, async (item) => {
+      if (item === 'bad') throw new Error('boom');
+      return item;
+    });
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 'ok' });
+    expect(results[1].status).toBe('rejected');
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('boom');
+  });
+});
+
+describe('extractEvaluationMetrics', () => {
+  it('should read cost, milk and methane from an evaluation response', () => {
+    const metrics = extractEvaluationMetrics({
+      simulation_id: 'eval-1',
+      milk_production_analysis: { target_production_kg_day: 15, actual_milk_supported_kg_day: 14.2 },
+      intake_evaluation: { actual_intake_kg_day: 12, target_intake_kg_day: 12.5 },
+      cost_analysis: { total_diet_cost_as_fed: 85.5 },
+      methane_analysis: { methane_production_g_per_day: 310 },
+      nutrient_balance: { energy_balance_mcal: -1.2, protein_balance_kg: 0.05 },
+    });
+    expect(metrics).toEqual({ cost_per_day: 85.5, milk_kg_per_day: 14.2, methane_g_per_day: 310 });
+  });
+
+  it('should leave out figures the backend did not report', () => {
+    expect(extractEvaluationMetrics({ simulation_id: 'eval-1', cost_analysis: { total_diet_cost_as_fed: 60 } }))
+      .toEqual({ cost_per_day: 60, milk_kg_per_day: null, methane_g_per_day: null });
+  });
+});
+
+describe('summarizeHerd', () => {
+  it('should weight totals by head count and count failures', () => {
+    const summary = summarizeHerd([
+      { head_count: 10, metrics: { cost_per_day: 50, milk_kg_per_day: 12, methane_g_per_day: 300 } },
+      { head_count: 1, metrics: { cost_per_day: 40, milk_kg_per_day: 8, methane_g_per_day: 250 } },
+      { head_count: 5, metrics: null },
+    ]);
+
+    expect(summary).toEqual({
+      items: 3,
+      succeeded: 2,
+      failed: 1,
+      animals: 11,
+      total_cost_per_day: 540,
+      total_milk_kg_per_day: 128,
+      total_methane_g_per_day: 3250,
+    });
+  });
+
+  it('should not total a figure that an item is missing', () => {
+    const summary = summarizeHerd([
+      { head_count: 2, metrics: { cost_per_day: 50, milk_kg_per_day: 12, methane_g_per_day: 300 } },
+      { head_count: 1, metrics: { cost_per_day: 40, milk_kg_per_day: 8, methane_g_per_day: null } },
+    ]);
+
+    expect(summary).toMatchObject({ total_cost_per_day: 140, total_milk_kg_per_day: 32, total_methane_g_per_day: null });
+  });
+
+  it('should only total costs in different currencies in the reference currency', () => {
+    const metrics = { milk_kg_per_day: 10, methane_g_per_day: 300, reference_currency: 'USD' };
+    const summary = summarizeHerd([
+      { head_count: 2, metrics: { ...metrics, cost_per_day: 125, currency: 'ETB', cost_per_day_reference: 1 } },
+      { head_count: 1, metrics: { ...metrics, cost_per_day: 260, currency: 'KES', cost_per_day_reference: 2 } },
+    ]);
+
+    expect(summary).toMatchObject({ currency: null, total_cost_per_day: null, reference_currency: 'USD', total_cost_per_day_reference: 4 });
+    expect(summarizeHerd([
+      { head_count: 1, metrics: { ...metrics, cost_per_day: 125, currency: 'ETB', cost_per_day_reference: null } },
+    ])).toMatchObject({ currency: 'ETB', total_cost_per_day: 125, total_cost_per_day_reference: null });
+  });
+
+  it('should not add costs in an unknown currency to a labelled total', () => {
+    const metrics = { milk_kg_per_day: 10, methane_g_per_day: 300, reference_currency: 'USD' };
+    const summary = summarizeHerd([
+      { head_count: 2, metrics: { ...metrics, cost_per_day: 125, currency: 'ETB', cost_per_day_reference: 1 } },
+      { head_count: 1, metrics: { ...metrics, cost_per_day: 40, cost_per_day_reference: null } },
+    ]);
+
+    expect(summary).toMatchObject({ currency: null, total_cost_per_day: null, total_cost_per_day_reference: null });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit Tests for Exchange Rates and Reference Currency Costs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ExchangeRates } from '../currency.js';
+
+const table = { base: 'USD', as_of: '2026-10-01', rates: { ETB: 125, KES: 130 } };
+
+describe('ExchangeRates', () => {
+  it('should convert through the base currency', () => {
+    const rates = new ExchangeRates();
+    rates.setTable(table);
+
+    expect(rates.convert(250, 'ETB', 'USD')).toBe(2);
+    expect(rates.rate('kes', 'ETB')).toBeCloseTo(125 / 130);
+    expect(rates.convert(10, 'ETB', 'ETB')).toBe(10);
+    expect(rates.rate('ETB', 'UGX')).toBeNull();
+  });
+
+  it('should report costs in local and reference currency', () => {
+    const rates = new ExchangeRates(undefined, 'usd');
+    rates.setTable(table);
+
+    expect(rates.convertCosts({ total_diet_cost: 62.5, feed_cost_per_kg_milk: undefined }, 'etb')).toEqual({
+      currency: 'ETB',
+      reference_currency: 'USD',
+      exchange_rate: 0.008,
+      rates_as_of: '2026-10-01',
+      local: { total_diet_cost: 62.5 },
+      reference: { total_diet_cost: 0.5 },
+    });
+    expect(rates.convertCosts({ total_diet_cost: 62.5 }, 'UGX')).toMatchObject({ exchange_rate: null, reference: null });
+  });
+
+  it('should leave the currency out with a warning when it is unknown', () => {
+    const rates = new ExchangeRates(undefined, 'USD');
+    rates.setTable(table);
+
+    const costs = rates.convertCosts({ total_diet_cost: 62.5 }, undefined);
+    expect(costs).toMatchObject({ exchange_rate: null, local: { total_diet_cost: 62.5 }, reference: null });
+    expect(costs.currency).toBeUndefined();
+    expect(costs.warning).toContain('pass currency');
+  });
+
+  it('should load the table from a file and reject non-positive rates', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'rates-'));
+    const filePath = join(dir, 'exchange-rates.json');
+    await writeFile(filePath, JSON.stringify(table));
+
+    const rates = new ExchangeRates(filePath, 'KES');
+    await rates.load();
+    await rm(dir, { recursive: true, force: true });
+
+    expect(rates.asOf).toBe('2026-10-01');
+    expect(rates.convert(1, 'USD', rates.referenceCurrency)).toBe(130);
+    expect(() => rates.setTable({ base: 'USD', rates: { ETB: 0 } })).toThrow('positive');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Diet Scenario Comparison
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyVariant, comparisonTable, metricDeltas, scenarioMetrics } from '../diet-comparison.js';
+import { DietEvaluationResponse } from '../api-schemas.js';
+
+const baseline = [
+  { feed_id: 'hay', quantity_as_fed: 6, price_per_kg: 4 },
+  { feed_id: 'noug', quantity_as_fed: 2, price_per_kg: 25 }
+];
+
+function evaluation(cost: number, milk: number, energy: number): DietEvaluationResponse {
+  return {
+    simulation_id: 'eval-1',
+    milk_production_analysis: { target_production_kg_day: 10, actual_milk_supported_kg_day: milk },
+    intake_evaluation: { actual_intake_kg_day: 9, target_intake_kg_day: 10 },
+    cost_analysis: { total_diet_cost_as_fed: cost },
+    methane_analysis: { methane_production_g_per_day: 240 },
+    nutrient_balance: { energy_balance_mcal: energy, protein_balance_kg: 0.1 }
+  };
+}
+
+describe('applyVariant', () => {
+  it('should replace part of a feed with another', () => {
+    const feeds = applyVariant(baseline, {
+      name: 'brewery grains',
+      swaps: [{ feed_id: 'noug', replace_with: 'bsg', share: 0.5, quantity_as_fed: 4, price_per_kg: 6 }]
+    });
+
+    expect(feeds).toEqual([
+      { feed_id: 'hay', quantity_as_fed: 6, price_per_kg: 4 },
+      { feed_id: 'noug', quantity_as_fed: 1, price_per_kg: 25 },
+      { feed_id: 'bsg', quantity_as_fed: 4, price_per_kg: 6 }
+    ]);
+    expect(baseline[1].quantity_as_fed).toBe(2);
+  });
+
+  it('should apply quantity and price changes, removing feeds set to 0', () => {
+    const feeds = applyVariant(baseline, {
+      name: 'more hay',
+      swaps: [{ feed_id: 'noug', replace_with: 'hay' }],
+      quantities: [{ feed_id: 'bran', quantity_as_fed: 1.5 }],
+      prices: [{ feed_id: 'hay', price_per_kg: 5 }]
+    });
+
+    expect(feeds).toEqual([
+      { feed_id: 'hay', quantity_as_fed: 8, price_per_kg: 5 },
+      { feed_id: 'bran', quantity_as_fed: 1.5, price_per_kg: undefined }
+    ]);
+  });
+
+  it('should reject changes to feeds that are not in the ration', () => {
+    expect(() => applyVariant(baseline, { name: 'v1', swaps: [{ feed_id: 'bran', replace_with: 'hay' }] }))
+      .toThrow('Variant "v1": cannot swap bran, it is not in the ration');
+    expect(() => applyVariant(baseline, { name: 'v2', prices: [{ feed_id: 'bran', price_per_kg: 1 }] }))
+      .toThrow('cannot change the price of bran');
+    expect(() => applyVariant(baseline, {
+      name: 'v3',
+      quantities: [{ feed_id: 'hay', quantity_as_fed: 0 }, { feed_id: 'noug', quantity_as_fed: 0 }]
+    })).toThrow('no feeds are left in the ration');
+  });
+});
+
+describe('scenario metrics', () => {
+  it('should compute cost per litre and deltas from the baseline', () => {
+    const base = scenarioMetrics(evaluation(103, 10, -1));
+    const variant = scenarioMetrics(evaluation(80, 9, -1.5));
+
+    expect(base.cost_per_litre).toBe(10.609);
+    expect(scenarioMetrics(evaluation(50, 0, 0)).cost_per_litre).toBeNull();
+    expect(metricDeltas(base, variant)).toMatchObject({
+      cost_per_day: -23,
+      milk_kg_per_day: -1,
+      energy_balance_mcal: -0.5,
+      methane_g_per_day: 0,
+      calcium_balance_kg: null
+    });
+  });
+
+  it('should tabulate evaluated scenarios side by side', () => {
+    const table = comparisonTable(
+      { name: 'baseline', metrics: scenarioMetrics(evaluation(103, 10, -1)) },
+      [
+        { name: 'cheaper', metrics: scenarioMetrics(evaluation(80, 9, -1.5)) },
+        { name: 'failed', metrics: null }
+      ]
+    );
+
+    expect(table.map(row => row.metric)).not.toContain('calcium_balance_kg');
+    expect(table.find(row => row.metric === 'cost_per_day')).toEqual({
+      metric: 'cost_per_day',
+      values: { baseline: 103, cheaper: 80 },
+      deltas: { cheaper: -23 }
+    });
+  });
+});
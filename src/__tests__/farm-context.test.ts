@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for Farm Context
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  FarmContext,
+  createFarmContext,
+  updateFarmContext,
+  clearFarmContext,
+  resolveCattleInfo,
+  resolveEvaluationFeeds,
+  resolveRecommendationFeeds,
+} from '../farm-context.js';
+
+const cattleInfo = {
+  body_weight: 600,
+  breed: 'Holstein',
+  lactating: true,
+  milk_production: 25,
+  days_in_milk: 100,
+  parity: 2,
+  days_of_pregnancy: 0,
+  tp_milk: 3.2,
+  fat_milk: 3.8,
+  temperature: 20,
+  topography: 'Flat',
+  distance: 1,
+  calving_interval: 370,
+};
+
+describe('FarmContext', () => {
+  let context: FarmContext;
+
+  beforeEach(() => {
+    context = createFarmContext();
+  });
+
+  describe('updateFarmContext', () => {
+    it('should merge cattle fields across updates', () => {
+      updateFarmContext(context, { cattle_info: { body_weight: 450, breed: 'Boran cross' } });
+      updateFarmContext(context, { cattle_info: { milk_production: 12 } });
+
+      expect(context.cattle_info).toEqual({ body_weight: 450, breed: 'Boran cross', milk_production: 12 });
+    });
+
+    it('should replace feeds, country and currency', () => {
+      updateFarmContext(context, { country_id: 'c-1', feeds: [{ feed_id: 'a', price_per_kg: 1 }] });
+      updateFarmContext(context, { currency: 'ETB', feeds: [{ feed_id: 'b', price_per_kg: 2 }] });
+
+      expect(context.country_id).toBe('c-1');
+      expect(context.currency).toBe('ETB');
+      expect(context.feeds).toEqual([{ feed_id: 'b', price_per_kg: 2 }]);
+    });
+
+    it('should ignore unknown fields in cattle info', () => {
+      updateFarmContext(context, { cattle_info: { body_weight: 450, feeds: [] } as any });
+      expect(context.cattle_info).toEqual({ body_weight: 450 });
+    });
+  });
+
+  describe('clearFarmContext', () => {
+    it('should remove everything', () => {
+      updateFarmContext(context, { cattle_info: cattleInfo, country_id: 'c-1', currency: 'ETB' });
+      clearFarmContext(context);
+      expect(context).toEqual({ cattle_info: {} });
+    });
+  });
+
+  describe('resolveCattleInfo', () => {
+    it('should fill missing parameters from the context', () => {
+      updateFarmContext(context, { cattle_info: cattleInfo });
+      const result = resolveCattleInfo({ milk_production: 30 }, context);
+      expect(result).toEqual({ ...cattleInfo, milk_production: 30 });
+    });
+
+    it('should list missing fields', () => {
+      updateFarmContext(context, { cattle_info: { body_weight: 600 } });
+      expect(() => resolveCattleInfo({ breed: 'Holstein' }, context)).toThrow(
+        /Missing cattle information: lactating, milk_production/
+      );
+    });
+  });
+
+  describe('resolveEvaluationFeeds', () => {
+    it('should prefer explicit feeds', () => {
+      updateFarmContext(context, { feeds: [{ feed_id: 'a', price_per_kg: 1, quantity_as_fed: 5 }] });
+      const feeds = [{ feed_id: 'b', price_per_kg: 2, quantity_as_fed: 3 }];
+      expect(resolveEvaluationFeeds(feeds, context)).toBe(feeds);
+    });
+
+    it('should use context feeds that have quantities', () => {
+      updateFarmContext(context, {
+        feeds: [
+          { feed_id: 'a', price_per_kg: 1, quantity_as_fed: 5 },
+          { feed_id: 'b', price_per_kg: 2 },
+        ],
+      });
+      expect(resolveEvaluationFeeds(undefined, context)).toEqual([
+        { feed_id: 'a', price_per_kg: 1, quantity_as_fed: 5 },
+      ]);
+    });
+
+    it('should throw when no feeds are available', () => {
+      expect(() => resolveEvaluationFeeds(undefined, context)).toThrow('No feeds provided');
+    });
+  });
+
+  describe('resolveRecommendationFeeds', () => {
+    it('should use context feeds without quantities', () => {
+      updateFarmContext(context, { feeds: [{ feed_id: 'a', price_per_kg: 1, quantity_as_fed: 5 }] });
+      expect(resolveRecommendationFeeds(undefined, context)).toEqual([{ feed_id: 'a', price_per_kg: 1 }]);
+    });
+  });
+});
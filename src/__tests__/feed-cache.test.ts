@@ -0,0 +1,172 @@
+/**
+ * Unit Tests for the Feed Library Cache
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { mkdtemp, readdir, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FeedCache } from '../feed-cache.js';
+import { FeedFormulationClient, FeedDetails } from '../feed-client.js';
+
+const { mockFetch } = vi.hoisted(() => ({ mockFetch: vi.fn() }));
+vi.mock('node-fetch', () => ({
+  default: mockFetch,
+}));
+
+function feed(feed_id: string, fd_type: string = 'Forage', fd_country_id: string = 'et'): FeedDetails {
+  return { feed_id, fd_name: `Feed ${feed_id}`, fd_type, fd_category: 'Hay', fd_country_id } as FeedDetails;
+}
+
+const ok = (body: unknown) => ({ ok: true, status: 200, json: async () => body });
+const connectionRefused = () => Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+
+describe('FeedCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expire entries after the TTL but keep them as stale', () => {
+    vi.useFakeTimers();
+    const cache = new FeedCache({ ttlMs: 1000 });
+    cache.putFeeds([feed('a')]);
+
+    expect(cache.getFeed('a')?.feed_id).toBe('a');
+    vi.advanceTimersByTime(1000);
+    expect(cache.getFeed('a')).toBeUndefined();
+    expect(cache.getFeed('a', true)?.feed_id).toBe('a');
+  });
+
+  it('should filter cached feeds locally', () => {
+    const cache = new FeedCache();
+    cache.putFeeds([feed('a'), feed('b', 'Concentrate'), feed('c', 'Forage', 'ke')]);
+
+    expect(cache.query({ country_id: 'et' }).map(f => f.feed_id)).toEqual(['a', 'b']);
+    expect(cache.query({ country_id: 'et', feed_type: 'Concentrate' }).map(f => f.feed_id)).toEqual(['b']);
+    expect(cache.query({}, 1, 1).map(f => f.feed_id)).toEqual(['b']);
+  });
+
+  it('should persist to disk and load again', async () => {
+    const filePath = join(await mkdtemp(join(tmpdir(), 'feed-cache-')), 'cache.json');
+    const cache = new FeedCache({ filePath });
+    cache.putCountry('et', [feed('a'), feed('b')]);
+    cache.putSearch('feed_type=Forage', [feed('a')]);
+    await cache.flush();
+
+    const restored = new FeedCache({ filePath });
+    await restored.load();
+
+    expect(restored.hasCountry('et')).toBe(true);
+    expect(restored.getFeed('b')?.fd_name).toBe('Feed b');
+    expect(restored.getSearch('feed_type=Forage')?.map(f => f.feed_id)).toEqual(['a']);
+  });
+
+  it('should start empty from a corrupt cache file', async () => {
+    const filePath = join(await mkdtemp(join(tmpdir(), 'feed-cache-')), 'cache.json');
+    await writeFile(filePath, '{"version": 1, "feeds": [');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const cache = new FeedCache({ filePath });
+    await expect(cache.load()).resolves.toBeUndefined();
+
+    expect(cache.stats().feeds).toBe(0);
+    expect(warn).toHaveBeenCalled();
+  });
+
+  it('should replace the file without leaving a temporary copy', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'feed-cache-'));
+    const cache = new FeedCache({ filePath: join(dir, 'cache.json') });
+    cache.putFeeds([feed('a')]);
+    await cache.flush();
+    cache.putFeeds([feed('b')]);
+    await cache.flush();
+
+    expect(await readdir(dir)).toEqual(['cache.json']);
+  });
+});
+
+describe('FeedFormulationClient with a feed cache', () => {
+  let cache: FeedCache;
+  let client: FeedFormulationClient;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    cache = new FeedCache();
+    client = new FeedFormulationClient('http://test-api.com', 'test-api-key', undefined, undefined, { cache, http: { retries: 0 } });
+  });
+
+  it('should fetch a feed once', async () => {
+    mockFetch.mockResolvedValueOnce(ok(feed('a')));
+
+    await client.getFeedById('a');
+    const second = await client.getFeedById('a');
+
+    expect(second.feed_id).toBe('a');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('should reuse cached searches and feeds found by them', async () => {
+    mockFetch.mockResolvedValueOnce(ok({ feeds: [feed('a'), feed('b')] }));
+
+    await client.searchFeeds({ country_id: 'et', limit: 10 });
+    await client.searchFeeds({ country_id: 'et', limit: 10 });
+    await client.getFeedById('b');
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer searches for a preloaded country locally', async () => {
+    mockFetch.mockResolvedValueOnce(ok({ feeds: [feed('a'), feed('b', 'Concentrate')] }));
+
+    expect(await client.preloadCountry('et')).toBe(2);
+    const concentrates = await client.searchFeeds({ country_id: 'et', feed_type: 'Concentrate' });
+
+    expect(concentrates.map(f => f.feed_id)).toEqual(['b']);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve stale feeds when the backend is unreachable', async () => {
+    vi.useFakeTimers();
+    cache = new FeedCache({ ttlMs: 1000 });
+    client = new FeedFormulationClient('http://test-api.com', 'test-api-key', undefined, undefined, { cache, http: { retries: 0 } });
+    mockFetch.mockResolvedValueOnce(ok(feed('a')));
+    await client.getFeedById('a');
+    vi.advanceTimersByTime(2000);
+
+    mockFetch.mockRejectedValueOnce(connectionRefused());
+    const stale = await client.getFeedById('a');
+
+    expect(stale.feed_id).toBe('a');
+    expect(cache.offline).toBe(true);
+    expect(cache.stats().stale_hits).toBe(1);
+
+    mockFetch.mockResolvedValueOnce(ok(feed('b')));
+    await client.getFeedById('b');
+    expect(cache.offline).toBe(false);
+    vi.useRealTimers();
+  });
+
+  it('should filter cached feeds for an uncached search when offline', async () => {
+    cache.putFeeds([feed('a'), feed('b', 'Concentrate'), feed('c', 'Concentrate', 'ke')]);
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) });
+
+    const feeds = await client.searchFeeds({ country_id: 'et', feed_type: 'Concentrate' });
+
+    expect(feeds.map(f => f.feed_id)).toEqual(['b']);
+  });
+
+  it('should rethrow when offline and nothing is cached', async () => {
+    mockFetch.mockRejectedValueOnce(connectionRefused());
+
+    await expect(client.getFeedById('missing')).rejects.toThrow('ECONNREFUSED');
+  });
+
+  it('should not hide backend errors other than outages', async () => {
+    cache.putFeeds([feed('a')]);
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({}) });
+
+    await expect(client.getFeedById('gone')).rejects.toThrow('Failed to get feed: 404');
+  });
+});
@@ -3,14 +3,44 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { FeedFormulationClient } from '../feed-client.js';
+import { ANONYMOUS_USER_ID, FeedFormulationClient } from '../feed-client.js';
+import { RationSmartApiError } from '../http.js';
 
 // Mock node-fetch
-const mockFetch = vi.fn();
+const { mockFetch } = vi.hoisted(() => ({ mockFetch: vi.fn() }));
 vi.mock('node-fetch', () => ({
   default: mockFetch,
 }));
 
+const cattleInfo = {
+  body_weight: 600,
+  breed: 'Holstein',
+  lactating: true,
+  milk_production: 25,
+  days_in_milk: 100,
+  parity: 2,
+  days_of_pregnancy: 0,
+  tp_milk: 3.2,
+  fat_milk: 3.8,
+  temperature: 20,
+  topography: 'Flat',
+  distance: 1,
+  calving_interval: 370,
+};
+
+const validEvaluationBody = {
+  milk_production_analysis: { target_production_kg_day: 25, actual_milk_supported_kg_day: 22.4 },
+  intake_evaluation: { actual_intake_kg_day: 19.5, target_intake_kg_day: 20.1 },
+  cost_analysis: { total_diet_cost_as_fed: 5.2 },
+  methane_analysis: { methane_production_g_per_day: 410 },
+  nutrient_balance: { energy_balance_mcal: -1.8, protein_balance_kg: 0.1 },
+};
+
+const countries = [
+  { id: 'country-123', name: 'Ethiopia', country_code: 'ET', currency: 'ETB', is_active: true },
+  { id: 'country-ke', name: 'Kenya', country_code: 'KE', currency: 'KES', is_active: true },
+];
+
 describe('FeedFormulationClient', () => {
   let client: FeedFormulationClient;
   const mockBaseUrl = 'http://test-api.com';
@@ -106,6 +136,21 @@ describe('FeedFormulationClient', () => {
         expect.any(Object)
       );
     });
+
+    it('should page through all feeds', async () => {
+      const page = (start: number, count: number) =>
+        Array.from({ length: count }, (_, i) => ({ feed_id: String(start + i), fd_name: `Feed ${start + i}` }));
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ feeds: page(0, 100) }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ feeds: page(100, 30) }) });
+
+      const result = await client.listAllFeeds({ feed_type: 'Forage' });
+
+      expect(result).toHaveLength(130);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toContain('offset=100');
+    });
   });
 
   describe('detectCountryFromFeeds', () => {
@@ -135,6 +180,37 @@ describe('FeedFormulationClient', () => {
     });
   });
 
+  describe('getDietRecommendation', () => {
+    beforeEach(() => {
+      client = new FeedFormulationClient(mockBaseUrl, 'test-api-key');
+    });
+
+    it('should validate the recommendation response', async () => {
+      const recommendation = {
+        simulation_id: 'sim-123',
+        least_cost_diet: [
+          { feed_id: 'feed-1', feed_name: 'Maize silage', quantity_kg_per_day: 20, price_per_kg: 0.1, daily_cost: 2 },
+        ],
+        total_diet_cost: 2,
+      };
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => recommendation });
+
+      const result = await client.getDietRecommendation(cattleInfo, [{ feed_id: 'feed-1', price_per_kg: 0.1 }], 'c-1');
+      expect(result.total_diet_cost).toBe(2);
+    });
+
+    it('should name mistyped fields in the error', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ simulation_id: 'sim-123', least_cost_diet: {}, total_diet_cost: '2' }),
+      });
+
+      await expect(
+        client.getDietRecommendation(cattleInfo, [{ feed_id: 'feed-1', price_per_kg: 0.1 }], 'c-1')
+      ).rejects.toThrow(/least_cost_diet: Expected array, received object; total_diet_cost: Expected number, received string/);
+    });
+  });
+
   describe('evaluateDiet', () => {
     beforeEach(() => {
       client = new FeedFormulationClient(mockBaseUrl, 'test-api-key');
@@ -149,35 +225,21 @@ describe('FeedFormulationClient', () => {
       const mockEvaluationResponse = {
         simulation_id: 'eval-123',
         report_id: 'report-123',
+        ...validEvaluationBody,
       };
 
-      // Mock getFeedById for country detection
-      (fetch as any)
+      // Mock getFeedById for country detection, then the country list for its currency
+      mockFetch
         .mockResolvedValueOnce({
           ok: true,
           json: async () => mockFeed,
         })
+        .mockResolvedValueOnce({ ok: true, json: async () => countries })
         .mockResolvedValueOnce({
           ok: true,
           json: async () => mockEvaluationResponse,
         });
 
-      const cattleInfo = {
-        body_weight: 600,
-        breed: 'Holstein',
-        lactating: true,
-        milk_production: 25,
-        days_in_milk: 100,
-        parity: 2,
-        days_of_pregnancy: 0,
-        tp_milk: 3.2,
-        fat_milk: 3.8,
-        temperature: 20,
-        topography: 'Flat',
-        distance: 1,
-        calving_interval: 370,
-      };
-
       const feedEvaluation = [
         {
           feed_id: 'feed-123',
@@ -189,9 +251,135 @@ describe('FeedFormulationClient', () => {
       const result = await client.evaluateDiet(cattleInfo, feedEvaluation);
 
       expect(result).toEqual(mockEvaluationResponse);
-      // Verify country was auto-detected
-      expect(fetch).toHaveBeenCalledTimes(2); // Once for feed, once for evaluation
+      // Verify country and currency were auto-detected
+      expect(mockFetch).toHaveBeenCalledTimes(3); // Feed, countries, evaluation
+      expect(JSON.parse(mockFetch.mock.calls[2][1].body)).toMatchObject({ country_id: 'country-123', currency: 'ETB' });
+    });
+
+    it('should use the given currency over the country\'s', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ simulation_id: 'eval-123', ...validEvaluationBody }) });
+
+      await client.evaluateDiet(cattleInfo, [{ feed_id: 'feed-123', quantity_as_fed: 10, price_per_kg: 2.5 }], 'country-123', 'USD');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({ currency: 'USD' });
+    });
+
+    it('should reject responses that do not match the expected shape', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ...validEvaluationBody, cost_analysis: { total_diet_cost_as_fed: '5.2' } }),
+      });
+
+      await expect(
+        client.evaluateDiet(cattleInfo, [{ feed_id: 'feed-123', quantity_as_fed: 10, price_per_kg: 2.5 }], 'country-123', 'ETB')
+      ).rejects.toThrow(/simulation_id: Required; cost_analysis.total_diet_cost_as_fed: Expected number/);
+    });
+
+    it('should accept responses that leave out sections other than simulation_id', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ simulation_id: 'eval-123' }) });
+
+      const result = await client.evaluateDiet(
+        cattleInfo,
+        [{ feed_id: 'feed-123', quantity_as_fed: 10, price_per_kg: 2.5 }],
+        'country-123',
+        'ETB'
+      );
+      expect(result.simulation_id).toBe('eval-123');
+      expect(result.cost_analysis).toBeUndefined();
+    });
+
+    it('should keep fields the schema does not know about', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ simulation_id: 'eval-123', ...validEvaluationBody, new_section: { value: 1 } }),
+      });
+
+      const result = await client.evaluateDiet(
+        cattleInfo,
+        [{ feed_id: 'feed-123', quantity_as_fed: 10, price_per_kg: 2.5 }],
+        'country-123',
+        'ETB'
+      );
+      expect((result as any).new_section).toEqual({ value: 1 });
+    });
+
+    it('should carry the backend detail on failure', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        text: async () => JSON.stringify({ detail: 'Feed feed-123 is not available in this country' }),
+      });
+
+      const error = await client.evaluateDiet(
+        cattleInfo,
+        [{ feed_id: 'feed-123', quantity_as_fed: 10, price_per_kg: 2.5 }],
+        'country-123',
+        'ETB'
+      ).catch(e => e);
+
+      expect(error).toBeInstanceOf(RationSmartApiError);
+      expect(error).toMatchObject({ status: 400, endpoint: 'POST /diet-evaluation-working/', detail: 'Feed feed-123 is not available in this country' });
+      expect(error.message).toBe('Diet evaluation failed: 400 - Feed feed-123 is not available in this country');
     });
   });
-});
 
+  describe('service account', () => {
+    const feeds = [{ feed_id: 'feed-123', quantity_as_fed: 10, price_per_kg: 2.5 }];
+    const evaluationBody = () => JSON.parse(mockFetch.mock.calls.at(-1)![1].body);
+
+    it('should run simulations as the configured service account', async () => {
+      client = new FeedFormulationClient(mockBaseUrl, 'mapped-key', undefined, undefined, {
+        serviceAccount: { user_id: 'user-coop', country_id: 'country-ke', currency: 'KES' },
+        identityPath: '/auth/me',
+      });
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ feed_id: 'feed-123' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ simulation_id: 'eval-1', ...validEvaluationBody }) });
+
+      await client.evaluateDiet(cattleInfo, feeds, undefined, 'KES');
+
+      expect(evaluationBody()).toMatchObject({ user_id: 'user-coop', country_id: 'country-ke', currency: 'KES' });
+      expect(mockFetch).toHaveBeenCalledTimes(2); // No identity lookup
+    });
+
+    it('should resolve the key from the backend once and cache it', async () => {
+      client = new FeedFormulationClient(mockBaseUrl, 'backend-key', undefined, undefined, { identityPath: '/auth/me' });
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ user: { id: 'user-42', country_id: 'country-et', country: { currency: 'ETB' } } }) })
+        .mockResolvedValue({ ok: true, json: async () => ({ simulation_id: 'eval-1', ...validEvaluationBody }) });
+
+      await client.evaluateDiet(cattleInfo, feeds, 'country-123', 'ETB');
+      await client.evaluateDiet(cattleInfo, feeds, 'country-123', 'ETB', 'farmer-7');
+
+      expect(mockFetch.mock.calls[0][0]).toBe('http://test-api.com/auth/me');
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toMatchObject({ user_id: 'user-42' });
+      expect((await client.getServiceAccount()).currency).toBe('ETB');
+      expect(evaluationBody()).toMatchObject({ user_id: 'farmer-7' });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(await client.getCountryId()).toBe('country-et');
+    });
+
+    it('should fall back to the defaults and then the anonymous user', async () => {
+      client = new FeedFormulationClient(mockBaseUrl, 'unknown-key', undefined, undefined, {
+        identityPath: '/auth/me',
+        serviceAccountDefaults: { country_id: 'country-default' },
+      });
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ feed_id: 'feed-123' }) })
+        .mockResolvedValueOnce({ ok: false, status: 404, text: async () => 'Not Found' })
+        .mockResolvedValueOnce({ ok: true, json: async () => countries })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ simulation_id: 'eval-1', ...validEvaluationBody }) });
+
+      await client.evaluateDiet(cattleInfo, feeds);
+
+      expect(mockFetch.mock.calls[1][0]).toBe('http://test-api.com/auth/me');
+      expect(evaluationBody()).toMatchObject({
+        user_id: ANONYMOUS_USER_ID,
+        country_id: 'country-default',
+      });
+      // The default country is not in the country list, so its currency is unknown rather than guessed
+      expect(evaluationBody().currency).toBeUndefined();
+    });
+  });
+});
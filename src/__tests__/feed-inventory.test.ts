@@ -0,0 +1,178 @@
+/**
+ * Unit Tests for the Feed Inventory and Stock Forecasts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FeedInventory, FeedStock, forecastStock, stockLimits } from '../feed-inventory.js';
+
+describe('FeedInventory', () => {
+  it('should add purchases as lots and total them per feed', async () => {
+    const inventory = new FeedInventory();
+    await inventory.record('tenant-a', [
+      { feed_id: 'hay', quantity_kg: 400, purchase_date: '2026-09-20', price_per_kg: 4, currency: 'etb' },
+      { feed_id: 'bran', quantity_kg: 150, purchase_date: '2026-10-01', price_per_kg: 12, currency: 'ETB' }
+    ]);
+    await inventory.record('tenant-a', [{ feed_id: 'hay', quantity_kg: 200, purchase_date: '2026-10-10', price_per_kg: 5, currency: 'ETB' }]);
+
+    const [hay, bran] = inventory.list('tenant-a');
+    expect(hay).toMatchObject({ feed_id: 'hay', on_hand_kg: 600, value: 2600, currency: 'ETB', last_purchase_date: '2026-10-10' });
+    expect(hay.lots).toHaveLength(2);
+    expect(bran.on_hand_kg).toBe(150);
+    expect(inventory.list('tenant-b')).toEqual([]);
+  });
+
+  it('should replace a feed\'s lots on a stock take and keep a count of 0', async () => {
+    const inventory = new FeedInventory();
+    await inventory.record('tenant-a', [
+      { feed_id: 'hay', quantity_kg: 400 },
+      { feed_id: 'hay', quantity_kg: 200 },
+      { feed_id: 'bran', quantity_kg: 150 }
+    ]);
+    await inventory.record('tenant-a', [{ feed_id: 'hay', quantity_kg: 0 }], { replace: true });
+
+    expect(inventory.onHand('tenant-a', 'hay')).toBe(0);
+    expect(inventory.onHand('tenant-a', 'bran')).toBe(150);
+    expect(inventory.onHand('tenant-a', 'noug')).toBeUndefined();
+  });
+
+  it('should reject invalid lots without recording anything', async () => {
+    const inventory = new FeedInventory();
+    await expect(inventory.record('tenant-a', [
+      { feed_id: 'hay', quantity_kg: 100 },
+      { feed_id: 'bran', quantity_kg: -5 }
+    ])).rejects.toThrow('Stock 2 (bran): quantity_kg must be a number of at least 0');
+    await expect(inventory.record('tenant-a', [{ feed_id: 'hay', quantity_kg: 1, purchase_date: '1/10/2026' }])).rejects.toThrow('purchase_date');
+    expect(inventory.list('tenant-a')).toEqual([]);
+  });
+
+  it('should persist stock to a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'feed-inventory-'));
+    try {
+      const path = join(dir, 'nested', 'stock.json');
+      await new FeedInventory(path).record('tenant-a', [{ feed_id: 'hay', quantity_kg: 300, purchase_date: '2026-10-01' }]);
+
+      const reloaded = new FeedInventory(path);
+      await reloaded.load();
+      expect(reloaded.onHand('tenant-a', 'hay')).toBe(300);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should start empty from a corrupt stock file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'feed-inventory-'));
+    try {
+      const path = join(dir, 'stock.json');
+      await writeFile(path, '{"tenant-a": [');
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const feedInventory = new FeedInventory(path);
+      await expect(feedInventory.load()).resolves.toBeUndefined();
+
+      expect(feedInventory.list('tenant-a')).toEqual([]);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should replace the stock file without leaving a temporary copy', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'feed-inventory-'));
+    try {
+      const feedInventory = new FeedInventory(join(dir, 'stock.json'));
+      await feedInventory.record('tenant-a', [{ feed_id: 'hay', quantity_kg: 300 }]);
+      await feedInventory.record('tenant-a', [{ feed_id: 'hay', quantity_kg: 300 }]);
+
+      expect(await readdir(dir)).toEqual(['stock.json']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('forecastStock', () => {
+  const stock = (feedId: string, ...lots: Array<[number, string]>): FeedStock => ({
+    feed_id: feedId,
+    on_hand_kg: lots.reduce((sum, [kg]) => sum + kg, 0),
+    last_purchase_date: '2026-10-01',
+    lots: lots.map(([kg, recordedOn]) => ({
+      feed_id: feedId,
+      quantity_kg: kg,
+      purchase_date: '2026-10-01',
+      recorded_at: `${recordedOn}T08:00:00.000Z`
+    }))
+  });
+
+  it('should forecast days remaining and flag feeds that run out within the horizon', () => {
+    const forecast = forecastStock(
+      [
+        stock('hay', [600, '2026-10-19']),
+        stock('bran', [150, '2026-10-19']),
+        stock('lime', [25, '2026-10-19'])
+      ],
+      [
+        { feed_id: 'hay', kg_per_day: 40 },
+        { feed_id: 'hay', kg_per_day: 8 },
+        { feed_id: 'bran', kg_per_day: 3 },
+        { feed_id: 'noug', kg_per_day: 2 }
+      ],
+      { asOf: '2026-10-19', horizonDays: 30 }
+    );
+
+    expect(forecast.map(f => [f.feed_id, f.days_remaining, f.run_out_date, f.status])).toEqual([
+      ['noug', 0, '2026-10-19', 'out_of_stock'],
+      ['hay', 12, '2026-10-31', 'runs_out'],
+      ['bran', 50, '2026-12-08', 'ok'],
+      ['lime', null, null, 'unused']
+    ]);
+    expect(forecast[1].daily_use_kg).toBe(48);
+  });
+
+  it('should take off the use since the stock was recorded', () => {
+    const forecast = forecastStock(
+      [
+        // 400 kg counted on the 1st, 200 kg more on the 10th
+        stock('hay', [400, '2026-10-01'], [200, '2026-10-10']),
+        // Used up before the count on the 15th is added
+        stock('bran', [20, '2026-10-01'], [100, '2026-10-15'])
+      ],
+      [{ feed_id: 'hay', kg_per_day: 10 }, { feed_id: 'bran', kg_per_day: 2 }],
+      { asOf: '2026-10-19', horizonDays: 30 }
+    );
+
+    expect(forecast.map(f => [f.feed_id, f.recorded_kg, f.on_hand_kg, f.days_remaining])).toEqual([
+      ['hay', 600, 420, 42],
+      ['bran', 120, 92, 46]
+    ]);
+  });
+});
+
+describe('stockLimits', () => {
+  it('should cap stocked feeds per head to last the days and leave others uncapped', () => {
+    const onHand = new Map([['hay', 600], ['bran', 0]]);
+    const limits = stockLimits(['hay', 'bran', 'noug'], id => onHand.get(id), { days: 30, headCount: 4 });
+
+    expect(limits).toEqual([
+      { feed_id: 'hay', on_hand_kg: 600, max_kg_per_day: 5 },
+      { feed_id: 'bran', on_hand_kg: 0, max_kg_per_day: 0 }
+    ]);
+  });
+
+  it('should set aside the stock other rations use before capping', () => {
+    const onHand = new Map([['hay', 600], ['bran', 100]]);
+    const limits = stockLimits(['hay', 'bran'], id => onHand.get(id), {
+      days: 30,
+      headCount: 4,
+      otherUses: [{ feed_id: 'hay', kg_per_day: 6 }, { feed_id: 'hay', kg_per_day: 4 }, { feed_id: 'bran', kg_per_day: 5 }]
+    });
+
+    expect(limits).toEqual([
+      { feed_id: 'hay', on_hand_kg: 600, reserved_kg: 300, max_kg_per_day: 2.5 },
+      { feed_id: 'bran', on_hand_kg: 100, reserved_kg: 100, max_kg_per_day: 0 }
+    ]);
+  });
+});
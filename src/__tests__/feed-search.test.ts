@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for Free-Text Feed Search
+ */
+
+import { describe, it, expect } from 'vitest';
+import { editDistance, fieldScore, searchFeedsByText, tokenize } from '../feed-search.js';
+import { FeedDetails } from '../feed-client.js';
+
+function feed(feed_id: string, fd_name: string, fd_category: string = ''): FeedDetails {
+  return { feed_id, fd_name, fd_category, fd_type: 'Forage' } as FeedDetails;
+}
+
+const feeds = [
+  feed('1', 'Teff straw', 'Crop residue'),
+  feed('2', 'Wheat straw', 'Crop residue'),
+  feed('3', 'Noug seed cake', 'Oilseed cake'),
+  feed('4', 'Wheat bran', 'Milling by-product'),
+  feed('5', 'Wheat bran pellets', 'Milling by-product'),
+  feed('6', 'Cottonseed cake', 'Oilseed cake'),
+  feed('7', 'Natural pasture hay', 'Hay')
+];
+
+describe('tokenize', () => {
+  it('should lower-case, strip accents and split on punctuation', () => {
+    expect(tokenize('Noug-seed  Café (dry)')).toEqual(['noug', 'seed', 'cafe', 'dry']);
+    expect(tokenize('የጤፍ ጭድ')).toEqual(['የጤፍ', 'ጭድ']);
+  });
+});
+
+describe('editDistance', () => {
+  it('should count transpositions as one edit', () => {
+    expect(editDistance('teff', 'teff')).toBe(0);
+    expect(editDistance('tef', 'teff')).toBe(1);
+    expect(editDistance('strwa', 'straw')).toBe(1);
+    expect(editDistance('bran', 'brain')).toBe(1);
+  });
+});
+
+describe('fieldScore', () => {
+  it('should prefer fields without extra words', () => {
+    expect(fieldScore(['wheat', 'bran'], 'Wheat bran')).toBe(1);
+    expect(fieldScore(['wheat', 'bran'], 'Wheat bran pellets')).toBeLessThan(1);
+  });
+});
+
+describe('searchFeedsByText', () => {
+  it('should match partial names', () => {
+    const [best] = searchFeedsByText(feeds, 'noug cake');
+
+    expect(best.feed.feed_id).toBe('3');
+  });
+
+  it('should tolerate typos', () => {
+    expect(searchFeedsByText(feeds, 'tef straw')[0].feed.feed_id).toBe('1');
+    expect(searchFeedsByText(feeds, 'cottn cake')[0].feed.feed_id).toBe('6');
+    expect(searchFeedsByText(feeds, 'nug cake')[0].feed.feed_id).toBe('3');
+  });
+
+  it('should rank exact names first', () => {
+    const ids = searchFeedsByText(feeds, 'wheat bran').map(m => m.feed.feed_id);
+
+    expect(ids.slice(0, 2)).toEqual(['4', '5']);
+    expect(ids).not.toContain('1');
+  });
+
+  it('should search categories below names', () => {
+    const matches = searchFeedsByText(feeds, 'oilseed cake');
+
+    expect(matches.map(m => m.feed.feed_id)).toEqual(['3', '6']);
+    expect(matches[0].matched).toBe('Oilseed cake');
+    expect(matches[0].score).toBeLessThanOrEqual(0.7);
+  });
+
+  it('should search local names', () => {
+    const [best] = searchFeedsByText(feeds, 'ጭድ', {
+      localNames: f => (f.feed_id === '1' ? ['የጤፍ ጭድ'] : [])
+    });
+
+    expect(best.feed.feed_id).toBe('1');
+    expect(best.matched).toBe('የጤፍ ጭድ');
+  });
+
+  it('should return nothing for unrelated queries', () => {
+    expect(searchFeedsByText(feeds, 'molasses')).toEqual([]);
+    expect(searchFeedsByText(feeds, '  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for Feed Substitutes and Nutrient Range Search
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  filterByNutrients,
+  findSubstitutes,
+  matchesRanges,
+  nutrientProfile,
+  profileSimilarity
+} from '../feed-substitutes.js';
+import { FeedDetails } from '../feed-client.js';
+
+function feed(feed_id: string, fd_name: string, fd_type: string, n: Partial<FeedDetails>): FeedDetails {
+  return {
+    feed_id, fd_name, fd_type, fd_category: '',
+    fd_dm: 90, fd_cp: 0, fd_ndf: 0, fd_adf: 0, fd_ee: 0, fd_st: 0, fd_ca: 0, fd_p: 0,
+    ...n
+  } as FeedDetails;
+}
+
+const cottonseed = feed('cotton', 'Cottonseed cake', 'Concentrate', { fd_cp: 30, fd_ndf: 40, fd_adf: 30, fd_ee: 6, fd_st: 2, fd_ca: 0.2, fd_p: 1.0 });
+const noug = feed('noug', 'Noug seed cake', 'Concentrate', { fd_cp: 33, fd_ndf: 35, fd_adf: 28, fd_ee: 8, fd_st: 2, fd_ca: 0.5, fd_p: 0.9 });
+const sunflower = feed('sunflower', 'Sunflower cake', 'Concentrate', { fd_cp: 28, fd_ndf: 42, fd_adf: 31, fd_ee: 7, fd_st: 2, fd_ca: 0.4, fd_p: 1.0 });
+const bran = feed('bran', 'Wheat bran', 'Concentrate', { fd_cp: 17, fd_ndf: 42, fd_adf: 12, fd_ee: 4, fd_st: 20, fd_ca: 0.15, fd_p: 1.1 });
+const teff = feed('teff', 'Teff straw', 'Forage', { fd_cp: 5, fd_ndf: 72, fd_adf: 45, fd_ee: 1.5, fd_st: 1, fd_ca: 0.3, fd_p: 0.1 });
+const library = [cottonseed, noug, sunflower, bran, teff];
+
+describe('nutrientProfile', () => {
+  it('should leave out missing values', () => {
+    const profile = nutrientProfile({ ...teff, fd_st: null, fd_ca: undefined } as unknown as FeedDetails);
+
+    expect(profile.cp).toBe(5);
+    expect(profile).not.toHaveProperty('st');
+    expect(profile).not.toHaveProperty('ca');
+  });
+});
+
+describe('profileSimilarity', () => {
+  it('should be 1 for identical profiles and fall with distance', () => {
+    const profile = nutrientProfile(cottonseed);
+
+    expect(profileSimilarity(profile, profile)).toBe(1);
+    expect(profileSimilarity(profile, nutrientProfile(sunflower))!).toBeGreaterThan(profileSimilarity(profile, nutrientProfile(teff))!);
+  });
+
+  it('should need three shared nutrients', () => {
+    expect(profileSimilarity({ cp: 30, ndf: 40 }, { cp: 30, ndf: 40, adf: 30 })).toBeUndefined();
+  });
+});
+
+describe('matchesRanges', () => {
+  it('should apply min and max and reject missing values', () => {
+    expect(matchesRanges({ cp: 33 }, { cp: { min: 30 } })).toBe(true);
+    expect(matchesRanges({ cp: 28 }, { cp: { min: 30 } })).toBe(false);
+    expect(matchesRanges({ cp: 33 }, { ndf: { max: 40 } })).toBe(false);
+    expect(matchesRanges({ cp: 33 }, { ndf: {} })).toBe(true);
+  });
+});
+
+describe('findSubstitutes', () => {
+  it('should rank oilseed cakes above bran and straw for cottonseed cake', () => {
+    const { matches } = findSubstitutes(cottonseed, library);
+
+    expect(matches.map(m => m.feed_id)).toEqual(['sunflower', 'noug', 'bran', 'teff']);
+    expect(matches[0].differences.cp).toBe(-2);
+  });
+
+  it('should drop feeds above the price ceiling and count unpriced feeds', () => {
+    const prices = new Map([['sunflower', 30], ['noug', 22], ['bran', 12]]);
+    const { matches, unpriced } = findSubstitutes(cottonseed, library, { prices, max_price_per_kg: 25 });
+
+    expect(matches.map(m => m.feed_id)).toEqual(['noug', 'bran']);
+    expect(matches[0].price_per_kg).toBe(22);
+    expect(unpriced).toBe(1);
+  });
+});
+
+describe('filterByNutrients', () => {
+  it('should list concentrates above 30% CP under a price, cheapest first', () => {
+    const prices = new Map([['cotton', 24], ['noug', 20], ['sunflower', 18]]);
+    const { matches } = filterByNutrients(library, {
+      prices,
+      max_price_per_kg: 25,
+      feed_type: 'Concentrate',
+      ranges: { cp: { min: 30 } }
+    });
+
+    expect(matches.map(m => m.feed_id)).toEqual(['noug', 'cotton']);
+  });
+});
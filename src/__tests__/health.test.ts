@@ -0,0 +1,90 @@
+/**
+ * Unit Tests for Health and Readiness Checks
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BackendProbe, assessReadiness, ProbeResult } from '../health.js';
+import { FeedCache } from '../feed-cache.js';
+
+const { mockFetch } = vi.hoisted(() => ({ mockFetch: vi.fn() }));
+vi.mock('node-fetch', () => ({
+  default: mockFetch,
+}));
+
+const countries = [{ id: 'et', name: 'Ethiopia', country_code: 'ET', currency: 'ETB', is_active: true }];
+
+describe('BackendProbe', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should report the backend up with its latency', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => countries });
+
+    const result = await new BackendProbe('http://test-api.com').check();
+
+    expect(result).toMatchObject({ status: 'up' });
+    expect(result.latency_ms).toBeGreaterThanOrEqual(0);
+    expect(mockFetch).toHaveBeenCalledWith('http://test-api.com/auth/countries', expect.any(Object));
+  });
+
+  it('should report the backend down without retrying', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 503, text: async () => 'Service Unavailable' });
+
+    const result = await new BackendProbe('http://test-api.com').check();
+
+    expect(result).toMatchObject({ status: 'down', http_status: 503, error: 'Backend probe failed: 503 - Service Unavailable' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reuse a recent result and share concurrent probes', async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: async () => countries });
+    const probe = new BackendProbe('http://test-api.com', { cacheMs: 60000 });
+
+    await Promise.all([probe.check(), probe.check()]);
+    await probe.check();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the last result without probing', async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: async () => countries });
+    const probe = new BackendProbe('http://test-api.com', { cacheMs: 0 });
+
+    expect(probe.lastResult()).toBeNull();
+    const result = await probe.check();
+
+    expect(probe.lastResult()).toEqual(result);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep probing a backend that keeps failing', async () => {
+    mockFetch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const probe = new BackendProbe('http://test-api.com', { cacheMs: 0 });
+
+    for (let i = 0; i < 8; i++) await probe.check();
+
+    expect(mockFetch).toHaveBeenCalledTimes(8);
+  });
+});
+
+describe('assessReadiness', () => {
+  const up: ProbeResult = { status: 'up', latency_ms: 40, checked_at: '2026-03-01T10:00:00.000Z' };
+  const cacheStats = new FeedCache().stats();
+
+  it('should be healthy when the backend is up and the circuit closed', () => {
+    const report = assessReadiness(up, { state: 'closed', failures: 0 }, cacheStats);
+    expect(report).toMatchObject({ status: 'healthy', reasons: [] });
+  });
+
+  it('should be degraded when the backend is down or the circuit is open', () => {
+    const down: ProbeResult = { ...up, status: 'down', error: 'Backend probe failed: timed out after 5000 ms' };
+
+    expect(assessReadiness(down, { state: 'closed', failures: 0 }, cacheStats).reasons)
+      .toEqual(['Backend probe failed: timed out after 5000 ms']);
+    expect(assessReadiness(up, { state: 'open', failures: 5 }, cacheStats)).toMatchObject({
+      status: 'degraded',
+      reasons: ['Backend circuit breaker is open'],
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for HerdStore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { HerdStore } from '../herd-store.js';
+import { CattleInfo } from '../feed-client.js';
+
+const cattleInfo: CattleInfo = {
+  body_weight: 450,
+  breed: 'Holstein cross',
+  lactating: true,
+  milk_production: 18,
+  days_in_milk: 40,
+  parity: 2,
+  days_of_pregnancy: 0,
+  tp_milk: 3.1,
+  fat_milk: 3.9,
+  temperature: 22,
+  topography: 'Flat',
+  distance: 1,
+  calving_interval: 400,
+};
+
+describe('HerdStore', () => {
+  let store: HerdStore;
+
+  beforeEach(() => {
+    store = new HerdStore();
+  });
+
+  it('should create and look up groups case-insensitively', async () => {
+    await store.create('tenant-a', { name: 'Early Lactation', head_count: 12, cattle_info: cattleInfo });
+
+    const group = store.get('tenant-a', '  early   lactation ');
+    expect(group?.name).toBe('Early Lactation');
+    expect(group?.head_count).toBe(12);
+  });
+
+  it('should keep tenants separate', async () => {
+    await store.create('tenant-a', { name: 'Dry cows', cattle_info: cattleInfo });
+
+    expect(store.list('tenant-a')).toHaveLength(1);
+    expect(store.list('tenant-b')).toHaveLength(0);
+    expect(() => store.require('tenant-b', 'Dry cows')).toThrow('Animal group "Dry cows" not found');
+  });
+
+  it('should reject duplicate names', async () => {
+    await store.create('tenant-a', { name: 'Heifers', cattle_info: cattleInfo });
+    await expect(store.create('tenant-a', { name: 'heifers', cattle_info: cattleInfo })).rejects.toThrow(
+      'already exists'
+    );
+  });
+
+  it('should merge cattle fields and rename on update', async () => {
+    await store.create('tenant-a', { name: 'Heifers', cattle_info: cattleInfo });
+
+    const updated = await store.update('tenant-a', 'Heifers', {
+      name: 'Bred heifers',
+      cattle_info: { days_of_pregnancy: 120 },
+    });
+
+    expect(updated.cattle_info).toEqual({ ...cattleInfo, days_of_pregnancy: 120 });
+    expect(store.get('tenant-a', 'Heifers')).toBeUndefined();
+    expect(store.get('tenant-a', 'Bred heifers')).toBeDefined();
+  });
+
+  it('should replace the ration on update and remove it with an empty list', async () => {
+    await store.create('tenant-a', { name: 'Milkers', cattle_info: cattleInfo, ration: [{ feed_id: 'hay', quantity_as_fed: 9 }] });
+
+    const resized = await store.update('tenant-a', 'Milkers', { head_count: 8 });
+    expect(resized.ration).toEqual([{ feed_id: 'hay', quantity_as_fed: 9 }]);
+
+    const changed = await store.update('tenant-a', 'Milkers', { ration: [{ feed_id: 'hay', quantity_as_fed: 7 }, { feed_id: 'bran', quantity_as_fed: 3 }] });
+    expect(changed.ration).toHaveLength(2);
+
+    const cleared = await store.update('tenant-a', 'Milkers', { ration: [] });
+    expect(cleared.ration).toBeUndefined();
+  });
+
+  it('should delete groups', async () => {
+    await store.create('tenant-a', { name: 'Heifers', cattle_info: cattleInfo });
+    await store.delete('tenant-a', 'Heifers');
+    expect(store.list('tenant-a')).toEqual([]);
+  });
+
+  describe('persistence', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'herd-store-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should reload groups saved to disk', async () => {
+      const filePath = join(dir, 'herds.json');
+      await new HerdStore(filePath).create('tenant-a', { name: 'Heifers', cattle_info: cattleInfo });
+
+      const reloaded = new HerdStore(filePath);
+      await reloaded.load();
+
+      expect(reloaded.get('tenant-a', 'Heifers')?.cattle_info).toEqual(cattleInfo);
+    });
+
+    it('should start empty when the file does not exist', async () => {
+      const missing = new HerdStore(join(dir, 'missing.json'));
+      await expect(missing.load()).resolves.toBeUndefined();
+      expect(missing.list('tenant-a')).toEqual([]);
+    });
+  });
+});
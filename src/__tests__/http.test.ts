@@ -0,0 +1,123 @@
+/**
+ * Unit Tests for the Backend Request Layer
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CircuitBreaker, RationSmartApiError, endpointLabel, errorDetail, requestJson } from '../http.js';
+import { withRequestId } from '../logger.js';
+import { metrics } from '../metrics.js';
+
+const { mockFetch } = vi.hoisted(() => ({ mockFetch: vi.fn() }));
+vi.mock('node-fetch', () => ({
+  default: mockFetch,
+}));
+
+const url = 'http://test-api.com/feeds/123';
+const ok = (body: unknown) => ({ ok: true, status: 200, json: async () => body });
+const failure = (status: number, body: string) => ({ ok: false, status, text: async () => body });
+const noDelay = { retryDelayMs: 0 };
+
+describe('errorDetail', () => {
+  it('should read FastAPI detail strings and validation lists', () => {
+    expect(errorDetail({ detail: 'Feed not found' })).toBe('Feed not found');
+    expect(errorDetail({ detail: [{ loc: ['body', 'cattle_info', 'parity'], msg: 'field required' }] }))
+      .toBe('body.cattle_info.parity: field required');
+    expect(errorDetail({ message: 'Bad key' })).toBe('Bad key');
+    expect(errorDetail('Internal Server Error')).toBe('Internal Server Error');
+    expect(errorDetail({})).toBeUndefined();
+  });
+});
+
+describe('endpointLabel', () => {
+  it('should replace IDs in paths with a placeholder', () => {
+    expect(endpointLabel('GET /feeds/3f2a9c1e-0b1d-4c55-9b7e-2d8f6a1b9c00')).toBe('GET /feeds/:id');
+    expect(endpointLabel('GET /feeds/123/')).toBe('GET /feeds/:id/');
+    expect(endpointLabel('POST /diet-evaluation-working/')).toBe('POST /diet-evaluation-working/');
+  });
+});
+
+describe('requestJson', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+  });
+
+  it('should throw a typed error with status, endpoint and detail', async () => {
+    mockFetch.mockResolvedValueOnce(failure(404, '{"detail":"Feed not found"}'));
+
+    const error = await requestJson<never>(url, {}, 'Failed to get feed', breaker).catch(e => e as RationSmartApiError);
+
+    expect(error).toBeInstanceOf(RationSmartApiError);
+    expect(error).toMatchObject({ kind: 'http', status: 404, endpoint: 'GET /feeds/123', detail: 'Feed not found' });
+    expect(error.message).toBe('Failed to get feed: 404 - Feed not found');
+    expect(error.unavailable).toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry GET requests on gateway errors', async () => {
+    mockFetch
+      .mockResolvedValueOnce(failure(503, 'Service Unavailable'))
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(ok({ feed_id: '123' }));
+
+    await expect(requestJson(url, {}, 'Failed to get feed', breaker, noDelay)).resolves.toEqual({ feed_id: '123' });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry POST requests', async () => {
+    mockFetch.mockResolvedValueOnce(failure(503, ''));
+
+    await expect(requestJson(url, { method: 'POST', body: '{}' }, 'Diet evaluation failed', breaker, noDelay))
+      .rejects.toMatchObject({ status: 503, endpoint: 'POST /feeds/123' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should time out a hanging request', async () => {
+    mockFetch.mockImplementation((_url: string, init: { signal: AbortSignal }) => new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    }));
+
+    await expect(requestJson(url, {}, 'Failed to get feed', breaker, { timeoutMs: 20, retries: 0 }))
+      .rejects.toMatchObject({ kind: 'timeout', unavailable: true });
+  });
+
+  it('should open the circuit after repeated outages and fail fast', async () => {
+    mockFetch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await expect(requestJson(url, {}, 'Failed to get feed', breaker, { ...noDelay, retries: 2 })).rejects.toMatchObject({ kind: 'network' });
+    await expect(requestJson(url, {}, 'Failed to get feed', breaker, noDelay)).rejects.toMatchObject({ kind: 'circuit_open' });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(breaker.status().state).toBe('open');
+  });
+
+  it('should let one trial request through after the reset timeout', async () => {
+    vi.useFakeTimers();
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    mockFetch.mockResolvedValueOnce(ok([]));
+
+    await expect(requestJson(url, {}, 'Failed to search feeds', breaker)).resolves.toEqual([]);
+    expect(breaker.status()).toEqual({ state: 'closed', failures: 0 });
+    vi.useRealTimers();
+  });
+
+  it('should not count client errors as outages', async () => {
+    mockFetch.mockResolvedValue(failure(422, '{"detail":"Invalid"}'));
+
+    for (let i = 0; i < 4; i++) {
+      await expect(requestJson(url, {}, 'Failed', breaker)).rejects.toMatchObject({ status: 422 });
+    }
+    expect(breaker.status().state).toBe('closed');
+  });
+
+  it('should send the current request ID and count the attempt', async () => {
+    mockFetch.mockResolvedValueOnce(ok({ feed_id: '123' }));
+
+    await withRequestId('req-42', () => requestJson(url, { headers: { Authorization: 'Bearer k' } }, 'Failed', breaker));
+
+    expect(mockFetch.mock.calls[0][1].headers).toEqual({ Authorization: 'Bearer k', 'X-Request-Id': 'req-42' });
+    expect(metrics.render()).toMatch(/ration_smart_backend_requests_total\{endpoint="GET \/feeds\/:id",outcome="200"\} \d+/);
+  });
+});
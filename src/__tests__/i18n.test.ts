@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for Localization and Feed Name Translation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { t } from '../i18n.js';
+import { FeedNameCatalogue } from '../feed-names.js';
+
+describe('t', () => {
+  it('should translate a message', () => {
+    expect(t('en', 'report.feed')).toBe('Feed');
+    expect(t('sw', 'report.feed')).toBe('Chakula');
+    expect(t('am', 'report.feed')).toBe('መኖ');
+  });
+
+  it('should fill placeholders and leave unknown ones', () => {
+    expect(t('en', 'card.more_feeds', { count: 3 })).toBe('+ 3 more feeds');
+    expect(t('en', 'card.more_feeds')).toBe('+ {count} more feeds');
+  });
+
+  it('should fall back to English for missing keys', () => {
+    expect(t('am', 'card.footer')).toBe(t('en', 'card.footer'));
+  });
+});
+
+describe('FeedNameCatalogue', () => {
+  it('should match built-in names regardless of case and spacing', () => {
+    const names = new FeedNameCatalogue();
+
+    expect(names.displayName({ name: 'Wheat  Bran' }, 'sw')).toBe('Pumba za ngano');
+    expect(names.displayName({ name: 'Wheat bran' }, 'en')).toBe('Wheat bran');
+  });
+
+  it('should fall back to the English name', () => {
+    const names = new FeedNameCatalogue();
+
+    expect(names.displayName({ name: 'Teff straw' }, 'sw')).toBe('Teff straw');
+    expect(names.displayName({ name: 'Lucerne hay' }, 'am')).toBe('Lucerne hay');
+  });
+
+  it('should prefer feed ID entries from the catalogue file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'feed-names-'));
+    const file = join(dir, 'feed-names.json');
+    await writeFile(file, JSON.stringify({
+      'feed-123': { am: 'ጤፍ ጭድ (ደብረ ብርሃን)' },
+      'Wheat bran': { om: 'Furushkaa' }
+    }));
+    const names = new FeedNameCatalogue(file);
+    await names.load();
+
+    expect(names.displayName({ feed_id: 'feed-123', name: 'Teff straw' }, 'am')).toBe('ጤፍ ጭድ (ደብረ ብርሃን)');
+    expect(names.displayName({ feed_id: 'feed-456', name: 'Teff straw' }, 'am')).toBe('የጤፍ ጭድ');
+    expect(names.displayName({ name: 'Wheat bran' }, 'om')).toBe('Furushkaa');
+    expect(names.displayName({ name: 'Wheat bran' }, 'sw')).toBe('Pumba za ngano');
+  });
+
+  it('should ignore a missing catalogue file', async () => {
+    const names = new FeedNameCatalogue(join(tmpdir(), 'does-not-exist', 'feed-names.json'));
+
+    await expect(names.load()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit Tests for Whole-Lactation Feeding Plans
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planLactation, totalPlanFeeds } from '../lactation-plan.js';
+
+describe('planLactation', () => {
+  it('should split the calving interval into lactation and dry phases', () => {
+    const schedule = planLactation({ peak_milk_kg: 20, parity: 2, calving_interval: 400 });
+
+    expect(schedule.lactation_days).toBe(340);
+    expect(schedule.conception_day).toBe(117);
+    expect(schedule.phases.map(p => [p.phase, p.start_day, p.end_day])).toEqual([
+      ['early_lactation', 1, 100],
+      ['mid_lactation', 101, 200],
+      ['late_lactation', 201, 340],
+      ['far_off_dry', 341, 379],
+      ['close_up_dry', 380, 400]
+    ]);
+    expect(schedule.phases.reduce((sum, p) => sum + p.days, 0)).toBe(400);
+    expect(schedule.phases[3]).toMatchObject({ lactating: false, days_in_milk: 0, milk_kg_per_day: 0, days_of_pregnancy: 243 });
+  });
+
+  it('should peak at the peak yield and decline after it', () => {
+    const schedule = planLactation({ peak_milk_kg: 20, parity: 2, calving_interval: 400 });
+    const yields = schedule.phases.filter(p => p.lactating).map(p => p.milk_kg_per_day);
+
+    expect(Math.max(...schedule.projection.map(p => p.milk_kg_per_day))).toBeLessThanOrEqual(20);
+    expect(schedule.projection.find(p => p.day === 60)?.milk_kg_per_day).toBeCloseTo(19.9, 1);
+    expect(yields).toEqual([...yields].sort((a, b) => b - a));
+    expect(schedule.projection.at(-1)?.day).toBe(340);
+  });
+
+  it('should give first-lactation cows a later peak and a flatter decline', () => {
+    const first = planLactation({ peak_milk_kg: 20, parity: 1, calving_interval: 400 });
+    const later = planLactation({ peak_milk_kg: 20, parity: 3, calving_interval: 400 });
+
+    expect(first.peak_day).toBe(70);
+    expect(first.phases[2].milk_kg_per_day).toBeGreaterThan(later.phases[2].milk_kg_per_day);
+    expect(first.lactation_milk_kg).toBeGreaterThan(later.lactation_milk_kg);
+  });
+
+  it('should reject lactations that are too short or peak too late', () => {
+    expect(() => planLactation({ peak_milk_kg: 20, parity: 2, calving_interval: 300, dry_days: 220 })).toThrow('plans need at least 100');
+    expect(() => planLactation({ peak_milk_kg: 20, parity: 2, calving_interval: 300, dry_days: 150, peak_day: 150 })).toThrow('Peak day 150');
+  });
+});
+
+describe('totalPlanFeeds', () => {
+  it('should scale daily rations by phase length and total per feed and type', () => {
+    const totals = totalPlanFeeds([
+      {
+        days: 100,
+        feeds: [
+          { feed_id: 'hay', feed_name: 'Hay', feed_type: 'Forage', quantity_as_fed_kg: 8, cost: 32 },
+          { feed_id: 'bran', feed_name: 'Wheat bran', feed_type: 'Concentrate', quantity_as_fed_kg: 3, cost: 36 }
+        ]
+      },
+      { days: 60, feeds: [{ feed_id: 'hay', feed_name: 'Hay', feed_type: 'Forage', quantity_as_fed_kg: 10, cost: 40 }] }
+    ]);
+
+    expect(totals.feeds).toEqual([
+      { feed_id: 'hay', feed_name: 'Hay', feed_type: 'Forage', as_fed_kg: 1400, cost: 5600 },
+      { feed_id: 'bran', feed_name: 'Wheat bran', feed_type: 'Concentrate', as_fed_kg: 300, cost: 3600 }
+    ]);
+    expect(totals.feed_types).toEqual({ Forage: 1400, Concentrate: 300 });
+    expect(totals.cost).toBe(9200);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for the Linear Program Solver
+ */
+
+import { describe, it, expect } from 'vitest';
+import { solveLinearProgram } from '../linear-program.js';
+
+describe('solveLinearProgram', () => {
+  it('should solve a minimization with >= constraints', () => {
+    // minimize 2x + 3y  s.t. x + y >= 4, x + 3y >= 6
+    const result = solveLinearProgram({
+      objective: [2, 3],
+      constraints: [
+        { coefficients: [1, 1], sense: '>=', rhs: 4 },
+        { coefficients: [1, 3], sense: '>=', rhs: 6 },
+      ],
+    });
+
+    expect(result.status).toBe('optimal');
+    if (result.status !== 'optimal') return;
+    expect(result.x[0]).toBeCloseTo(3);
+    expect(result.x[1]).toBeCloseTo(1);
+    expect(result.objective).toBeCloseTo(9);
+  });
+
+  it('should handle equality and <= constraints', () => {
+    // minimize -x - y  s.t. x + y = 5, x <= 2
+    const result = solveLinearProgram({
+      objective: [-1, -1],
+      constraints: [
+        { coefficients: [1, 1], sense: '=', rhs: 5 },
+        { coefficients: [1, 0], sense: '<=', rhs: 2 },
+      ],
+    });
+
+    expect(result.status).toBe('optimal');
+    if (result.status !== 'optimal') return;
+    expect(result.x[0] + result.x[1]).toBeCloseTo(5);
+    expect(result.x[0]).toBeLessThanOrEqual(2 + 1e-9);
+  });
+
+  it('should normalize negative right-hand sides', () => {
+    // -x <= -3 is x >= 3
+    const result = solveLinearProgram({
+      objective: [1],
+      constraints: [{ coefficients: [-1], sense: '<=', rhs: -3 }],
+    });
+
+    expect(result.status).toBe('optimal');
+    if (result.status !== 'optimal') return;
+    expect(result.x[0]).toBeCloseTo(3);
+  });
+
+  it('should report infeasible problems', () => {
+    const result = solveLinearProgram({
+      objective: [1],
+      constraints: [
+        { coefficients: [1], sense: '>=', rhs: 5 },
+        { coefficients: [1], sense: '<=', rhs: 3 },
+      ],
+    });
+    expect(result.status).toBe('infeasible');
+  });
+
+  it('should report unbounded problems', () => {
+    const result = solveLinearProgram({
+      objective: [-1],
+      constraints: [{ coefficients: [1], sense: '>=', rhs: 1 }],
+    });
+    expect(result.status).toBe('unbounded');
+  });
+
+  it('should reject constraints of the wrong width', () => {
+    expect(() =>
+      solveLinearProgram({ objective: [1, 1], constraints: [{ coefficients: [1], sense: '>=', rhs: 1 }] })
+    ).toThrow('expected 2');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit Tests for Prometheus Metrics and Structured Logging
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MetricsRegistry } from '../metrics.js';
+import { createLogger, currentRequestId, setLogLevel, withRequestId } from '../logger.js';
+import { RationSmartApiError } from '../http.js';
+
+describe('MetricsRegistry', () => {
+  it('should render counters per label set', () => {
+    const registry = new MetricsRegistry();
+    const calls = registry.counter('tool_calls_total', 'Tool calls');
+    calls.inc({ tool: 'evaluate_diet', outcome: 'success' });
+    calls.inc({ outcome: 'success', tool: 'evaluate_diet' });
+    calls.inc({ tool: 'search_feeds', outcome: 'error' });
+
+    expect(calls.get({ tool: 'evaluate_diet', outcome: 'success' })).toBe(2);
+    expect(registry.render()).toBe([
+      '# HELP tool_calls_total Tool calls',
+      '# TYPE tool_calls_total counter',
+      'tool_calls_total{tool="evaluate_diet",outcome="success"} 2',
+      'tool_calls_total{tool="search_feeds",outcome="error"} 1',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render cumulative histogram buckets with sum and count', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+    latency.observe({ endpoint: 'GET /feeds/:id' }, 0.05);
+    latency.observe({ endpoint: 'GET /feeds/:id' }, 0.5);
+    latency.observe({ endpoint: 'GET /feeds/:id' }, 2);
+
+    expect(registry.render()).toContain([
+      'latency_seconds_bucket{endpoint="GET /feeds/:id",le="0.1"} 1',
+      'latency_seconds_bucket{endpoint="GET /feeds/:id",le="1"} 2',
+      'latency_seconds_bucket{endpoint="GET /feeds/:id",le="+Inf"} 3',
+      'latency_seconds_sum{endpoint="GET /feeds/:id"} 2.55',
+      'latency_seconds_count{endpoint="GET /feeds/:id"} 3',
+    ].join('\n'));
+  });
+
+  it('should read gauges when rendering and escape label values', () => {
+    const registry = new MetricsRegistry();
+    let sessions = 1;
+    registry.gauge('sessions', 'Open sessions', () => sessions);
+    registry.counter('errors_total', 'Errors').inc({ message: 'said "no"\n' });
+    sessions = 3;
+
+    const text = registry.render();
+    expect(text).toContain('sessions 3');
+    expect(text).toContain('errors_total{message="said \\"no\\"\\n"} 1');
+    expect(() => registry.counter('sessions', 'Again')).toThrow('already registered');
+  });
+});
+
+describe('Logger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setLogLevel('info');
+  });
+
+  it('should write JSON lines tagged with the current request ID', async () => {
+    const output = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const log = createLogger('Test');
+
+    await withRequestId('req-1', async () => {
+      await Promise.resolve();
+      expect(currentRequestId()).toBe('req-1');
+      log.info('Tool call', { tool: 'evaluate_diet' });
+    });
+
+    const entry = JSON.parse(output.mock.calls[0][0]);
+    expect(entry).toMatchObject({ level: 'info', component: 'Test', msg: 'Tool call', request_id: 'req-1', tool: 'evaluate_diet' });
+    expect(currentRequestId()).toBeUndefined();
+  });
+
+  it('should serialize errors with their extra fields', () => {
+    const output = vi.spyOn(console, 'error').mockImplementation(() => {});
+    createLogger('Test').error('Tool error', {
+      error: new RationSmartApiError('Failed: 404', { kind: 'http', endpoint: 'GET /feeds/1', status: 404 }),
+    });
+
+    const { error } = JSON.parse(output.mock.calls[0][0]);
+    expect(error).toMatchObject({ name: 'RationSmartApiError', message: 'Failed: 404', status: 404, endpoint: 'GET /feeds/1' });
+    expect(error.stack).toContain('RationSmartApiError');
+  });
+
+  it('should drop entries below the configured level', () => {
+    const output = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const log = createLogger('Test');
+
+    log.debug('Hidden');
+    setLogLevel('debug');
+    log.debug('Shown');
+
+    expect(output).toHaveBeenCalledTimes(1);
+  });
+});
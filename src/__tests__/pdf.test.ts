@@ -0,0 +1,74 @@
+/**
+ * Unit Tests for the Minimal PDF Writer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PdfPage, textWidth, truncateText, wrapText } from '../pdf.js';
+
+describe('PdfPage', () => {
+  it('should write a cross-reference table pointing at each object', () => {
+    const page = new PdfPage(420, 595);
+    page.text(30, 40, 'Ration card', { size: 18, bold: true });
+    page.line(30, 50, 390, 50);
+    const pdf = page.toBuffer().toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = [...pdf.slice(startxref).matchAll(/(\d{10}) 00000 n/g)].map(m => Number(m[1]));
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((offset, i) => {
+      expect(pdf.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+  });
+
+  it('should declare the content stream length in bytes', () => {
+    const page = new PdfPage(200, 200);
+    page.text(10, 10, 'Café ½ kg');
+    const pdf = page.toBuffer().toString('latin1');
+    const length = Number(pdf.match(/\/Length (\d+)/)![1]);
+    const stream = pdf.slice(pdf.indexOf('stream\n') + 7, pdf.indexOf('\nendstream'));
+
+    expect(Buffer.byteLength(stream, 'latin1')).toBe(length);
+  });
+
+  it('should escape delimiters and replace unsupported characters', () => {
+    const page = new PdfPage(200, 200);
+    page.text(10, 10, 'Maize (yellow) \\ ጤፍ');
+    const pdf = page.toBuffer().toString('latin1');
+
+    expect(pdf).toContain('(Maize \\(yellow\\) \\\\ ??) Tj');
+  });
+
+  it('should flip y so coordinates run from the top of the page', () => {
+    const page = new PdfPage(200, 300);
+    page.text(10, 20, 'Top');
+
+    expect(page.toBuffer().toString('latin1')).toContain('10 280 Td (Top) Tj');
+  });
+});
+
+describe('text layout', () => {
+  it('should measure Helvetica widths', () => {
+    expect(textWidth('0000', 10)).toBeCloseTo(22.24);
+    expect(textWidth('iiii', 10)).toBeLessThan(textWidth('MMMM', 10));
+  });
+
+  it('should wrap on spaces within the width', () => {
+    const lines = wrapText('Add a mineral mix to the ration every day', 100, 10);
+
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(line => expect(textWidth(line, 10)).toBeLessThanOrEqual(100));
+    expect(lines.join(' ')).toBe('Add a mineral mix to the ration every day');
+  });
+
+  it('should truncate with an ellipsis', () => {
+    const text = truncateText('Natural pasture hay, second cut', 80, 10);
+
+    expect(text.endsWith('...')).toBe(true);
+    expect(textWidth(text, 10)).toBeLessThanOrEqual(80);
+    expect(truncateText('Hay', 80, 10)).toBe('Hay');
+  });
+});
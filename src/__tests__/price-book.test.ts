@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for the Feed Price Book and Price CSV Import
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PriceBook, parsePriceCsv } from '../price-book.js';
+
+describe('PriceBook', () => {
+  it('should replace a price for the same feed, region and date', async () => {
+    const book = new PriceBook();
+    await book.set('tenant-a', [
+      { feed_id: 'noug', price_per_kg: 30, region: 'Bishoftu', date: '2026-10-05' },
+      { feed_id: 'noug', price_per_kg: 32, region: 'Bishoftu', date: '2026-10-12' }
+    ]);
+    await book.set('tenant-a', [{ feed_id: 'noug', price_per_kg: 31, region: ' bishoftu ', date: '2026-10-12', currency: 'etb' }]);
+
+    const prices = book.list('tenant-a', { feed_id: 'noug' });
+    expect(prices.map(p => [p.date, p.price_per_kg])).toEqual([['2026-10-12', 31], ['2026-10-05', 30]]);
+    expect(prices[0].currency).toBe('ETB');
+    expect(book.list('tenant-a', { latest: true })).toHaveLength(1);
+    expect(book.list('tenant-b')).toEqual([]);
+  });
+
+  it('should reject invalid dates and prices without recording anything', async () => {
+    const book = new PriceBook();
+    await expect(book.set('tenant-a', [
+      { feed_id: 'hay', price_per_kg: 5, date: '2026-10-12' },
+      { feed_id: 'bran', price_per_kg: 12, date: '12/10/2026' }
+    ])).rejects.toThrow('Price 2 (bran): date must be YYYY-MM-DD');
+    await expect(book.set('tenant-a', [{ feed_id: 'hay', price_per_kg: -1 }])).rejects.toThrow('price_per_kg');
+    expect(book.list('tenant-a')).toEqual([]);
+  });
+
+  it('should look up the latest price on or before the date, preferring the region', async () => {
+    const book = new PriceBook();
+    await book.set('tenant-a', [
+      { feed_id: 'bran', price_per_kg: 10, date: '2026-09-01' },
+      { feed_id: 'bran', price_per_kg: 14, date: '2026-10-01' },
+      { feed_id: 'bran', price_per_kg: 12, region: 'Adama', date: '2026-09-15' }
+    ]);
+
+    expect(book.lookup('tenant-a', 'bran', { date: '2026-10-05' })?.price_per_kg).toBe(14);
+    expect(book.lookup('tenant-a', 'bran', { date: '2026-09-10' })?.price_per_kg).toBe(10);
+    expect(book.lookup('tenant-a', 'bran', { region: 'adama', date: '2026-10-05' })?.price_per_kg).toBe(12);
+    expect(book.lookup('tenant-a', 'bran', { region: 'Adama', date: '2026-09-10' })?.price_per_kg).toBe(10);
+    expect(book.lookup('tenant-a', 'bran', { date: '2026-08-01' })).toBeUndefined();
+  });
+
+  it('should fill only missing prices and report defaulted and missing feeds', async () => {
+    const book = new PriceBook();
+    await book.set('tenant-a', [{ feed_id: 'hay', price_per_kg: 5, date: '2026-10-01', source: 'Market survey' }]);
+
+    const filled = book.fillPrices('tenant-a', [
+      { feed_id: 'hay', quantity_as_fed: 6 },
+      { feed_id: 'bran', quantity_as_fed: 2, price_per_kg: 12 },
+      { feed_id: 'noug', quantity_as_fed: 1 }
+    ], { date: '2026-10-12' });
+
+    expect(filled.feeds).toEqual([
+      { feed_id: 'hay', quantity_as_fed: 6, price_per_kg: 5 },
+      { feed_id: 'bran', quantity_as_fed: 2, price_per_kg: 12 }
+    ]);
+    expect(filled.defaulted).toEqual([
+      { feed_id: 'hay', price_per_kg: 5, currency: undefined, region: '', date: '2026-10-01', source: 'Market survey' }
+    ]);
+    expect(filled.missing).toEqual(['noug']);
+  });
+
+  it('should persist prices to a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'price-book-'));
+    try {
+      const path = join(dir, 'nested', 'prices.json');
+      await new PriceBook(path).set('tenant-a', [{ feed_id: 'hay', price_per_kg: 5, date: '2026-10-01' }]);
+
+      const reloaded = new PriceBook(path);
+      await reloaded.load();
+      expect(reloaded.lookup('tenant-a', 'hay', { date: '2026-10-12' })?.price_per_kg).toBe(5);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should start empty from a corrupt prices file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'price-book-'));
+    try {
+      const path = join(dir, 'prices.json');
+      await writeFile(path, '{"tenant-a": [');
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const priceBook = new PriceBook(path);
+      await expect(priceBook.load()).resolves.toBeUndefined();
+
+      expect(priceBook.list('tenant-a')).toEqual([]);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should replace the prices file without leaving a temporary copy', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'price-book-'));
+    try {
+      const priceBook = new PriceBook(join(dir, 'prices.json'));
+      await priceBook.set('tenant-a', [{ feed_id: 'hay', price_per_kg: 5 }]);
+      await priceBook.set('tenant-a', [{ feed_id: 'hay', price_per_kg: 5 }]);
+
+      expect(await readdir(dir)).toEqual(['prices.json']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('parsePriceCsv', () => {
+  it('should parse rows with optional and quoted columns', () => {
+    const csv = '\uFEFFFeed_ID,Price_per_kg,Region,Date,Source\r\n' +
+      'noug,31.5,Bishoftu,2026-10-12,"Survey, week 41"\r\n' +
+      'hay,5,,,\r\n\r\n';
+
+    expect(parsePriceCsv(csv)).toEqual([
+      { feed_id: 'noug', price_per_kg: 31.5, region: 'Bishoftu', date: '2026-10-12', currency: undefined, source: 'Survey, week 41' },
+      { feed_id: 'hay', price_per_kg: 5, region: undefined, date: undefined, currency: undefined, source: undefined }
+    ]);
+  });
+
+  it('should report every invalid row with its line number', () => {
+    const csv = 'feed_id,price_per_kg,currency\nnoug,abc,ETB\n,5,ETB\nhay,5,birr\nbran,12,ETB';
+
+    expect(() => parsePriceCsv(csv)).toThrow(
+      'Invalid price CSV: line 2: price_per_kg "abc" is not a valid price; line 3: feed_id is empty; line 4: currency "birr" is not a 3-letter code'
+    );
+  });
+
+  it('should require the feed_id and price_per_kg columns', () => {
+    expect(() => parsePriceCsv('feed,price\nhay,5')).toThrow('Price CSV needs a "feed_id" column');
+    expect(() => parsePriceCsv('')).toThrow('Price CSV is empty');
+  });
+});
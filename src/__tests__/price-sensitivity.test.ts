@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for Price Sensitivity of Least-Cost Rations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePriceSensitivity } from '../price-sensitivity.js';
+import { RationConstraints, SolverFeed } from '../ration-solver.js';
+import { FeedDetails } from '../feed-client.js';
+
+function feed(overrides: Partial<FeedDetails>): FeedDetails {
+  return {
+    feed_id: 'feed',
+    fd_code: 1,
+    fd_name: 'Feed',
+    fd_type: 'Forage',
+    fd_category: 'Hay',
+    fd_country_id: 'et',
+    fd_country_name: 'Ethiopia',
+    fd_country_cd: 'ET',
+    fd_dm: 90,
+    fd_ash: 8,
+    fd_cp: 8,
+    fd_ee: 2,
+    fd_st: 2,
+    fd_ndf: 65,
+    fd_adf: 40,
+    fd_lg: 6,
+    fd_ndin: 0,
+    fd_adin: 0,
+    fd_ca: 0.4,
+    fd_p: 0.2,
+    ...overrides,
+  };
+}
+
+// Protein comes from wheat bran or noug cake, whichever is cheaper per unit of CP
+const feeds: SolverFeed[] = [
+  { feed: feed({ feed_id: 'hay', fd_name: 'Natural pasture hay' }), price_per_kg: 4 },
+  { feed: feed({ feed_id: 'bran', fd_name: 'Wheat bran', fd_type: 'Concentrate', fd_cp: 17 }), price_per_kg: 12 },
+  { feed: feed({ feed_id: 'noug', fd_name: 'Noug seed cake', fd_type: 'Concentrate', fd_cp: 33 }), price_per_kg: 25 },
+];
+
+const constraints: RationConstraints = {
+  dm_intake_kg: { min: 10, max: 10 },
+  nutrients_pct_dm: { cp: { min: 12 } },
+};
+
+describe('analyzePriceSensitivity', () => {
+  it('should find the price above which a feed leaves the diet', () => {
+    const [noug] = analyzePriceSensitivity(feeds, constraints, [{ feed_id: 'noug' }], { milkKgPerDay: 10.3 }).feeds;
+
+    expect(noug.in_diet).toBe('below_break_even');
+    // Noug and bran cost the same per unit of CP at 26.22 per kg
+    expect(noug.break_even_price).toBeCloseTo(26.22, 1);
+    expect(noug.points).toHaveLength(9);
+    expect(noug.points[0].price_per_kg).toBe(12.5);
+    expect(noug.points[8].price_per_kg).toBe(37.5);
+    expect(noug.points[0].quantity_as_fed_kg).toBeGreaterThan(0);
+    expect(noug.points[8].quantity_as_fed_kg).toBe(0);
+    // Cost rises with the noug price until bran takes over, then stays flat
+    expect(noug.points[0].total_cost).toBeLessThan(noug.points[4].total_cost);
+    expect(noug.points[8].total_cost).toBe(noug.points[7].total_cost);
+    expect(noug.points[8].cost_per_litre).toBeCloseTo(noug.points[8].total_cost / 10, 4);
+  });
+
+  it('should report feeds that stay in or out across the range', () => {
+    const result = analyzePriceSensitivity(feeds, constraints, [
+      { feed_id: 'hay', min_price: 2, max_price: 6 },
+      { feed_id: 'bran', min_price: 13, max_price: 20 },
+    ], { steps: 3 });
+
+    expect(result.feeds.map(f => [f.feed_id, f.in_diet, f.break_even_price])).toEqual([
+      ['hay', 'always', null],
+      ['bran', 'never', null],
+    ]);
+    expect(result.feeds[0].points.map(p => p.price_per_kg)).toEqual([2, 4, 6]);
+    expect(result.feeds[0].points[0].cost_per_litre).toBeNull();
+  });
+
+  it('should reject feeds outside the selection and empty ranges', () => {
+    expect(() => analyzePriceSensitivity(feeds, constraints, [{ feed_id: 'lime' }]))
+      .toThrow('Price sensitivity feed lime is not in the feed selection');
+    expect(() => analyzePriceSensitivity(feeds, constraints, [{ feed_id: 'hay', min_price: 5, max_price: 5 }]))
+      .toThrow('Price range for hay is empty');
+  });
+
+  it('should explain when no ration is feasible', () => {
+    const result = analyzePriceSensitivity(feeds, { ...constraints, nutrients_pct_dm: { cp: { min: 40 } } }, [{ feed_id: 'noug' }]);
+
+    expect(result.feeds).toEqual([]);
+    expect(result.message).toContain('No feasible ration');
+  });
+});
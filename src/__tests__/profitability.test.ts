@@ -0,0 +1,48 @@
+/**
+ * Unit Tests for Milk Income Over Feed Cost
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateProfitability } from '../profitability.js';
+
+const cow = { milk_kg_per_day: 10.3, fat_pct: 4, protein_pct: 3.2, feed_cost_per_day: 150 };
+
+describe('calculateProfitability', () => {
+  it('should price milk per litre and scale income over feed cost', () => {
+    const result = calculateProfitability(cow, { milk_price_per_litre: 40 });
+
+    expect(result.milk_litres_per_day).toBe(10);
+    expect(result.milk_income_per_day).toBe(400);
+    expect(result.income_over_feed_cost).toEqual({ per_day: 250, per_month: 7600, per_lactation: 76250 });
+    expect(result.lactation_days).toBe(305);
+    expect(result.feed_cost_per_litre).toBe(15);
+    expect(result.margin_per_litre).toBe(25);
+    expect(result.feed_cost_pct_of_income).toBe(37.5);
+  });
+
+  it('should add fat and protein payments to the volume price', () => {
+    const result = calculateProfitability({ ...cow, lactation_days: 280 }, {
+      milk_price_per_litre: 10,
+      fat_price_per_kg: 200,
+      protein_price_per_kg: 300
+    });
+
+    expect(result.milk_income_breakdown).toEqual({ volume: 100, fat: 82.4, protein: 98.88 });
+    expect(result.milk_income_per_day).toBe(281.28);
+    expect(result.milk_price_per_litre).toBe(28.128);
+    expect(result.income_over_feed_cost.per_lactation).toBe(36758.4);
+  });
+
+  it('should report the feed cost as a loss without per-litre figures for a dry cow', () => {
+    const result = calculateProfitability({ ...cow, milk_kg_per_day: 0, feed_cost_per_day: 60 }, { milk_price_per_litre: 40 });
+
+    expect(result.income_over_feed_cost.per_day).toBe(-60);
+    expect(result.margin_per_litre).toBeNull();
+    expect(result.feed_cost_per_litre).toBeNull();
+    expect(result.feed_cost_pct_of_income).toBeNull();
+  });
+
+  it('should require a milk price', () => {
+    expect(() => calculateProfitability(cow, {})).toThrow('Give a milk price');
+  });
+});
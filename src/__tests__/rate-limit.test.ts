@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Rate Limiting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RateLimiter, requestCost, parseToolCosts, DEFAULT_TOOL_COSTS } from '../rate-limit.js';
+
+const key = { scope: 'api_key' as const, id: 'abc' };
+const ip = { scope: 'ip' as const, id: '10.0.0.1' };
+
+const toolCall = (name: string, args: Record<string, unknown> = {}, id: number = 1) => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'tools/call',
+  params: { name, arguments: args },
+});
+
+describe('requestCost', () => {
+  it('should charge tool calls by tool', () => {
+    expect(requestCost(toolCall('get_diet_recommendation'))).toBe(DEFAULT_TOOL_COSTS.get_diet_recommendation);
+    expect(requestCost(toolCall('get_feed_info'))).toBe(1);
+  });
+
+  it('should charge batch evaluations per item', () => {
+    expect(requestCost(toolCall('batch_evaluate_diet', { items: [{}, {}, {}] }))).toBe(9);
+  });
+
+  it('should charge diet comparisons per evaluation', () => {
+    expect(requestCost(toolCall('compare_diets', { variants: [{}, {}] }))).toBe(9);
+  });
+
+  it('should not charge notifications and should sum JSON-RPC batches', () => {
+    expect(requestCost({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBe(0);
+    expect(requestCost([
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+      toolCall('evaluate_diet', {}, 2),
+    ])).toBe(4);
+  });
+
+  it('should use configured costs', () => {
+    expect(requestCost(toolCall('search_feeds'), { default: 1, search_feeds: 4 })).toBe(4);
+  });
+});
+
+describe('parseToolCosts', () => {
+  it('should apply configured costs over the defaults', () => {
+    expect(parseToolCosts(undefined)).toEqual(DEFAULT_TOOL_COSTS);
+    expect(parseToolCosts('{"search_feeds": 4, "default": 2}')).toMatchObject({ search_feeds: 4, default: 2, evaluate_diet: 3 });
+  });
+
+  it('should name TOOL_COSTS when the setting is invalid', () => {
+    expect(() => parseToolCosts('{search_feeds: 4}')).toThrow('TOOL_COSTS is not valid JSON');
+    expect(() => parseToolCosts('{"search_feeds": -1}')).toThrow('TOOL_COSTS must be a JSON object of tool names to costs of at least 0 - search_feeds:');
+    expect(() => parseToolCosts('[1, 2]')).toThrow('TOOL_COSTS must be');
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should allow a burst up to the per-minute limit and refill over time', () => {
+    const limiter = new RateLimiter({ api_key: { perMinute: 10, perDay: 0 }, ip: { perMinute: 0, perDay: 0 } });
+
+    expect(limiter.consume([key], 10, 0).allowed).toBe(true);
+    const limited = limiter.consume([key], 1, 0);
+    expect(limited).toMatchObject({ allowed: false, reason: 'rate', scope: 'api_key', limit: 10, retryAfterSeconds: 6 });
+
+    expect(limiter.consume([key], 1, 6000).allowed).toBe(true);
+  });
+
+  it('should let a request costing more than the bucket through only when it is full', () => {
+    const limiter = new RateLimiter({ api_key: { perMinute: 10, perDay: 0 }, ip: { perMinute: 0, perDay: 0 } });
+
+    expect(limiter.consume([key], 25, 0).allowed).toBe(true);
+    // 15 units of debt plus a full bucket takes 2.5 minutes
+    expect(limiter.consume([key], 25, 60000)).toMatchObject({ allowed: false, retryAfterSeconds: 90 });
+    expect(limiter.consume([key], 25, 150000).allowed).toBe(true);
+  });
+
+  it('should enforce the daily quota until UTC midnight', () => {
+    const limiter = new RateLimiter({ api_key: { perMinute: 0, perDay: 20 }, ip: { perMinute: 0, perDay: 0 } });
+    const noon = Date.UTC(2026, 0, 1, 12);
+
+    expect(limiter.consume([key], 15, noon).allowed).toBe(true);
+    expect(limiter.consume([key], 10, noon)).toMatchObject({
+      allowed: false,
+      reason: 'quota',
+      limit: 20,
+      retryAfterSeconds: 12 * 60 * 60,
+    });
+    expect(limiter.usedToday(key, noon)).toBe(15);
+
+    expect(limiter.consume([key], 10, Date.UTC(2026, 0, 2)).allowed).toBe(true);
+  });
+
+  it('should charge nothing when any identity is over its limit', () => {
+    const limiter = new RateLimiter({ api_key: { perMinute: 0, perDay: 100 }, ip: { perMinute: 0, perDay: 5 } });
+
+    expect(limiter.consume([key, ip], 5, 0).allowed).toBe(true);
+    expect(limiter.consume([key, ip], 5, 0)).toMatchObject({ allowed: false, scope: 'ip' });
+    expect(limiter.usedToday(key, 0)).toBe(5);
+  });
+
+  it('should forget identities idle for a day', () => {
+    const limiter = new RateLimiter({ api_key: { perMinute: 0, perDay: 100 }, ip: { perMinute: 0, perDay: 0 } });
+    limiter.consume([key], 5, 0);
+
+    limiter.sweep(2 * 24 * 60 * 60 * 1000);
+    expect(limiter.usedToday(key, 0)).toBe(0);
+  });
+});
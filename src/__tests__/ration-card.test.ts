@@ -0,0 +1,75 @@
+/**
+ * Unit Tests for PDF Ration Cards
+ */
+
+import { describe, it, expect } from 'vitest';
+import { costPerLitre, rationCardAdvice, renderRationCard } from '../ration-card.js';
+import { ReportModel } from '../report.js';
+
+function report(overrides: Partial<ReportModel> = {}): ReportModel {
+  return {
+    language: 'en',
+    title: 'Diet Evaluation',
+    subtitle: 'Holstein, 450 kg, 12 kg milk/day, 100 DIM',
+    currency: 'ETB',
+    feeds: [
+      { feed: 'Teff straw', as_fed_kg: 8, dm_kg: 7.2, price_per_kg: 5, cost: 40 },
+      { feed: 'Noug cake', as_fed_kg: 2, dm_kg: 1.8, price_per_kg: 20, cost: 40 }
+    ],
+    totals: { as_fed_kg: 10, dm_kg: 9, cost: 80 },
+    milk_kg_per_day: 10.3,
+    nutrients: [
+      { nutrient: 'Energy balance', unit: 'Mcal/day', balance: -1.5, status: 'short' },
+      { nutrient: 'NDF', unit: '% DM', supply: 58, requirement: { min: 28, max: 55 }, status: 'over' },
+      { nutrient: 'Protein balance', unit: 'kg/day', balance: 0.05, status: 'ok' }
+    ],
+    notes: ['Add mineral mix'],
+    ...overrides
+  };
+}
+
+describe('costPerLitre', () => {
+  it('should convert milk kg to litres', () => {
+    expect(costPerLitre(report())).toBeCloseTo(8);
+  });
+
+  it('should be undefined without milk', () => {
+    expect(costPerLitre(report({ milk_kg_per_day: 0 }))).toBeUndefined();
+    expect(costPerLitre(report({ milk_kg_per_day: undefined }))).toBeUndefined();
+  });
+});
+
+describe('rationCardAdvice', () => {
+  it('should list shortfalls and excesses before notes', () => {
+    expect(rationCardAdvice(report())).toEqual([
+      'Energy balance is short by 1.5 Mcal/day. Review the ration with your extension officer.',
+      'NDF is over the limit by 3 % DM.',
+      'Add mineral mix'
+    ]);
+  });
+
+  it('should cap the number of lines', () => {
+    expect(rationCardAdvice(report(), 1)).toHaveLength(1);
+  });
+});
+
+describe('renderRationCard', () => {
+  it('should render a one-page PDF with feeds and costs', () => {
+    const pdf = renderRationCard(report(), { date: new Date('2026-03-01T00:00:00Z') }).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 1');
+    expect(pdf).toContain('(Teff straw) Tj');
+    expect(pdf).toContain('(Cost per litre of milk) Tj');
+    expect(pdf).toContain('(8 ETB) Tj');
+    expect(pdf).toContain('(2026-03-01) Tj');
+  });
+
+  it('should summarize feeds that do not fit on the card', () => {
+    const feeds = Array.from({ length: 30 }, (_, i) => ({ feed: `Feed ${i + 1}`, as_fed_kg: 1, price_per_kg: 1, cost: 1 }));
+    const pdf = renderRationCard(report({ feeds })).toString('latin1');
+
+    expect(pdf).toContain('more feeds) Tj');
+    expect(pdf).not.toContain('(Feed 30) Tj');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit Tests for the Local Least-Cost Ration Solver
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  solveLeastCostRation,
+  defaultRationConstraints,
+  mergeRationConstraints,
+  estimateNelMcalPerKgDm,
+  SolverFeed,
+} from '../ration-solver.js';
+import { CattleInfo, FeedDetails } from '../feed-client.js';
+
+function feed(overrides: Partial<FeedDetails>): FeedDetails {
+  return {
+    feed_id: 'feed',
+    fd_code: 1,
+    fd_name: 'Feed',
+    fd_type: 'Forage',
+    fd_category: 'Hay',
+    fd_country_id: 'et',
+    fd_country_name: 'Ethiopia',
+    fd_country_cd: 'ET',
+    fd_dm: 90,
+    fd_ash: 8,
+    fd_cp: 8,
+    fd_ee: 2,
+    fd_st: 2,
+    fd_ndf: 65,
+    fd_adf: 40,
+    fd_lg: 6,
+    fd_ndin: 0,
+    fd_adin: 0,
+    fd_ca: 0.4,
+    fd_p: 0.2,
+    ...overrides,
+  };
+}
+
+const hay = feed({ feed_id: 'hay', fd_name: 'Natural pasture hay' });
+const teffStraw = feed({ feed_id: 'teff', fd_name: 'Teff straw', fd_cp: 5, fd_ndf: 72, fd_lg: 8 });
+const nougCake = feed({
+  feed_id: 'noug',
+  fd_name: 'Noug seed cake',
+  fd_type: 'Concentrate',
+  fd_category: 'Oilseed cake',
+  fd_cp: 33,
+  fd_ndf: 35,
+  fd_adf: 28,
+  fd_lg: 5,
+  fd_ee: 8,
+  fd_ca: 0.5,
+  fd_p: 0.9,
+});
+const wheatBran = feed({
+  feed_id: 'bran',
+  fd_name: 'Wheat bran',
+  fd_type: 'Concentrate',
+  fd_category: 'Milling by-product',
+  fd_cp: 17,
+  fd_ndf: 42,
+  fd_adf: 12,
+  fd_lg: 3,
+  fd_ee: 4,
+  fd_st: 20,
+  fd_ash: 6,
+  fd_ca: 0.15,
+  fd_p: 1.1,
+});
+const limestone = feed({
+  feed_id: 'lime',
+  fd_name: 'Limestone',
+  fd_type: 'Concentrate',
+  fd_category: 'Mineral',
+  fd_dm: 99,
+  fd_ash: 95,
+  fd_cp: 0,
+  fd_ee: 0,
+  fd_st: 0,
+  fd_ndf: 0,
+  fd_adf: 0,
+  fd_lg: 0,
+  fd_ca: 38,
+  fd_p: 0,
+});
+
+const cow: CattleInfo = {
+  body_weight: 400,
+  breed: 'Holstein cross',
+  lactating: true,
+  milk_production: 10,
+  days_in_milk: 90,
+  parity: 2,
+  days_of_pregnancy: 0,
+  tp_milk: 3.1,
+  fat_milk: 3.8,
+  temperature: 20,
+  topography: 'Flat',
+  distance: 1,
+  calving_interval: 400,
+};
+
+const feeds: SolverFeed[] = [
+  { feed: hay, price_per_kg: 6 },
+  { feed: teffStraw, price_per_kg: 3 },
+  { feed: nougCake, price_per_kg: 25 },
+  { feed: wheatBran, price_per_kg: 15 },
+  { feed: limestone, price_per_kg: 10 },
+];
+
+describe('estimateNelMcalPerKgDm', () => {
+  it('should rank concentrates above straw', () => {
+    expect(estimateNelMcalPerKgDm(wheatBran)).toBeGreaterThan(estimateNelMcalPerKgDm(teffStraw));
+    expect(estimateNelMcalPerKgDm(limestone)).toBe(0);
+  });
+});
+
+describe('solveLeastCostRation', () => {
+  it('should meet every default constraint at least cost', () => {
+    const constraints = defaultRationConstraints(cow);
+    const solution = solveLeastCostRation(feeds, constraints);
+
+    expect(solution.status).toBe('optimal');
+    for (const check of solution.constraints) {
+      if (check.min !== undefined) expect(check.value).toBeGreaterThanOrEqual(check.min - 0.01);
+      if (check.max !== undefined) expect(check.value).toBeLessThanOrEqual(check.max + 0.01);
+    }
+    expect(solution.total_cost).toBeCloseTo(
+      solution.feeds.reduce((sum, line) => sum + line.quantity_as_fed_kg * line.price_per_kg, 0),
+      1
+    );
+  });
+
+  it('should respect per-feed as-fed limits', () => {
+    const limited = feeds.map(f => (f.feed.feed_id === 'teff' ? { ...f, max_kg: 1 } : f));
+    const solution = solveLeastCostRation(limited, defaultRationConstraints(cow));
+
+    const teff = solution.feeds.find(line => line.feed_id === 'teff');
+    expect(teff?.quantity_as_fed_kg ?? 0).toBeLessThanOrEqual(1.001);
+  });
+
+  it('should report infeasible constraints', () => {
+    const constraints = mergeRationConstraints(defaultRationConstraints(cow), {
+      nutrients_pct_dm: { cp: { min: 40 } },
+    });
+    const solution = solveLeastCostRation(feeds, constraints);
+
+    expect(solution.status).toBe('infeasible');
+    expect(solution.feeds).toEqual([]);
+    expect(solution.message).toContain('relax the constraints');
+  });
+
+  it('should reject feeds without dry matter', () => {
+    expect(() => solveLeastCostRation([{ feed: feed({ fd_dm: 0 }), price_per_kg: 1 }], defaultRationConstraints(cow)))
+      .toThrow('no dry matter');
+  });
+});
+
+describe('mergeRationConstraints', () => {
+  it('should override individual bounds', () => {
+    const merged = mergeRationConstraints(defaultRationConstraints(cow), {
+      nutrients_pct_dm: { ndf: { max: 40 } },
+      forage_pct_dm: { min: 50 },
+    });
+    expect(merged.nutrients_pct_dm?.ndf).toEqual({ min: 28, max: 40 });
+    expect(merged.forage_pct_dm).toEqual({ min: 50 });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Unit Tests for Diet Report Rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildEvaluationReport,
+  buildRecommendationReport,
+  renderMarkdown,
+  renderHtml
+} from '../report.js';
+import { CattleInfo } from '../feed-client.js';
+import { DietEvaluationResponse } from '../api-schemas.js';
+import { FeedNameCatalogue } from '../feed-names.js';
+import { ExchangeRates } from '../currency.js';
+
+const cattle: CattleInfo = {
+  breed: 'Holstein',
+  body_weight: 450,
+  lactating: true,
+  milk_production: 12,
+  days_in_milk: 100,
+  parity: 2,
+  days_of_pregnancy: 0,
+  tp_milk: 3.2,
+  fat_milk: 3.8,
+  temperature: 20,
+  topography: 'Flat',
+  distance: 1,
+  calving_interval: 400
+};
+
+const evaluation: DietEvaluationResponse = {
+  simulation_id: 'eval-1',
+  milk_production_analysis: { target_production_kg_day: 12, actual_milk_supported_kg_day: 10.5 },
+  intake_evaluation: { actual_intake_kg_day: 12.1, target_intake_kg_day: 12 },
+  cost_analysis: { total_diet_cost_as_fed: 80, currency: 'ETB' },
+  methane_analysis: { methane_production_g_per_day: 250 },
+  nutrient_balance: { energy_balance_mcal: -1.5, protein_balance_kg: 0.05 },
+  feed_breakdown: [
+    { feed_id: 'f1', feed_name: 'Teff straw', quantity_as_fed_kg_day: 8, quantity_dm_kg_day: 7.2, price_per_kg: 5, total_cost: 40 },
+    { feed_id: 'f2', feed_name: 'Noug cake', quantity_as_fed_kg_day: 2, quantity_dm_kg_day: 1.8, price_per_kg: 20, total_cost: 40 }
+  ],
+  warnings: ['Energy below requirement']
+};
+
+describe('buildEvaluationReport', () => {
+  it('should list feeds with as-fed and DM totals', () => {
+    const report = buildEvaluationReport(evaluation, { cattle });
+
+    expect(report.feeds).toHaveLength(2);
+    expect(report.totals).toEqual({ as_fed_kg: 10, dm_kg: 9, cost: 80 });
+    expect(report.currency).toBe('ETB');
+  });
+
+  it('should flag shortfalls against the requirement', () => {
+    const report = buildEvaluationReport(evaluation, { cattle });
+    const status = Object.fromEntries(report.nutrients.map(n => [n.nutrient, n.status]));
+
+    expect(status['Dry matter intake']).toBe('ok');
+    expect(status['Milk supported']).toBe('short');
+    expect(status['Energy balance']).toBe('short');
+    expect(status['Protein balance']).toBe('ok');
+  });
+
+  it('should fall back to the submitted feeds without a feed breakdown', () => {
+    const { feed_breakdown, ...withoutBreakdown } = evaluation;
+    const report = buildEvaluationReport(withoutBreakdown, { cattle }, [
+      { feed_id: 'f1', quantity_as_fed: 4, price_per_kg: 2.5 }
+    ]);
+
+    expect(report.feeds).toEqual([{ feed: 'f1', as_fed_kg: 4, price_per_kg: 2.5, cost: 10 }]);
+    expect(report.totals.dm_kg).toBeUndefined();
+  });
+
+  it('should leave out the sections the backend did not report', () => {
+    const report = buildEvaluationReport({ simulation_id: 'eval-2' }, { cattle }, [
+      { feed_id: 'f1', quantity_as_fed: 4, price_per_kg: 2.5 }
+    ]);
+
+    expect(report.totals.cost).toBe(10);
+    expect(report.nutrients).toEqual([]);
+    expect(report.methane).toBeUndefined();
+    expect(renderMarkdown(report)).toContain('f1');
+  });
+
+  it('should localize labels and feed names', () => {
+    const report = buildEvaluationReport(evaluation, { cattle, language: 'sw', feedNames: new FeedNameCatalogue() });
+    const withNames = buildEvaluationReport({
+      ...evaluation,
+      feed_breakdown: [{ feed_id: 'f3', feed_name: 'Wheat bran', quantity_as_fed_kg_day: 2, price_per_kg: 10, total_cost: 20 }]
+    }, { cattle, language: 'sw', feedNames: new FeedNameCatalogue() });
+
+    expect(report.language).toBe('sw');
+    expect(report.title).toBe('Tathmini ya Lishe');
+    expect(report.nutrients.map(n => n.nutrient)).toContain('Salio la nishati');
+    expect(report.feeds[0].feed).toBe('Teff straw');
+    expect(withNames.feeds[0].feed).toBe('Pumba za ngano');
+  });
+
+  it('should note the cost in the reference currency', () => {
+    const rates = new ExchangeRates();
+    rates.setTable({ base: 'USD', as_of: '2026-10-01', rates: { ETB: 125 } });
+    const report = buildEvaluationReport(evaluation, { cattle, costs: rates.convertCosts({ total_diet_cost: 80 }, 'ETB') });
+
+    expect(report.notes).toContain('Cost per day: 0.64 USD (1 ETB = 0.008 USD, rate of 2026-10-01)');
+  });
+
+  it('should note the prices taken from the price book', () => {
+    const report = buildEvaluationReport(evaluation, {
+      cattle,
+      defaultedPrices: [{ feed_id: 'f1', price_per_kg: 4.5, region: 'Adama', date: '2026-10-12' }]
+    });
+
+    expect(report.notes).toContain('Prices per kg from the price book: Teff straw 4.5 (2026-10-12)');
+  });
+});
+
+describe('buildRecommendationReport', () => {
+  it('should report local solver constraint checks', () => {
+    const report = buildRecommendationReport({
+      solver: 'local',
+      fallback_reason: 'Backend down',
+      local_solution: {
+        status: 'optimal',
+        feeds: [{ feed_id: 'f1', feed_name: 'Hay', feed_type: 'Forage', quantity_as_fed_kg: 11, quantity_dm_kg: 10, price_per_kg: 3, cost: 33 }],
+        total_cost: 33,
+        total_as_fed_kg: 11,
+        total_dm_kg: 10,
+        supply: { nel_mcal: 14, nutrients_pct_dm: { cp: 9, ndf: 60, adf: 35, ee: 2, st: 3, ca: 0.5, p: 0.3 }, forage_pct_dm: 100 },
+        constraints: [
+          { constraint: 'nel_mcal', value: 14, min: 14, binding: true },
+          { constraint: 'ndf_pct_dm', value: 60, min: 28, max: 55, binding: false }
+        ]
+      }
+    }, { cattle, group: { name: 'Early lactation', head_count: 5 } });
+
+    expect(report.subtitle).toContain('Early lactation (5 head)');
+    expect(report.nutrients.map(n => n.status)).toEqual(['ok', 'over']);
+    expect(report.notes[0]).toContain('Backend down');
+  });
+
+  it('should report a remote recommendation', () => {
+    const report = buildRecommendationReport({
+      solver: 'remote',
+      recommendation: {
+        simulation_id: 'rec-1',
+        least_cost_diet: [{ feed_id: 'f1', feed_name: 'Hay', quantity_kg_per_day: 10, price_per_kg: 3, daily_cost: 30 }],
+        total_diet_cost: 30,
+        methane_analysis: { methane_production_g_per_day: 300 }
+      }
+    }, { cattle, currency: 'KES' });
+
+    expect(report.totals).toEqual({ as_fed_kg: 10, dm_kg: undefined, cost: 30 });
+    expect(report.methane?.g_per_day).toBe(300);
+    expect(report.currency).toBe('KES');
+  });
+
+  it('should tabulate price sensitivity with the break-even price', () => {
+    const report = buildRecommendationReport({
+      solver: 'remote',
+      recommendation: {
+        simulation_id: 'rec-1',
+        least_cost_diet: [{ feed_id: 'f1', feed_name: 'Hay', quantity_kg_per_day: 10, price_per_kg: 3, daily_cost: 30 }],
+        total_diet_cost: 30
+      },
+      sensitivity: {
+        solver: 'local',
+        feeds: [{
+          feed_id: 'f2',
+          feed_name: 'Noug seed cake',
+          current_price: 25,
+          in_diet: 'below_break_even',
+          break_even_price: 26.224,
+          points: [
+            { price_per_kg: 20, quantity_as_fed_kg: 1.78, total_cost: 75.6, cost_per_litre: 7.56 },
+            { price_per_kg: 30, quantity_as_fed_kg: 0, total_cost: 84.4, cost_per_litre: 8.44 }
+          ]
+        }]
+      }
+    }, { cattle, currency: 'ETB' });
+    const markdown = renderMarkdown(report);
+
+    expect(markdown).toContain('**Noug seed cake leaves the least-cost diet above 26.224 per kg**');
+    expect(markdown).toContain('| Price/kg | In diet (kg/day) | Cost (ETB) | Cost/litre |');
+    expect(markdown).toContain('| 30 | 0 | 84.4 | 8.44 |');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('should render the ration table and highlight shortfalls', () => {
+    const markdown = renderMarkdown(buildEvaluationReport(evaluation, { cattle }));
+
+    expect(markdown).toContain('| Feed | As-fed (kg/day) | DM (kg/day) | Price/kg | Cost (ETB) |');
+    expect(markdown).toContain('| Teff straw | 8 | 7.2 | 5 | 40 |');
+    expect(markdown).toContain('| Milk supported (kg/day) | 10.5 | ≥ 12 | -1.5 | ⚠️ **SHORT** |');
+    expect(markdown).toContain('- Production: 250 g/day');
+    expect(markdown).toContain('- Energy below requirement');
+  });
+});
+
+describe('renderHtml', () => {
+  it('should mark shortfall rows and escape feed names', () => {
+    const report = buildEvaluationReport(evaluation, { cattle });
+    report.feeds[0].feed = 'Hay <baled> & "dry"';
+    const html = renderHtml(report);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('Hay &lt;baled&gt; &amp; &quot;dry&quot;');
+    expect(html).toContain('<tr class="short"><td>Milk supported (kg/day)</td>');
+  });
+});
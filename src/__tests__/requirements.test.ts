@@ -0,0 +1,90 @@
+/**
+ * Unit Tests for the Nutrient Requirement Calculator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateRequirements, estimateDmIntakeKg } from '../requirements.js';
+import { CattleInfo } from '../feed-client.js';
+
+const cow: CattleInfo = {
+  body_weight: 600,
+  breed: 'Holstein',
+  lactating: true,
+  milk_production: 30,
+  days_in_milk: 100,
+  parity: 2,
+  days_of_pregnancy: 0,
+  tp_milk: 3.1,
+  fat_milk: 3.7,
+  temperature: 20,
+  topography: 'Flat',
+  distance: 0,
+  calving_interval: 400,
+};
+
+describe('estimateDmIntakeKg', () => {
+  it('should follow the NRC lactating cow equation', () => {
+    expect(estimateDmIntakeKg(cow)).toBeCloseTo(21.7, 1);
+  });
+
+  it('should use 2% of body weight for dry cows', () => {
+    expect(estimateDmIntakeKg({ ...cow, lactating: false, milk_production: 0 })).toBeCloseTo(12);
+  });
+});
+
+describe('calculateRequirements', () => {
+  it('should compute maintenance and lactation energy', () => {
+    const result = calculateRequirements(cow);
+
+    expect(result.nel_mcal.maintenance).toBeCloseTo(9.7, 1);
+    // 30 kg milk at 3.7% fat, 3.1% true protein: ~0.72 Mcal/kg
+    expect(result.nel_mcal.lactation).toBeCloseTo(21.5, 0);
+    expect(result.nel_mcal.pregnancy).toBe(0);
+    expect(result.nel_mcal.activity).toBe(0);
+    expect(result.nel_mcal.total).toBeCloseTo(result.nel_mcal.maintenance + result.nel_mcal.lactation, 1);
+  });
+
+  it('should add walking and hilly terrain to activity', () => {
+    const flat = calculateRequirements({ ...cow, distance: 2 });
+    const hilly = calculateRequirements({ ...cow, distance: 2, topography: 'Hilly' });
+
+    expect(flat.nel_mcal.activity).toBeCloseTo(0.54, 2);
+    expect(hilly.nel_mcal.activity).toBeCloseTo(1.26, 2);
+  });
+
+  it('should only add pregnancy requirements from day 190', () => {
+    expect(calculateRequirements({ ...cow, days_of_pregnancy: 150 }).mp_g.pregnancy).toBe(0);
+
+    const late = calculateRequirements({ ...cow, days_of_pregnancy: 250 });
+    expect(late.nel_mcal.pregnancy).toBeGreaterThan(2);
+    expect(late.mp_g.pregnancy).toBeGreaterThan(200);
+    expect(late.ca_g.pregnancy).toBeGreaterThan(0);
+  });
+
+  it('should credit energy from body weight loss and charge for gain', () => {
+    expect(calculateRequirements({ ...cow, bw_gain: 0.5 }).nel_mcal.growth).toBeCloseTo(2.56, 2);
+    expect(calculateRequirements({ ...cow, bw_gain: -0.5 }).nel_mcal.growth).toBeCloseTo(-2.46, 2);
+  });
+
+  it('should charge calcium and phosphorus for body weight gain', () => {
+    const result = calculateRequirements({ ...cow, bw_gain: 0.5 });
+    // NRC: Ca 9.83 g and P 1.2 + 4.635 g absorbed per kg gained
+    expect(result.ca_g.growth).toBeCloseTo(12.9, 1);
+    expect(result.p_g.growth).toBeCloseTo(4.6, 1);
+    expect(calculateRequirements(cow).p_g.growth).toBe(0);
+  });
+
+  it('should have no lactation requirements for dry cows', () => {
+    const dry = calculateRequirements({ ...cow, lactating: false });
+    expect(dry.nel_mcal.lactation).toBe(0);
+    expect(dry.mp_g.lactation).toBe(0);
+    expect(dry.ca_g.lactation).toBe(0);
+  });
+
+  it('should express requirements as diet concentrations', () => {
+    const result = calculateRequirements(cow);
+    expect(result.diet_density.nel_mcal_per_kg_dm).toBeCloseTo(result.nel_mcal.total / result.dm_intake_kg, 1);
+    expect(result.diet_density.ca_pct_dm).toBeGreaterThan(0.5);
+    expect(result.diet_density.ca_pct_dm).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit Tests for SessionStore
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SessionStore, McpSession, fingerprintCredential } from '../session-store.js';
+import { createFarmContext } from '../farm-context.js';
+
+function createSession(id: string, lastSeenAt: number): McpSession {
+  return {
+    id,
+    transport: {} as any,
+    server: { close: vi.fn().mockResolvedValue(undefined) } as any,
+    context: createFarmContext(),
+    credentialFingerprint: null,
+    createdAt: lastSeenAt,
+    lastSeenAt,
+  };
+}
+
+describe('SessionStore', () => {
+  let store: SessionStore;
+
+  beforeEach(() => {
+    store = new SessionStore(1000);
+  });
+
+  it('should refresh last seen time on get', () => {
+    const session = createSession('s-1', 0);
+    store.add(session);
+
+    store.get('s-1');
+    expect(session.lastSeenAt).toBeGreaterThan(0);
+  });
+
+  it('should close and remove idle sessions on sweep', async () => {
+    const idle = createSession('idle', 0);
+    const active = createSession('active', 5000);
+    store.add(idle);
+    store.add(active);
+
+    const expired = await store.sweep(5500);
+
+    expect(expired).toEqual(['idle']);
+    expect(idle.server.close).toHaveBeenCalled();
+    expect(active.server.close).not.toHaveBeenCalled();
+    expect(store.has('idle')).toBe(false);
+    expect(store.has('active')).toBe(true);
+  });
+
+  it('should close every session on closeAll', async () => {
+    const session = createSession('s-1', 0);
+    store.add(session);
+
+    await store.closeAll();
+
+    expect(session.server.close).toHaveBeenCalled();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe('fingerprintCredential', () => {
+  it('should hash credentials and pass through null', () => {
+    expect(fingerprintCredential(null)).toBeNull();
+    expect(fingerprintCredential('key')).toBe(fingerprintCredential('key'));
+    expect(fingerprintCredential('key')).not.toBe('key');
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Unit Tests for Usage Metering and the Organization Directory
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import {
+  UsageEvent,
+  MemoryUsageStore,
+  JsonlUsageStore,
+  ToolCall,
+  createToolMeter,
+  summarizeUsage,
+  usageToCsv,
+} from '../usage.js';
+import { OrganizationDirectory, DEFAULT_ORGANIZATION } from '../organizations.js';
+import { fingerprintCredential } from '../session-store.js';
+
+function event(overrides: Partial<UsageEvent> = {}): UsageEvent {
+  return {
+    timestamp: '2026-03-01T10:00:00.000Z',
+    organization_id: 'dg',
+    organization_name: 'Digital Green',
+    tool: 'evaluate_diet',
+    latency_ms: 200,
+    success: true,
+    country_id: 'et',
+    feed_count: 3,
+    animals: 1,
+    ...overrides,
+  };
+}
+
+/**
+ * Invoke a registered tool's handler directly
+ */
+function callTool(server: McpServer, name: string, ...args: unknown[]) {
+  return (server as any)._registeredTools[name].callback(...args);
+}
+
+describe('Usage stores', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('should filter events by organization, tool and time range', async () => {
+    const store = new MemoryUsageStore();
+    await store.record(event());
+    await store.record(event({ organization_id: 'ilri', timestamp: '2026-03-02T08:00:00.000Z' }));
+    await store.record(event({ tool: 'search_feeds', timestamp: '2026-03-03T08:00:00.000Z' }));
+
+    expect(await store.query({ organization_id: 'dg' })).toHaveLength(2);
+    expect(await store.query({ tool: 'search_feeds' })).toHaveLength(1);
+    expect(await store.query({ from: '2026-03-02', to: '2026-03-03' })).toEqual([
+      expect.objectContaining({ organization_id: 'ilri' }),
+    ]);
+  });
+
+  it('should drop the oldest events beyond its capacity', async () => {
+    const store = new MemoryUsageStore(2);
+    for (const tool of ['a', 'b', 'c']) await store.record(event({ tool }));
+
+    expect((await store.query()).map(e => e.tool)).toEqual(['b', 'c']);
+  });
+
+  it('should append events to a JSON Lines file and read them back', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'usage-'));
+    const filePath = join(dir, 'usage', 'events.jsonl');
+    const store = new JsonlUsageStore(filePath);
+
+    expect(await store.query()).toEqual([]);
+    store.record(event({ tool: 'a' }));
+    store.record(event({ tool: 'b' }));
+
+    // Queries wait for pending writes
+    expect(await store.query({ tool: 'b' })).toHaveLength(1);
+    expect((await new JsonlUsageStore(filePath).query()).map(e => e.tool)).toEqual(['a', 'b']);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('should total calls, failures and animals per organization, tool and country', () => {
+    const summary = summarizeUsage([
+      event({ latency_ms: 100, animals: 12 }),
+      event({ success: false, latency_ms: 300, animals: 1 }),
+      event({ organization_id: 'ilri', organization_name: 'ILRI', tool: 'search_feeds', country_id: undefined, animals: undefined }),
+    ]);
+
+    expect(summary).toMatchObject({ calls: 3, failed: 1, animals: 13, avg_latency_ms: 200 });
+    expect(summary.by_organization.dg).toEqual({ name: 'Digital Green', calls: 2, failed: 1, animals: 13, avg_latency_ms: 200 });
+    expect(summary.by_tool.search_feeds.calls).toBe(1);
+    expect(summary.by_country).toMatchObject({ et: { calls: 2 }, unknown: { calls: 1 } });
+  });
+});
+
+describe('usageToCsv', () => {
+  it('should write a header row and quote fields that need it', () => {
+    const csv = usageToCsv([event({ success: false, error: 'Backend said "no", twice', feed_count: undefined })]);
+    const [header, row] = csv.split('\r\n');
+
+    expect(header).toBe('timestamp,organization_id,organization_name,tool,latency_ms,success,error,country_id,feed_count,animals');
+    expect(row).toBe('2026-03-01T10:00:00.000Z,dg,Digital Green,evaluate_diet,200,false,"Backend said ""no"", twice",et,,1');
+  });
+});
+
+describe('createToolMeter', () => {
+  it('should report calls of tools registered either way', async () => {
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    const calls: ToolCall[] = [];
+    const metered = createToolMeter(call => calls.push(call));
+
+    server.tool('echo', 'Echo', { text: z.string() }, metered('echo', async ({ text }) => ({ content: [{ type: 'text', text }] })));
+    server.registerTool('fail', { description: 'Fail' }, metered('fail', async () => ({
+      content: [{ type: 'text', text: JSON.stringify({ error: 'Failed', message: 'Feed not found' }) }],
+      isError: true,
+    })));
+
+    const result = await callTool(server, 'echo', { text: 'hi' }, {});
+    await callTool(server, 'fail', {});
+
+    expect(result.content[0].text).toBe('hi');
+    expect(calls).toEqual([
+      expect.objectContaining({ tool: 'echo', args: { text: 'hi' }, success: true, error: undefined }),
+      expect.objectContaining({ tool: 'fail', args: {}, success: false, error: 'Feed not found' }),
+    ]);
+  });
+
+  it('should report and rethrow errors thrown by a handler', async () => {
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    const observe = vi.fn();
+    const metered = createToolMeter(observe);
+    server.tool('boom', metered('boom', async () => {
+      throw new Error('Boom');
+    }));
+
+    await expect(callTool(server, 'boom', {})).rejects.toThrow('Boom');
+    expect(observe).toHaveBeenCalledWith(expect.objectContaining({ tool: 'boom', success: false, error: 'Boom' }));
+  });
+});
+
+describe('OrganizationDirectory', () => {
+  it('should resolve listed keys by fingerprint and name unknown keys after theirs', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'orgs-'));
+    const filePath = join(dir, 'organizations.json');
+    const fingerprint = fingerprintCredential('ff_live_dg')!;
+    await writeFile(filePath, JSON.stringify({
+      organizations: [{ id: 'dg', name: 'Digital Green', api_keys: [fingerprint.toUpperCase()] }],
+    }));
+
+    const directory = new OrganizationDirectory(filePath);
+    await directory.load();
+    await rm(dir, { recursive: true, force: true });
+
+    expect(directory.resolve(fingerprint)).toEqual({ id: 'dg', name: 'Digital Green' });
+    const other = fingerprintCredential('ff_live_other')!;
+    expect(directory.resolve(other).id).toBe(`key-${other.slice(0, 12)}`);
+    expect(directory.resolve(null)).toBe(DEFAULT_ORGANIZATION);
+  });
+
+  it('should give the service account of a listed key', () => {
+    const fingerprint = fingerprintCredential('ff_live_coop')!;
+    const directory = new OrganizationDirectory();
+    directory.setOrganizations([
+      { id: 'coop', name: 'Dairy Coop', api_keys: [fingerprint], service_user_id: 'user-coop', country_id: 'ke', currency: 'KES' },
+    ]);
+
+    expect(directory.resolve(fingerprint)).toEqual({ id: 'coop', name: 'Dairy Coop' });
+    expect(directory.serviceAccount(fingerprint)).toEqual({ user_id: 'user-coop', country_id: 'ke', currency: 'KES' });
+    expect(directory.serviceAccount(fingerprintCredential('ff_live_other'))).toBeUndefined();
+  });
+
+  it('should name unlisted keys after the organization the backend reports', () => {
+    const listed = fingerprintCredential('ff_live_coop')!;
+    const other = fingerprintCredential('ff_live_other')!;
+    const directory = new OrganizationDirectory();
+    directory.setOrganizations([{ id: 'coop', name: 'Dairy Coop', api_keys: [listed] }]);
+
+    expect(directory.has(listed)).toBe(true);
+    expect(directory.has(other)).toBe(false);
+    expect(directory.resolve(other, 'org-42')).toEqual({ id: 'org-42', name: 'org-42' });
+    expect(directory.resolve(listed, 'org-42')).toEqual({ id: 'coop', name: 'Dairy Coop' });
+  });
+});
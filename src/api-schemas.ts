@@ -0,0 +1,125 @@
+/**
+ * Ration Smart API Response Schemas
+ *
+ * Zod schemas for the diet evaluation and diet recommendation responses.
+ * There is no published backend contract, so only `simulation_id` is
+ * required; every other field is optional and checked for type when
+ * present, and the tools handle its absence. Unknown extra fields are kept
+ * (passthrough) so additions on the backend are not lost.
+ */
+
+import { z } from 'zod';
+
+const feedBreakdownItemSchema = z.object({
+  feed_id: z.string().optional(),
+  feed_name: z.string().optional(),
+  quantity_as_fed_kg_day: z.number().optional(),
+  quantity_dm_kg_day: z.number().optional(),
+  price_per_kg: z.number().optional(),
+  total_cost: z.number().optional(),
+  contribution_percent: z.number().optional()
+}).passthrough();
+
+export const dietEvaluationResponseSchema = z.object({
+  simulation_id: z.string(),
+  report_id: z.string().optional(),
+  currency: z.string().optional(),
+  country: z.string().optional(),
+  milk_production_analysis: z.object({
+    target_production_kg_day: z.number().optional(),
+    actual_milk_supported_kg_day: z.number().optional(),
+    milk_supported_by_energy_kg_day: z.number().optional(),
+    milk_supported_by_protein_kg_day: z.number().optional(),
+    limiting_nutrient: z.string().optional()
+  }).passthrough().optional(),
+  intake_evaluation: z.object({
+    actual_intake_kg_day: z.number().optional(),
+    target_intake_kg_day: z.number().optional(),
+    intake_difference_kg_day: z.number().optional(),
+    intake_status: z.string().optional()
+  }).passthrough().optional(),
+  cost_analysis: z.object({
+    total_diet_cost_as_fed: z.number().optional(),
+    feed_cost_per_kg_milk: z.number().optional(),
+    currency: z.string().optional()
+  }).passthrough().optional(),
+  methane_analysis: z.object({
+    methane_production_g_per_day: z.number().optional(),
+    methane_emission_mj_per_day: z.number().optional(),
+    methane_yield_g_per_kg_dmi: z.number().optional(),
+    methane_intensity_g_per_kg_ecm: z.number().optional()
+  }).passthrough().optional(),
+  nutrient_balance: z.object({
+    energy_balance_mcal: z.number().optional(),
+    protein_balance_kg: z.number().optional(),
+    calcium_balance_kg: z.number().optional(),
+    phosphorus_balance_kg: z.number().optional()
+  }).passthrough().optional(),
+  feed_breakdown: z.array(feedBreakdownItemSchema).optional(),
+  warnings: z.array(z.string()).optional(),
+  recommendations: z.array(z.string()).optional()
+}).passthrough();
+
+export const dietRecommendationResponseSchema = z.object({
+  simulation_id: z.string(),
+  report_id: z.string().optional(),
+  currency: z.string().optional(),
+  solution_status: z.string().optional(),
+  least_cost_diet: z.array(z.object({
+    feed_id: z.string().optional(),
+    feed_name: z.string().optional(),
+    quantity_kg_per_day: z.number().optional(),
+    dm_kg_per_day: z.number().optional(),
+    price_per_kg: z.number().optional(),
+    daily_cost: z.number().optional()
+  }).passthrough()).optional(),
+  total_diet_cost: z.number().optional(),
+  dry_matter_intake_kg: z.number().optional(),
+  milk_production_kg_day: z.number().optional(),
+  methane_analysis: z.object({
+    methane_production_g_per_day: z.number().optional(),
+    methane_intensity_g_per_kg_ecm: z.number().optional()
+  }).passthrough().optional(),
+  nutrient_balance: z.object({
+    energy_balance_mcal: z.number().optional(),
+    protein_balance_kg: z.number().optional(),
+    calcium_balance_kg: z.number().optional(),
+    phosphorus_balance_kg: z.number().optional()
+  }).passthrough().optional(),
+  warnings: z.array(z.string()).optional()
+}).passthrough();
+
+const keyIdentityUserSchema = z.object({
+  id: z.string(),
+  country_id: z.string().nullish(),
+  organization_id: z.string().nullish(),
+  country: z.object({ currency: z.string().nullish() }).passthrough().nullish()
+}).passthrough();
+
+/** The user behind an API key, either bare or wrapped as `{ user }` */
+export const keyIdentityResponseSchema = z.preprocess(
+  data => (data && typeof data === 'object' && 'user' in data ? data.user : data),
+  keyIdentityUserSchema
+);
+
+export type DietEvaluationResponse = z.infer<typeof dietEvaluationResponseSchema>;
+export type DietRecommendationResponse = z.infer<typeof dietRecommendationResponseSchema>;
+
+/**
+ * Validate a backend response, throwing an error that names every field
+ * that is missing or has the wrong type
+ *
+ * @param schema - Expected response schema
+ * @param data - Parsed JSON body
+ * @param label - Human-readable response name used in the error message
+ */
+export function parseBackendResponse<T extends z.ZodTypeAny>(schema: T, data: unknown, label: string): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Unexpected ${label} response from backend - the API shape may have changed. ${issues}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,147 @@
+/**
+ * Batch Diet Evaluation
+ *
+ * Runs many diet evaluations with bounded concurrency and rolls the
+ * per-animal results up into a herd summary.
+ */
+
+import { DietEvaluationResponse } from './api-schemas.js';
+import { ConvertedCosts } from './currency.js';
+import { round } from './utils.js';
+
+/**
+ * Map over items running at most `limit` calls at a time.
+ * Results keep the input order; failures are captured rather than thrown.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+export interface EvaluationMetrics {
+  cost_per_day: number;
+  /** Null when the backend did not report the figure */
+  milk_kg_per_day: number | null;
+  methane_g_per_day: number | null;
+  /** Currency of cost_per_day */
+  currency?: string;
+  reference_currency?: string;
+  /** Cost in the reference currency, or null without an exchange rate */
+  cost_per_day_reference?: number | null;
+}
+
+/**
+ * Pull the per-animal cost, milk and methane figures out of a diet evaluation
+ * response, with the cost in the reference currency when costs are given.
+ * The cost comes from the converted costs when given, which are filled from
+ * the feed prices if the backend leaves the cost out.
+ */
+export function extractEvaluationMetrics(result: DietEvaluationResponse, costs?: ConvertedCosts): EvaluationMetrics {
+  const metrics: EvaluationMetrics = {
+    cost_per_day: costs?.local.total_diet_cost ?? result.cost_analysis?.total_diet_cost_as_fed ?? 0,
+    milk_kg_per_day: result.milk_production_analysis?.actual_milk_supported_kg_day ?? null,
+    methane_g_per_day: result.methane_analysis?.methane_production_g_per_day ?? null
+  };
+  if (costs) {
+    metrics.currency = costs.currency;
+    metrics.reference_currency = costs.reference_currency;
+    metrics.cost_per_day_reference = costs.reference?.total_diet_cost ?? null;
+  }
+  return metrics;
+}
+
+export interface HerdSummary {
+  items: number;
+  succeeded: number;
+  failed: number;
+  animals: number;
+  /**
+   * Null when items were costed in different currencies or some in an
+   * unknown one; total_cost_per_day_reference then gives the total
+   */
+  total_cost_per_day: number | null;
+  /** Null when an item has no milk or methane figure */
+  total_milk_kg_per_day: number | null;
+  total_methane_g_per_day: number | null;
+  /** Currency of total_cost_per_day; null when items were costed in different or unknown currencies */
+  currency?: string | null;
+  reference_currency?: string;
+  /** Total cost in the reference currency; null when an item has no currency or exchange rate */
+  total_cost_per_day_reference?: number | null;
+}
+
+/** Add a per-animal figure times the head count; a missing figure makes the total unknown */
+function addWeighted(total: number | null, value: number | null, headCount: number): number | null {
+  return total === null || value === null ? null : total + value * headCount;
+}
+
+/**
+ * Sum per-animal metrics across successful items, weighted by head count.
+ * Costs in different currencies only add up in the reference currency, and
+ * costs in an unknown currency add up with no other.
+ */
+export function summarizeHerd(
+  items: Array<{ head_count: number; metrics: EvaluationMetrics | null }>
+): HerdSummary {
+  const summary: HerdSummary = {
+    items: items.length,
+    succeeded: 0,
+    failed: 0,
+    animals: 0,
+    total_cost_per_day: 0,
+    total_milk_kg_per_day: 0,
+    total_methane_g_per_day: 0
+  };
+
+  const currencies = new Set<string>();
+  let uncosted = 0;
+  let localTotal = 0;
+  let referenceTotal: number | null = 0;
+  for (const { head_count, metrics } of items) {
+    if (!metrics) {
+      summary.failed++;
+      continue;
+    }
+    summary.succeeded++;
+    summary.animals += head_count;
+    localTotal += metrics.cost_per_day * head_count;
+    summary.total_milk_kg_per_day = addWeighted(summary.total_milk_kg_per_day, metrics.milk_kg_per_day, head_count);
+    summary.total_methane_g_per_day = addWeighted(summary.total_methane_g_per_day, metrics.methane_g_per_day, head_count);
+    if (metrics.currency) currencies.add(metrics.currency);
+    else uncosted++;
+    if (metrics.reference_currency) summary.reference_currency = metrics.reference_currency;
+    referenceTotal = referenceTotal === null || metrics.cost_per_day_reference == null
+      ? null
+      : referenceTotal + metrics.cost_per_day_reference * head_count;
+  }
+
+  // Items evaluated without costs carry no currencies at all; their costs are totalled as given
+  const mixed = currencies.size > 1 || (currencies.size > 0 && uncosted > 0);
+  if (summary.reference_currency) {
+    summary.currency = currencies.size === 1 && !mixed ? [...currencies][0] : null;
+    summary.total_cost_per_day_reference = referenceTotal === null ? null : round(referenceTotal, 4);
+  }
+  summary.total_cost_per_day = mixed ? null : round(localTotal);
+  summary.total_milk_kg_per_day = summary.total_milk_kg_per_day === null ? null : round(summary.total_milk_kg_per_day);
+  summary.total_methane_g_per_day = summary.total_methane_g_per_day === null ? null : round(summary.total_methane_g_per_day);
+  return summary;
+}
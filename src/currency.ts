@@ -0,0 +1,128 @@
+/**
+ * Currency Conversion
+ *
+ * Feed prices and diet costs are in the currency of the feeds' country.
+ * To compare costs across countries, results also report them in a
+ * reference currency using a locally configured table of exchange rates.
+ * No rates are built in: conversions are only made for currencies the
+ * table lists, and the table's date is reported with every conversion.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { round } from './utils.js';
+
+export interface ExchangeRateTable {
+  /** Currency the rates are quoted against */
+  base: string;
+  /** Date the rates were taken, reported with conversions */
+  as_of?: string;
+  /** Units of each currency per one unit of the base currency */
+  rates: Record<string, number>;
+}
+
+export interface ConvertedCosts {
+  /** Currency the backend costed the diet in; undefined when it could not be determined */
+  currency?: string;
+  reference_currency: string;
+  /** Reference currency units per unit of the local currency, or null if unknown */
+  exchange_rate: number | null;
+  rates_as_of?: string;
+  /** Costs in the local currency */
+  local: Record<string, number>;
+  /** The same costs in the reference currency, or null if there is no rate */
+  reference: Record<string, number> | null;
+  /** Why the costs could not be labelled with a currency */
+  warning?: string;
+}
+
+/** Warning for costs whose currency could not be determined */
+export const UNKNOWN_CURRENCY_WARNING =
+  'The currency of the prices could not be determined from the feeds\' country; pass currency to label and convert the costs';
+
+function normalize(currency: string): string {
+  return currency.trim().toUpperCase();
+}
+
+export class ExchangeRates {
+  private table: ExchangeRateTable = { base: 'USD', rates: {} };
+  readonly referenceCurrency: string;
+
+  /**
+   * @param filePath - Optional JSON file with an ExchangeRateTable
+   * @param referenceCurrency - Currency costs are converted to (default USD)
+   */
+  constructor(private filePath?: string, referenceCurrency: string = 'USD') {
+    this.referenceCurrency = normalize(referenceCurrency);
+  }
+
+  /**
+   * Load the rate table, if a file is configured and exists
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    this.setTable(JSON.parse(raw) as ExchangeRateTable);
+  }
+
+  setTable(table: ExchangeRateTable): void {
+    const base = normalize(table.base);
+    const rates: Record<string, number> = { [base]: 1 };
+    for (const [currency, rate] of Object.entries(table.rates)) {
+      if (!(rate > 0)) throw new Error(`Exchange rate for ${currency} must be a positive number`);
+      rates[normalize(currency)] = rate;
+    }
+    this.table = { base, as_of: table.as_of, rates };
+  }
+
+  get asOf(): string | undefined {
+    return this.table.as_of;
+  }
+
+  /**
+   * Units of `to` per unit of `from`, or null if either currency is not in the table
+   */
+  rate(from: string, to: string): number | null {
+    const source = normalize(from);
+    const target = normalize(to);
+    if (source === target) return 1;
+    const fromRate = this.table.rates[source];
+    const toRate = this.table.rates[target];
+    if (fromRate === undefined || toRate === undefined) return null;
+    return toRate / fromRate;
+  }
+
+  convert(amount: number, from: string, to: string): number | null {
+    const rate = this.rate(from, to);
+    return rate === null ? null : amount * rate;
+  }
+
+  /**
+   * Report costs in their currency and in the reference currency. Without a
+   * currency the costs are reported unconverted, with a warning.
+   */
+  convertCosts(costs: Record<string, number | undefined>, currency: string | undefined): ConvertedCosts {
+    const local = Object.fromEntries(
+      Object.entries(costs).filter((entry): entry is [string, number] => entry[1] !== undefined)
+    );
+    if (!currency) {
+      return { reference_currency: this.referenceCurrency, exchange_rate: null, local, reference: null, warning: UNKNOWN_CURRENCY_WARNING };
+    }
+    const rate = this.rate(currency, this.referenceCurrency);
+    return {
+      currency: normalize(currency),
+      reference_currency: this.referenceCurrency,
+      exchange_rate: rate === null ? null : round(rate, 6),
+      rates_as_of: rate === null || rate === 1 ? undefined : this.table.as_of,
+      local,
+      reference: rate === null
+        ? null
+        : Object.fromEntries(Object.entries(local).map(([name, amount]) => [name, round(amount * rate, 4)]))
+    };
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Diet Scenario Comparison
+ *
+ * What-if analysis for one animal: variants of a baseline ration (feed
+ * swaps, quantity and price changes, a different milk yield) are derived
+ * from the baseline feeds, evaluated like any other diet, and compared side
+ * by side with their differences from the baseline.
+ */
+
+import { DietEvaluationResponse } from './api-schemas.js';
+import { CattleInfo } from './feed-client.js';
+import { EvaluationFeed } from './farm-context.js';
+import { MILK_DENSITY } from './ration-card.js';
+import { round } from './utils.js';
+
+/** Move some or all of a feed's amount to another feed */
+export interface FeedSwap {
+  feed_id: string;
+  replace_with: string;
+  /** Fraction of the feed's amount replaced, 0-1 (default 1) */
+  share?: number;
+  /** As-fed kg/day of the replacement (default: the amount taken out) */
+  quantity_as_fed?: number;
+  /** Price of the replacement (default: the price book) */
+  price_per_kg?: number;
+}
+
+export interface DietVariant {
+  name: string;
+  swaps?: FeedSwap[];
+  /** New as-fed amounts; 0 removes a feed, a feed not in the ration is added */
+  quantities?: Array<{ feed_id: string; quantity_as_fed: number; price_per_kg?: number }>;
+  prices?: Array<{ feed_id: string; price_per_kg: number }>;
+  /** Animal profile changes, e.g. a higher milk_production */
+  cattle_info?: Partial<CattleInfo>;
+}
+
+export interface ScenarioMetrics {
+  cost_per_day: number;
+  /** Feed cost per litre of predicted milk; null when no milk is predicted */
+  cost_per_litre: number | null;
+  /** Figures the backend left out are undefined */
+  milk_kg_per_day?: number;
+  dm_intake_kg_per_day?: number;
+  methane_g_per_day?: number;
+  energy_balance_mcal?: number;
+  protein_balance_kg?: number;
+  calcium_balance_kg?: number;
+  phosphorus_balance_kg?: number;
+}
+
+export type MetricName = keyof ScenarioMetrics;
+
+/** Variant minus baseline, per metric; null when either side has no value */
+export type MetricDeltas = Record<MetricName, number | null>;
+
+export interface ComparisonRow {
+  metric: MetricName;
+  /** Value per scenario name, baseline first */
+  values: Record<string, number | null>;
+  /** Difference from the baseline per variant name */
+  deltas: Record<string, number | null>;
+}
+
+const METRICS: MetricName[] = [
+  'cost_per_day',
+  'cost_per_litre',
+  'milk_kg_per_day',
+  'dm_intake_kg_per_day',
+  'methane_g_per_day',
+  'energy_balance_mcal',
+  'protein_balance_kg',
+  'calcium_balance_kg',
+  'phosphorus_balance_kg'
+];
+
+/**
+ * Build a variant's ration from the baseline: swaps first, then quantity
+ * changes, then price changes
+ */
+export function applyVariant(baseline: EvaluationFeed[], variant: DietVariant): EvaluationFeed[] {
+  const fail = (message: string): never => {
+    throw new Error(`Variant "${variant.name}": ${message}`);
+  };
+  let feeds = baseline.map(feed => ({ ...feed }));
+  const find = (feedId: string) => feeds.find(feed => feed.feed_id === feedId);
+
+  for (const swap of variant.swaps ?? []) {
+    const feed = find(swap.feed_id) ?? fail(`cannot swap ${swap.feed_id}, it is not in the ration`);
+    const share = swap.share ?? 1;
+    if (!(share > 0 && share <= 1)) fail(`swap share must be above 0 and at most 1, got ${share}`);
+    const moved = feed.quantity_as_fed * share;
+    feed.quantity_as_fed -= moved;
+
+    const added = swap.quantity_as_fed ?? moved;
+    const replacement = find(swap.replace_with);
+    if (replacement) {
+      replacement.quantity_as_fed += added;
+      if (swap.price_per_kg !== undefined) replacement.price_per_kg = swap.price_per_kg;
+    } else {
+      feeds.push({ feed_id: swap.replace_with, quantity_as_fed: added, price_per_kg: swap.price_per_kg });
+    }
+  }
+
+  for (const change of variant.quantities ?? []) {
+    const feed = find(change.feed_id);
+    if (feed) {
+      feed.quantity_as_fed = change.quantity_as_fed;
+      if (change.price_per_kg !== undefined) feed.price_per_kg = change.price_per_kg;
+    } else {
+      feeds.push({ feed_id: change.feed_id, quantity_as_fed: change.quantity_as_fed, price_per_kg: change.price_per_kg });
+    }
+  }
+
+  for (const change of variant.prices ?? []) {
+    const feed = find(change.feed_id) ?? fail(`cannot change the price of ${change.feed_id}, it is not in the ration`);
+    feed.price_per_kg = change.price_per_kg;
+  }
+
+  feeds = feeds
+    .map(feed => ({ ...feed, quantity_as_fed: round(feed.quantity_as_fed, 3) }))
+    .filter(feed => feed.quantity_as_fed > 0);
+  if (feeds.length === 0) fail('no feeds are left in the ration');
+  return feeds;
+}
+
+/**
+ * Pull the compared figures out of a diet evaluation response. The cost
+ * defaults to the backend's; pass the evaluation's costs, which fall back to
+ * the feed prices when the backend leaves it out.
+ */
+export function scenarioMetrics(
+  result: DietEvaluationResponse,
+  cost: number = result.cost_analysis?.total_diet_cost_as_fed ?? 0
+): ScenarioMetrics {
+  const milk = result.milk_production_analysis?.actual_milk_supported_kg_day;
+  const balance = result.nutrient_balance;
+  return {
+    cost_per_day: cost,
+    cost_per_litre: milk !== undefined && milk > 0 ? round(cost / (milk / MILK_DENSITY), 4) : null,
+    milk_kg_per_day: milk,
+    dm_intake_kg_per_day: result.intake_evaluation?.actual_intake_kg_day,
+    methane_g_per_day: result.methane_analysis?.methane_production_g_per_day,
+    energy_balance_mcal: balance?.energy_balance_mcal,
+    protein_balance_kg: balance?.protein_balance_kg,
+    calcium_balance_kg: balance?.calcium_balance_kg,
+    phosphorus_balance_kg: balance?.phosphorus_balance_kg
+  };
+}
+
+/**
+ * Difference of each metric from the baseline
+ */
+export function metricDeltas(baseline: ScenarioMetrics, variant: ScenarioMetrics): MetricDeltas {
+  const deltas = {} as MetricDeltas;
+  for (const metric of METRICS) {
+    const from = baseline[metric];
+    const to = variant[metric];
+    deltas[metric] = from == null || to == null ? null : round(to - from, 4);
+  }
+  return deltas;
+}
+
+/**
+ * Side-by-side table of every metric across the baseline and the variants
+ * that could be evaluated (variants without metrics are left out)
+ */
+export function comparisonTable(
+  baseline: { name: string; metrics: ScenarioMetrics },
+  variants: Array<{ name: string; metrics: ScenarioMetrics | null }>
+): ComparisonRow[] {
+  const evaluated = variants.filter((v): v is { name: string; metrics: ScenarioMetrics } => v.metrics !== null);
+  return METRICS
+    .filter(metric => baseline.metrics[metric] !== undefined || evaluated.some(v => v.metrics[metric] !== undefined))
+    .map(metric => {
+      const row: ComparisonRow = { metric, values: { [baseline.name]: baseline.metrics[metric] ?? null }, deltas: {} };
+      for (const variant of evaluated) {
+        row.values[variant.name] = variant.metrics[metric] ?? null;
+        row.deltas[variant.name] = metricDeltas(baseline.metrics, variant.metrics)[metric];
+      }
+      return row;
+    });
+}
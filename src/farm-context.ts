@@ -0,0 +1,177 @@
+/**
+ * Farm Context
+ *
+ * Per-session defaults (animal profile, country, currency, language, end user
+ * and chosen feeds) that agents set once and reuse across evaluate_diet and
+ * get_diet_recommendation calls.
+ */
+
+import { CattleInfo } from './feed-client.js';
+import { Language } from './i18n.js';
+
+export interface ContextFeed {
+  feed_id: string;
+  /** Taken from the price book when not set */
+  price_per_kg?: number;
+  quantity_as_fed?: number;
+}
+
+/** Feed for an evaluation, priced now or from the price book */
+export type EvaluationFeed = { feed_id: string; quantity_as_fed: number; price_per_kg?: number };
+
+/** Feed for a recommendation, priced now or from the price book */
+export type RecommendationFeed = { feed_id: string; price_per_kg?: number };
+
+export interface FarmContext {
+  cattle_info: Partial<CattleInfo>;
+  country_id?: string;
+  currency?: string;
+  language?: Language;
+  /** Backend user simulations are recorded for, instead of the service account */
+  user_id?: string;
+  /** Market region used to look up price book prices */
+  region?: string;
+  feeds?: ContextFeed[];
+}
+
+export interface FarmContextUpdate {
+  cattle_info?: Partial<CattleInfo>;
+  country_id?: string;
+  currency?: string;
+  language?: Language;
+  /** Backend user simulations are recorded for, instead of the service account */
+  user_id?: string;
+  /** Market region used to look up price book prices */
+  region?: string;
+  feeds?: ContextFeed[];
+}
+
+/**
+ * CattleInfo fields the backend requires on every request
+ */
+export const REQUIRED_CATTLE_FIELDS = [
+  'body_weight',
+  'breed',
+  'lactating',
+  'milk_production',
+  'days_in_milk',
+  'parity',
+  'days_of_pregnancy',
+  'tp_milk',
+  'fat_milk',
+  'temperature',
+  'topography',
+  'distance',
+  'calving_interval'
+] as const satisfies readonly (keyof CattleInfo)[];
+
+const OPTIONAL_CATTLE_FIELDS = ['bw_gain', 'bc_score'] as const satisfies readonly (keyof CattleInfo)[];
+
+/**
+ * Create an empty farm context
+ */
+export function createFarmContext(): FarmContext {
+  return { cattle_info: {} };
+}
+
+/**
+ * Pick the CattleInfo fields out of a flat tool parameter object,
+ * dropping any that were not supplied
+ */
+export function pickCattleFields(params: Record<string, unknown>): Partial<CattleInfo> {
+  const picked: Record<string, unknown> = {};
+  for (const field of [...REQUIRED_CATTLE_FIELDS, ...OPTIONAL_CATTLE_FIELDS]) {
+    if (params[field] !== undefined) {
+      picked[field] = params[field];
+    }
+  }
+  return picked as Partial<CattleInfo>;
+}
+
+/**
+ * Merge an update into the context. Cattle fields are merged one by one;
+ * feeds, country, currency, language, user and region replace the previous value when given.
+ */
+export function updateFarmContext(context: FarmContext, update: FarmContextUpdate): FarmContext {
+  if (update.cattle_info) {
+    context.cattle_info = { ...context.cattle_info, ...pickCattleFields(update.cattle_info) };
+  }
+  if (update.country_id !== undefined) context.country_id = update.country_id;
+  if (update.currency !== undefined) context.currency = update.currency;
+  if (update.language !== undefined) context.language = update.language;
+  if (update.user_id !== undefined) context.user_id = update.user_id;
+  if (update.region !== undefined) context.region = update.region;
+  if (update.feeds !== undefined) context.feeds = update.feeds;
+  return context;
+}
+
+/**
+ * Reset the context to empty
+ */
+export function clearFarmContext(context: FarmContext): FarmContext {
+  context.cattle_info = {};
+  delete context.country_id;
+  delete context.currency;
+  delete context.language;
+  delete context.user_id;
+  delete context.region;
+  delete context.feeds;
+  return context;
+}
+
+/**
+ * Combine explicit tool parameters with a named animal group's profile and
+ * the context's animal profile. Explicit values win over the group, and the
+ * group wins over the context.
+ */
+export function resolveCattleInfo(
+  params: Record<string, unknown>,
+  context: FarmContext,
+  group?: Partial<CattleInfo>
+): CattleInfo {
+  const merged = { ...context.cattle_info, ...group, ...pickCattleFields(params) };
+  const missing = REQUIRED_CATTLE_FIELDS.filter(field => merged[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing cattle information: ${missing.join(', ')}. Provide them as parameters or store them with set_farm_context.`
+    );
+  }
+  return merged as CattleInfo;
+}
+
+/**
+ * Resolve feeds for a diet evaluation, falling back to context feeds
+ * that have a quantity set
+ */
+export function resolveEvaluationFeeds(
+  feeds: EvaluationFeed[] | undefined,
+  context: FarmContext
+): EvaluationFeed[] {
+  if (feeds && feeds.length > 0) {
+    return feeds;
+  }
+  const fromContext = (context.feeds || [])
+    .filter((f): f is ContextFeed & { quantity_as_fed: number } => f.quantity_as_fed !== undefined && f.quantity_as_fed > 0)
+    .map(f => ({ feed_id: f.feed_id, quantity_as_fed: f.quantity_as_fed, price_per_kg: f.price_per_kg }));
+  if (fromContext.length === 0) {
+    throw new Error('No feeds provided. Pass feeds with quantity_as_fed or store them with set_farm_context.');
+  }
+  return fromContext;
+}
+
+/**
+ * Resolve feeds for a diet recommendation, falling back to context feeds
+ */
+export function resolveRecommendationFeeds(
+  feeds: RecommendationFeed[] | undefined,
+  context: FarmContext
+): RecommendationFeed[] {
+  if (feeds && feeds.length > 0) {
+    return feeds;
+  }
+  const fromContext = (context.feeds || []).map(f => ({ feed_id: f.feed_id, price_per_kg: f.price_per_kg }));
+  if (fromContext.length === 0) {
+    throw new Error('No feeds provided. Pass feeds with prices or store them with set_farm_context.');
+  }
+  return fromContext;
+}
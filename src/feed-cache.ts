@@ -0,0 +1,245 @@
+/**
+ * Feed Library Cache
+ *
+ * Keeps feeds fetched from the backend so repeated lookups (get_feed_info,
+ * search_feeds, country detection before each evaluation) skip the round
+ * trip, and so feed lookups keep working from the last known copy when the
+ * backend is unreachable. Entries expire after a TTL but stay available as a
+ * stale fallback. Countries can be preloaded in full, after which filtered
+ * searches for that country are answered locally. The cache is optionally
+ * persisted to a JSON file so it survives restarts in the field.
+ *
+ * The feed library is reference data, so one cache is shared by all tenants.
+ */
+
+import { readFile, writeFile, mkdir, rename } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import type { FeedDetails } from './feed-client.js';
+import { createLogger } from './logger.js';
+
+export interface FeedFilters {
+  country_id?: string;
+  feed_type?: string;
+  feed_category?: string;
+}
+
+export interface FeedCacheOptions {
+  /** Time after which entries are refreshed from the backend, ms */
+  ttlMs?: number;
+  /** Optional JSON file to persist the cache to */
+  filePath?: string;
+  /** Delay before writing changes to disk, ms */
+  saveDelayMs?: number;
+}
+
+export interface FeedCacheStats {
+  feeds: number;
+  searches: number;
+  countries: string[];
+  hits: number;
+  misses: number;
+  stale_hits: number;
+  /** Whether the last backend request failed to connect */
+  offline: boolean;
+}
+
+interface Entry<T> {
+  value: T;
+  fetched_at: number;
+}
+
+interface CacheFile {
+  version: 1;
+  feeds: Array<Entry<FeedDetails>>;
+  searches: Record<string, Entry<string[]>>;
+  countries: Record<string, number>;
+}
+
+const entrySchema = <T extends z.ZodTypeAny>(value: T) => z.object({ value, fetched_at: z.number() });
+
+/** Enough of the file's shape to rebuild the maps; feed details are kept as stored */
+const cacheFileSchema = z.object({
+  version: z.literal(1),
+  feeds: z.array(entrySchema(z.custom<FeedDetails>(value => typeof (value as FeedDetails | null)?.feed_id === 'string'))),
+  searches: z.record(entrySchema(z.array(z.string()))),
+  countries: z.record(z.number())
+});
+
+const log = createLogger('FeedCache');
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SAVE_DELAY_MS = 2000;
+
+export class FeedCache {
+  private feeds = new Map<string, Entry<FeedDetails>>();
+  private searches = new Map<string, Entry<string[]>>();
+  private countries = new Map<string, number>();
+  private ttlMs: number;
+  private filePath?: string;
+  private saveDelayMs: number;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private hits = 0;
+  private misses = 0;
+  private staleHits = 0;
+  /** Set when a backend request fails to connect, cleared by the next success */
+  offline = false;
+
+  constructor(options: FeedCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.filePath = options.filePath;
+    this.saveDelayMs = options.saveDelayMs ?? DEFAULT_SAVE_DELAY_MS;
+  }
+
+  /**
+   * Load the persisted cache, if a file is configured and exists. A corrupt
+   * file is only a lost cache, so it is logged and the cache starts empty.
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    let data: CacheFile;
+    try {
+      data = cacheFileSchema.parse(JSON.parse(raw));
+    } catch (error) {
+      log.warn('Ignoring unreadable cache file', { filePath: this.filePath, error });
+      return;
+    }
+    this.feeds = new Map(data.feeds.map(entry => [entry.value.feed_id, entry]));
+    this.searches = new Map(Object.entries(data.searches));
+    this.countries = new Map(Object.entries(data.countries));
+  }
+
+  /**
+   * A cached feed. Stale entries are only returned when allowStale is set.
+   */
+  getFeed(feedId: string, allowStale: boolean = false): FeedDetails | undefined {
+    return this.read(this.feeds.get(feedId), allowStale);
+  }
+
+  /**
+   * Cached result of a backend search, by its query string
+   */
+  getSearch(key: string, allowStale: boolean = false): FeedDetails[] | undefined {
+    const ids = this.read(this.searches.get(key), allowStale);
+    if (!ids) return undefined;
+    const feeds = ids.map(id => this.feeds.get(id)?.value);
+    return feeds.every(Boolean) ? feeds as FeedDetails[] : undefined;
+  }
+
+  putFeeds(feeds: FeedDetails[]): void {
+    const now = Date.now();
+    for (const feed of feeds) {
+      this.feeds.set(feed.feed_id, { value: feed, fetched_at: now });
+    }
+    this.scheduleSave();
+  }
+
+  putSearch(key: string, feeds: FeedDetails[]): void {
+    this.putFeeds(feeds);
+    this.searches.set(key, { value: feeds.map(f => f.feed_id), fetched_at: Date.now() });
+  }
+
+  /**
+   * Store a country's full feed list; filtered searches for it are then answered from the cache
+   */
+  putCountry(countryId: string, feeds: FeedDetails[]): void {
+    this.putFeeds(feeds);
+    this.countries.set(countryId, Date.now());
+  }
+
+  /**
+   * Whether a country's full feed list is cached (and fresh, unless allowStale)
+   */
+  hasCountry(countryId: string, allowStale: boolean = false): boolean {
+    const fetchedAt = this.countries.get(countryId);
+    return fetchedAt !== undefined && (allowStale || Date.now() - fetchedAt < this.ttlMs);
+  }
+
+  /**
+   * Filter cached feeds locally, in the order they were cached
+   */
+  query(filters: FeedFilters, limit?: number, offset: number = 0): FeedDetails[] {
+    const matches = [...this.feeds.values()]
+      .map(entry => entry.value)
+      .filter(feed =>
+        (!filters.country_id || feed.fd_country_id === filters.country_id) &&
+        (!filters.feed_type || feed.fd_type === filters.feed_type) &&
+        (!filters.feed_category || feed.fd_category === filters.feed_category)
+      );
+    return matches.slice(offset, limit ? offset + limit : undefined);
+  }
+
+  /** Record a cache lookup that had to go to the backend */
+  recordMiss(): void {
+    this.misses++;
+  }
+
+  /** Record a lookup answered locally */
+  recordHit(stale: boolean = false): void {
+    if (stale) this.staleHits++;
+    else this.hits++;
+  }
+
+  stats(): FeedCacheStats {
+    return {
+      feeds: this.feeds.size,
+      searches: this.searches.size,
+      countries: [...this.countries.keys()],
+      hits: this.hits,
+      misses: this.misses,
+      stale_hits: this.staleHits,
+      offline: this.offline
+    };
+  }
+
+  /**
+   * Write pending changes to disk now
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await this.save();
+  }
+
+  private read<T>(entry: Entry<T> | undefined, allowStale: boolean): T | undefined {
+    if (!entry) return undefined;
+    if (!allowStale && Date.now() - entry.fetched_at >= this.ttlMs) return undefined;
+    return entry.value;
+  }
+
+  /**
+   * Batch writes: a search can add hundreds of feeds at once
+   */
+  private scheduleSave(): void {
+    if (!this.filePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(error => log.error('Failed to save cache', { error }));
+    }, this.saveDelayMs);
+    this.saveTimer.unref();
+  }
+
+  private async save(): Promise<void> {
+    if (!this.filePath) return;
+    const data: CacheFile = {
+      version: 1,
+      feeds: [...this.feeds.values()],
+      searches: Object.fromEntries(this.searches),
+      countries: Object.fromEntries(this.countries)
+    };
+    // Write then rename, so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(data));
+    await rename(tempPath, this.filePath);
+  }
+}
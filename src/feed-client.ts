@@ -5,7 +5,38 @@
  * Supports both API key (recommended) and email+PIN authentication
  */
 
-import fetch from 'node-fetch';
+import { createHash } from 'node:crypto';
+import {
+  DietEvaluationResponse,
+  DietRecommendationResponse,
+  dietEvaluationResponseSchema,
+  dietRecommendationResponseSchema,
+  keyIdentityResponseSchema,
+  parseBackendResponse
+} from './api-schemas.js';
+import { FeedCache, FeedFilters } from './feed-cache.js';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  RationSmartApiError,
+  RequestOptions,
+  circuitBreakerFor,
+  requestJson
+} from './http.js';
+import { createLogger } from './logger.js';
+
+export type { DietEvaluationResponse, DietRecommendationResponse } from './api-schemas.js';
+
+const log = createLogger('FeedClient');
+
+/** User that API-key simulations fall back to when no service account is known */
+export const ANONYMOUS_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+/** Time a backend identity lookup is reused, ms */
+const IDENTITY_TTL_MS = 60 * 60 * 1000;
+
+/** Backend identity lookups by base URL and key fingerprint, shared by all clients */
+const backendIdentities = new Map<string, { account: ServiceAccount | null; fetchedAt: number }>();
 
 export interface CattleInfo {
   body_weight: number;
@@ -48,7 +79,8 @@ export interface DietEvaluationRequest {
   simulation_id: string;
   user_id: string;
   country_id: string;
-  currency: string;
+  /** Left out when the currency of the prices is unknown */
+  currency?: string;
   cattle_info: CattleInfo;
   feed_evaluation: FeedEvaluationItem[];
 }
@@ -86,6 +118,14 @@ export interface FeedDetails {
   updated_at?: string;
 }
 
+/** Paginated feed search result */
+interface FeedSearchResponse {
+  total?: number;
+  limit?: number;
+  offset?: number;
+  feeds: FeedDetails[];
+}
+
 export interface UserInfo {
   id: string;
   name: string;
@@ -110,6 +150,36 @@ export interface Country {
   is_active: boolean;
 }
 
+/**
+ * Backend identity used for API-key requests
+ */
+export interface ServiceAccount {
+  /** Backend user that simulations are recorded under */
+  user_id?: string;
+  /** Backend organization of that user */
+  organization_id?: string;
+  /** Country used when it is neither given nor detectable from the feeds */
+  country_id?: string;
+  currency?: string;
+}
+
+export interface FeedClientOptions {
+  /** Shared feed library cache for feed lookups and searches */
+  cache?: FeedCache;
+  /** Timeout and retry settings for backend requests */
+  http?: RequestOptions;
+  /** Settings for the backend's circuit breaker, applied when it is first created */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Organization holding the API key */
+  organizationId?: string;
+  /** Service account configured for this API key; overrides the backend lookup */
+  serviceAccount?: ServiceAccount;
+  /** Fallback for fields neither the configuration nor the backend provide */
+  serviceAccountDefaults?: ServiceAccount;
+  /** Backend endpoint describing the API key's user, or empty to skip the lookup */
+  identityPath?: string;
+}
+
 /**
  * Ration Smart API Client
  * Supports both API key and email+PIN authentication
@@ -121,8 +191,16 @@ export class FeedFormulationClient {
   private userPin: string | null = null;
   private cachedUserId: string | null = null;
   private cachedCountryId: string | null = null;
-  private cachedCurrency: string | null = null;
   private organizationId: string | null = null;
+  private serviceAccount: ServiceAccount;
+  private serviceAccountDefaults: ServiceAccount;
+  private identityPath: string;
+  private warnedAnonymous = false;
+  /** Currency of each country, fetched once per client */
+  private countryCurrencies: Promise<Map<string, string>> | null = null;
+  private cache: FeedCache | null;
+  private breaker: CircuitBreaker;
+  private httpOptions: RequestOptions;
 
   /**
    * Creates a new Ration Smart API client
@@ -131,14 +209,23 @@ export class FeedFormulationClient {
    * @param apiKey - API key for authentication (recommended for organizations)
    * @param userEmail - User's email address (alternative to API key, for backward compatibility)
    * @param userPin - 4-digit PIN (required if using email authentication)
+   * @param options - Optional feed cache, request and circuit breaker settings
    */
   constructor(
     baseUrl: string,
     apiKey?: string,
     userEmail?: string,
-    userPin?: string
+    userPin?: string,
+    options: FeedClientOptions = {}
   ) {
     this.baseUrl = baseUrl;
+    this.cache = options.cache ?? null;
+    this.breaker = circuitBreakerFor(baseUrl, options.circuitBreaker);
+    this.httpOptions = options.http ?? {};
+    this.organizationId = options.organizationId ?? null;
+    this.serviceAccount = options.serviceAccount ?? {};
+    this.serviceAccountDefaults = options.serviceAccountDefaults ?? {};
+    this.identityPath = options.identityPath ?? '';
     
     // Prefer API key over email+PIN
     if (apiKey) {
@@ -168,6 +255,19 @@ export class FeedFormulationClient {
     return headers;
   }
 
+  /**
+   * Send a request to the backend through the shared request layer
+   */
+  private request<T>(path: string, label: string, init: { method?: string; body?: string } = {}): Promise<T> {
+    return requestJson<T>(
+      `${this.baseUrl}${path}`,
+      { ...init, headers: this.getAuthHeaders() },
+      label,
+      this.breaker,
+      this.httpOptions
+    );
+  }
+
   /**
    * Authenticate and get user ID (for email+PIN method)
    */
@@ -181,20 +281,13 @@ export class FeedFormulationClient {
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/auth/login`, {
+      const data = await this.request<{ success: boolean; user: UserInfo }>('/auth/login', 'Authentication failed', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           email_id: this.userEmail,
           pin: this.userPin
         })
       });
-
-      if (!response.ok) {
-        throw new Error(`Authentication failed: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json() as { success: boolean; user: UserInfo };
       
       if (!data.success || !data.user) {
         throw new Error('Invalid authentication response');
@@ -202,10 +295,10 @@ export class FeedFormulationClient {
 
       this.cachedUserId = data.user.id;
       this.cachedCountryId = data.user.country_id;
-      this.cachedCurrency = data.user.country?.currency || 'USD';
 
       return this.cachedUserId;
     } catch (error) {
+      if (error instanceof RationSmartApiError) throw error;
       throw new Error(`Failed to authenticate: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -225,7 +318,11 @@ export class FeedFormulationClient {
    */
   async getCountryId(): Promise<string> {
     if (this.apiKey) {
-      throw new Error('Country ID not available with API key authentication. Specify country_id in requests.');
+      const { country_id } = await this.getServiceAccount();
+      if (!country_id) {
+        throw new Error('Country ID not available with API key authentication. Specify country_id in requests.');
+      }
+      return country_id;
     }
     await this.authenticate();
     if (!this.cachedCountryId) {
@@ -235,40 +332,72 @@ export class FeedFormulationClient {
   }
 
   /**
-   * Get currency (with caching, for email+PIN method)
+   * Organization holding the API key, when known
    */
-  async getCurrency(): Promise<string> {
-    if (this.apiKey) {
-      return 'USD'; // Default, can be overridden in requests
-    }
-    await this.authenticate();
-    return this.cachedCurrency || 'USD';
+  getOrganizationId(): string | null {
+    return this.organizationId;
   }
 
   /**
    * Get all countries
    */
   async getCountries(): Promise<Country[]> {
-    const response = await fetch(`${this.baseUrl}/auth/countries`, {
-      headers: this.getAuthHeaders()
-    });
-    if (!response.ok) {
-      throw new Error(`Failed to get countries: ${response.status}`);
+    return this.request<Country[]>('/auth/countries', 'Failed to get countries');
+  }
+
+  /**
+   * Currency of a country, or null if the country is unknown or the
+   * country list cannot be fetched
+   */
+  async getCountryCurrency(countryId: string): Promise<string | null> {
+    if (!this.countryCurrencies) {
+      this.countryCurrencies = this.getCountries().then(
+        countries => new Map(countries.map(country => [country.id, country.currency])),
+        error => {
+          this.countryCurrencies = null;
+          throw error;
+        }
+      );
+    }
+    try {
+      return (await this.countryCurrencies).get(countryId) ?? null;
+    } catch (error) {
+      log.warn('Could not look up the country currency', { country_id: countryId, error });
+      return null;
     }
-    return response.json() as Promise<Country[]>;
+  }
+
+  /**
+   * Currency feed prices are in: the given one, else that of the country
+   * (given, or detected from the feeds). Undefined when neither is known;
+   * guessing the account's currency would mislabel the costs.
+   */
+  async resolveCurrency(currency?: string, countryId?: string, feedIds: string[] = []): Promise<string | undefined> {
+    if (currency) return currency;
+    const country = countryId ?? await this.detectCountryFromFeeds(feedIds);
+    return (country && await this.getCountryCurrency(country)) || undefined;
   }
 
   /**
    * Get feed by ID
    */
   async getFeedById(feedId: string): Promise<FeedDetails> {
-    const response = await fetch(`${this.baseUrl}/feeds/${feedId}`, {
-      headers: this.getAuthHeaders()
-    });
-    if (!response.ok) {
-      throw new Error(`Failed to get feed: ${response.status}`);
+    const cached = this.cache?.getFeed(feedId);
+    if (cached) {
+      this.cache!.recordHit();
+      return cached;
     }
-    return response.json() as Promise<FeedDetails>;
+    this.cache?.recordMiss();
+
+    let feed: FeedDetails;
+    try {
+      feed = await this.request<FeedDetails>(`/feeds/${feedId}`, 'Failed to get feed');
+    } catch (error) {
+      return this.offlineFallback(error, cache => cache.getFeed(feedId, true));
+    }
+    this.backendReachable();
+    this.cache?.putFeeds([feed]);
+    return feed;
   }
 
   /**
@@ -280,7 +409,7 @@ export class FeedFormulationClient {
     feed_category?: string;
     limit?: number;
     offset?: number;
-  } = {}): Promise<FeedDetails[]> {
+  } = {}, options: { refresh?: boolean } = {}): Promise<FeedDetails[]> {
     const queryParams = new URLSearchParams();
     if (params.country_id) queryParams.append('country_id', params.country_id);
     if (params.feed_type) queryParams.append('feed_type', params.feed_type);
@@ -288,22 +417,91 @@ export class FeedFormulationClient {
     if (params.limit) queryParams.append('limit', params.limit.toString());
     if (params.offset) queryParams.append('offset', params.offset.toString());
 
-    const url = `${this.baseUrl}/feeds/${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-    const response = await fetch(url, {
-      headers: this.getAuthHeaders()
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Failed to search feeds: ${response.status}`);
+    const filters: FeedFilters = {
+      country_id: params.country_id,
+      feed_type: params.feed_type,
+      feed_category: params.feed_category
+    };
+    const key = queryParams.toString();
+    if (this.cache && !options.refresh) {
+      const cached = this.cache.getSearch(key) ??
+        (params.country_id && this.cache.hasCountry(params.country_id)
+          ? this.cache.query(filters, params.limit, params.offset)
+          : undefined);
+      if (cached) {
+        this.cache.recordHit();
+        return cached;
+      }
+      this.cache.recordMiss();
+    }
+
+    // Offline, fall back to the same search cached earlier, then to filtering every cached feed
+    const fromCache = (cache: FeedCache) => {
+      const local = cache.getSearch(key, true) ?? cache.query(filters, params.limit, params.offset);
+      return local.length > 0 ? local : undefined;
+    };
+
+    let data: FeedSearchResponse | FeedDetails[];
+    try {
+      data = await this.request<FeedSearchResponse | FeedDetails[]>(`/feeds/${key ? '?' + key : ''}`, 'Failed to search feeds');
+    } catch (error) {
+      return this.offlineFallback(error, fromCache);
     }
-    
-    const data = await response.json();
     // Handle paginated response format: {total, limit, offset, feeds: [...]}
     // or direct array format for backward compatibility
-    if (data && typeof data === 'object' && 'feeds' in data) {
-      return data.feeds as FeedDetails[];
+    const feeds = Array.isArray(data) ? data : data.feeds;
+    this.backendReachable();
+    this.cache?.putSearch(key, feeds);
+    return feeds;
+  }
+
+  /**
+   * Fetch every feed matching the filters, one page at a time, up to maxFeeds
+   */
+  async listAllFeeds(params: {
+    country_id?: string;
+    feed_type?: string;
+    feed_category?: string;
+  } = {}, maxFeeds: number = 2000): Promise<FeedDetails[]> {
+    const pageSize = 100;
+    const feeds: FeedDetails[] = [];
+    let complete = false;
+    while (feeds.length < maxFeeds) {
+      const page = await this.searchFeeds({ ...params, limit: pageSize, offset: feeds.length });
+      feeds.push(...page);
+      if (page.length < pageSize) {
+        complete = true;
+        break;
+      }
     }
-    return data as FeedDetails[];
+
+    // A complete, live country list lets later searches for that country skip the backend
+    const wholeCountry = params.country_id && !params.feed_type && !params.feed_category;
+    if (this.cache && wholeCountry && complete && !this.cache.offline) {
+      this.cache.putCountry(params.country_id!, feeds);
+    }
+    return feeds.slice(0, maxFeeds);
+  }
+
+  /**
+   * Fetch a country's whole feed library into the cache, ignoring fresh entries
+   */
+  async preloadCountry(countryId: string, maxFeeds: number = 10000): Promise<number> {
+    if (!this.cache) {
+      throw new Error('Preloading needs a feed cache');
+    }
+    const pageSize = 100;
+    const feeds: FeedDetails[] = [];
+    while (feeds.length < maxFeeds) {
+      const page = await this.searchFeeds({ country_id: countryId, limit: pageSize, offset: feeds.length }, { refresh: true });
+      feeds.push(...page);
+      if (page.length < pageSize) break;
+    }
+    if (this.cache.offline) {
+      throw new Error(`Could not preload feeds for country ${countryId}: backend unreachable, using cached feeds`);
+    }
+    this.cache.putCountry(countryId, feeds);
+    return feeds.length;
   }
 
   /**
@@ -314,7 +512,7 @@ export class FeedFormulationClient {
     feedSelection: FeedWithPrice[],
     countryId?: string,
     userId?: string  // Optional for API key auth
-  ): Promise<any> {
+  ): Promise<DietRecommendationResponse> {
     let userIdToUse: string;
     let countryIdToUse: string;
     
@@ -322,7 +520,7 @@ export class FeedFormulationClient {
       // Auto-detect country_id from feeds if not provided
       if (!countryId) {
         const feedIds = feedSelection.map(f => f.feed_id);
-        const detectedCountryId = await this.detectCountryFromFeeds(feedIds);
+        const detectedCountryId = await this.detectCountryFromFeeds(feedIds) ?? (await this.getServiceAccount()).country_id;
         if (!detectedCountryId) {
           throw new Error('country_id is required. Either provide it explicitly or ensure feeds have country_id set.');
         }
@@ -348,18 +546,29 @@ export class FeedFormulationClient {
       country_id: countryIdToUse // Include country_id if detected
     };
 
-    const response = await fetch(`${this.baseUrl}/diet-recommendation-working/`, {
+    const data = await this.request('/diet-recommendation-working/', 'Diet recommendation failed', {
       method: 'POST',
-      headers: this.getAuthHeaders(),
       body: JSON.stringify(request)
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Diet recommendation failed: ${response.status} - ${errorText}`);
-    }
+    return parseBackendResponse(dietRecommendationResponseSchema, data, 'diet recommendation');
+  }
 
-    return response.json();
+  /**
+   * Answer from the cache when the backend cannot be reached, or rethrow
+   */
+  private offlineFallback<T>(error: unknown, lookup: (cache: FeedCache) => T | undefined): T {
+    if (!this.cache || !(error instanceof RationSmartApiError) || !error.unavailable) throw error;
+    this.cache.offline = true;
+    const cached = lookup(this.cache);
+    if (cached === undefined) throw error;
+    log.warn('Backend unreachable, answering from feed cache', { error: error.message, endpoint: error.endpoint });
+    this.cache.recordHit(true);
+    return cached;
+  }
+
+  private backendReachable(): void {
+    if (this.cache) this.cache.offline = false;
   }
 
   /**
@@ -372,19 +581,71 @@ export class FeedFormulationClient {
       const firstFeed = await this.getFeedById(feedIds[0]);
       return firstFeed.fd_country_id || null;
     } catch (error) {
-      console.warn('[FeedClient] Could not auto-detect country from feeds:', error);
+      log.warn('Could not auto-detect country from feeds', { error });
       return null;
     }
   }
 
   /**
-   * Get or create service account user_id for API key auth
+   * Identity of the API key, field by field: the configured service account,
+   * else what the backend reports for the key, else the deployment defaults
+   */
+  async getServiceAccount(): Promise<ServiceAccount> {
+    const configured = this.serviceAccount;
+    const backend = configured.user_id ? null : await this.lookupBackendIdentity();
+    const defaults = this.serviceAccountDefaults;
+    return {
+      user_id: configured.user_id ?? backend?.user_id ?? defaults.user_id,
+      organization_id: configured.organization_id ?? backend?.organization_id ?? defaults.organization_id,
+      country_id: configured.country_id ?? backend?.country_id ?? defaults.country_id,
+      currency: configured.currency ?? backend?.currency ?? defaults.currency
+    };
+  }
+
+  /**
+   * Ask the backend who the API key belongs to. Answers, including "not
+   * supported", are cached for an hour; outages are not.
+   */
+  private async lookupBackendIdentity(): Promise<ServiceAccount | null> {
+    if (!this.apiKey || !this.identityPath) return null;
+    const cacheKey = `${this.baseUrl} ${createHash('sha256').update(this.apiKey).digest('hex')}`;
+    const cached = backendIdentities.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < IDENTITY_TTL_MS) return cached.account;
+
+    let account: ServiceAccount | null = null;
+    try {
+      const data = await this.request(this.identityPath, 'Failed to resolve API key identity');
+      const user = parseBackendResponse(keyIdentityResponseSchema, data, 'API key identity');
+      account = {
+        user_id: user.id,
+        organization_id: user.organization_id ?? undefined,
+        country_id: user.country_id ?? undefined,
+        currency: user.country?.currency ?? undefined
+      };
+    } catch (error) {
+      if (error instanceof RationSmartApiError && error.unavailable) {
+        log.warn('Could not resolve API key identity, backend unavailable', { error: error.message });
+        return null;
+      }
+      log.warn('Backend did not resolve the API key identity', { error: error instanceof Error ? error.message : error });
+    }
+    backendIdentities.set(cacheKey, { account, fetchedAt: Date.now() });
+    return account;
+  }
+
+  /**
+   * Service account user_id for API key auth, or the anonymous user if none is known
    */
   private async getServiceAccountUserId(): Promise<string> {
-    // For API key auth, use a service account user_id
-    // This is a placeholder UUID that represents "API key organization user"
-    // In production, you might want to create actual service account users per organization
-    return '00000000-0000-0000-0000-000000000000'; // Service account UUID
+    const { user_id } = await this.getServiceAccount();
+    if (user_id) return user_id;
+    if (!this.warnedAnonymous) {
+      log.warn('No service account user for this API key; recording simulations under the anonymous user', {
+        organization_id: this.organizationId
+      });
+      this.warnedAnonymous = true;
+    }
+    return ANONYMOUS_USER_ID;
   }
 
   /**
@@ -396,16 +657,16 @@ export class FeedFormulationClient {
     countryId?: string,
     currency?: string,
     userId?: string  // Optional for API key auth
-  ): Promise<any> {
+  ): Promise<DietEvaluationResponse> {
     let userIdToUse: string;
     let countryIdToUse: string;
-    let currencyToUse: string;
+    let currencyToUse: string | undefined;
 
     if (this.apiKey) {
       // For API key auth, auto-detect country_id from feeds if not provided
       if (!countryId) {
         const feedIds = feedEvaluation.map(f => f.feed_id);
-        const detectedCountryId = await this.detectCountryFromFeeds(feedIds);
+        const detectedCountryId = await this.detectCountryFromFeeds(feedIds) ?? (await this.getServiceAccount()).country_id;
         if (!detectedCountryId) {
           throw new Error('country_id is required. Either provide it explicitly or ensure feeds have country_id set.');
         }
@@ -416,12 +677,12 @@ export class FeedFormulationClient {
       
       // Use provided userId or service account
       userIdToUse = userId || await this.getServiceAccountUserId();
-      currencyToUse = currency || 'USD';
     } else {
       userIdToUse = await this.getUserId();
       countryIdToUse = countryId || await this.getCountryId();
-      currencyToUse = currency || await this.getCurrency();
     }
+    // Prices are in the currency of the country unless told otherwise
+    currencyToUse = await this.resolveCurrency(currency, countryIdToUse);
 
     const simulationId = `eval-${Date.now()}`;
 
@@ -434,17 +695,11 @@ export class FeedFormulationClient {
       feed_evaluation: feedEvaluation
     };
 
-    const response = await fetch(`${this.baseUrl}/diet-evaluation-working/`, {
+    const data = await this.request('/diet-evaluation-working/', 'Diet evaluation failed', {
       method: 'POST',
-      headers: this.getAuthHeaders(),
       body: JSON.stringify(request)
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Diet evaluation failed: ${response.status} - ${errorText}`);
-    }
-
-    return response.json();
+    return parseBackendResponse(dietEvaluationResponseSchema, data, 'diet evaluation');
   }
 }
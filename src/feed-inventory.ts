@@ -0,0 +1,298 @@
+/**
+ * Feed Inventory
+ *
+ * Feed stocks on hand at the farm, kept per tenant as purchase lots (feed,
+ * kg on hand, purchase date and price). Combined with the daily rations of
+ * the herd, the stock gives the days of feed remaining and the feeds that
+ * will run out, and caps how much of each feed a recommendation may use.
+ * Lots live in memory and are optionally persisted to a JSON file.
+ */
+
+import { readFile, writeFile, mkdir, rename } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import { createLogger } from './logger.js';
+import { round } from './utils.js';
+
+export interface StockLot {
+  feed_id: string;
+  /** As-fed kg of the lot still on hand */
+  quantity_kg: number;
+  /** YYYY-MM-DD */
+  purchase_date: string;
+  price_per_kg?: number;
+  currency?: string;
+  supplier?: string;
+  recorded_at: string;
+}
+
+export type StockInput = Omit<StockLot, 'purchase_date' | 'recorded_at'> & {
+  /** Defaults to today */
+  purchase_date?: string;
+};
+
+/** All lots of one feed */
+export interface FeedStock {
+  feed_id: string;
+  on_hand_kg: number;
+  /** Value of the lots with a price; lots in other currencies are not added up */
+  value?: number;
+  currency?: string;
+  last_purchase_date: string;
+  lots: StockLot[];
+}
+
+/** Daily use of a feed by the herd, as-fed kg/day for all animals */
+export interface FeedUse {
+  feed_id: string;
+  kg_per_day: number;
+}
+
+export interface StockForecast {
+  feed_id: string;
+  /** As recorded, less the use since it was recorded */
+  on_hand_kg: number;
+  /** As recorded in the inventory */
+  recorded_kg: number;
+  daily_use_kg: number;
+  /** Whole days of feed left at the current use; null when unused */
+  days_remaining: number | null;
+  run_out_date: string | null;
+  /**
+   * ok: lasts the horizon; runs_out: runs out within it; out_of_stock: fed
+   * but none on hand; unused: on hand but in no ration
+   */
+  status: 'ok' | 'runs_out' | 'out_of_stock' | 'unused';
+}
+
+/** Stock cap on a feed in a recommendation */
+export interface StockLimit {
+  feed_id: string;
+  on_hand_kg: number;
+  /** Stock set aside for the other rations fed from it over the days */
+  reserved_kg?: number;
+  /** As-fed kg/day per head that makes the stock last */
+  max_kg_per_day: number;
+}
+
+type InventoryFile = Record<string, StockLot[]>;
+
+const inventoryFileSchema: z.ZodType<InventoryFile> = z.record(z.array(z.object({
+  feed_id: z.string(),
+  quantity_kg: z.number(),
+  purchase_date: z.string(),
+  price_per_kg: z.number().optional(),
+  currency: z.string().optional(),
+  supplier: z.string().optional(),
+  recorded_at: z.string()
+})));
+
+const log = createLogger('FeedInventory');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.max(0, (Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Stock left on a date. Each lot counts from the day it was recorded, and
+ * the use since is taken off, never below 0.
+ */
+function stockOn(lots: StockLot[], kgPerDay: number, date: string): number {
+  let stock = 0;
+  let since: string | undefined;
+  for (const lot of [...lots].sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))) {
+    const recorded = lot.recorded_at.slice(0, 10);
+    if (since) stock = Math.max(0, stock - kgPerDay * daysBetween(since, recorded));
+    stock += lot.quantity_kg;
+    since = recorded;
+  }
+  return since ? Math.max(0, stock - kgPerDay * daysBetween(since, date)) : 0;
+}
+
+export class FeedInventory {
+  private tenants = new Map<string, StockLot[]>();
+
+  /**
+   * @param filePath - Optional JSON file to persist stock to
+   */
+  constructor(private filePath?: string) {}
+
+  /**
+   * Load persisted stock, if a file is configured and exists. A corrupt file
+   * is logged and the inventory starts empty.
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    let data: InventoryFile;
+    try {
+      data = inventoryFileSchema.parse(JSON.parse(raw));
+    } catch (error) {
+      log.warn('Ignoring unreadable stock file', { filePath: this.filePath, error });
+      return;
+    }
+    this.tenants = new Map(Object.entries(data));
+  }
+
+  /**
+   * Record stock lots. With `replace` (a stock take), the new lots replace
+   * every lot of their feeds; a lot of 0 kg records a feed as used up.
+   */
+  async record(tenantId: string, inputs: StockInput[], { replace = false } = {}): Promise<StockLot[]> {
+    const now = new Date().toISOString();
+    const lots = inputs.map((input, index) => {
+      const date = input.purchase_date ?? today();
+      if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) {
+        throw new Error(`Stock ${index + 1} (${input.feed_id}): purchase_date must be YYYY-MM-DD, got "${date}"`);
+      }
+      if (!(input.quantity_kg >= 0)) {
+        throw new Error(`Stock ${index + 1} (${input.feed_id}): quantity_kg must be a number of at least 0`);
+      }
+      if (input.price_per_kg !== undefined && !(input.price_per_kg >= 0)) {
+        throw new Error(`Stock ${index + 1} (${input.feed_id}): price_per_kg must be a number of at least 0`);
+      }
+      const lot: StockLot = { feed_id: input.feed_id, quantity_kg: input.quantity_kg, purchase_date: date, recorded_at: now };
+      if (input.price_per_kg !== undefined) lot.price_per_kg = input.price_per_kg;
+      if (input.currency) lot.currency = input.currency.toUpperCase();
+      if (input.supplier) lot.supplier = input.supplier;
+      return lot;
+    });
+
+    const counted = new Set(lots.map(lot => lot.feed_id));
+    const kept = (this.tenants.get(tenantId) ?? []).filter(lot => !replace || !counted.has(lot.feed_id));
+    this.tenants.set(tenantId, [...kept, ...lots]);
+    await this.save();
+    return lots;
+  }
+
+  /**
+   * Stock per feed, largest first
+   */
+  list(tenantId: string, feedId?: string): FeedStock[] {
+    const byFeed = new Map<string, StockLot[]>();
+    for (const lot of this.tenants.get(tenantId) ?? []) {
+      if (feedId && lot.feed_id !== feedId) continue;
+      byFeed.set(lot.feed_id, [...(byFeed.get(lot.feed_id) ?? []), lot]);
+    }
+    return [...byFeed.entries()]
+      .map(([id, lots]) => {
+        const priced = lots.filter(lot => lot.price_per_kg !== undefined);
+        const currencies = new Set(priced.map(lot => lot.currency));
+        const stock: FeedStock = {
+          feed_id: id,
+          on_hand_kg: round(lots.reduce((sum, lot) => sum + lot.quantity_kg, 0), 1),
+          last_purchase_date: lots.map(lot => lot.purchase_date).sort().at(-1)!,
+          lots: [...lots].sort((a, b) => a.purchase_date.localeCompare(b.purchase_date))
+        };
+        if (priced.length > 0 && currencies.size === 1) {
+          stock.value = round(priced.reduce((sum, lot) => sum + lot.quantity_kg * lot.price_per_kg!, 0));
+          stock.currency = priced[0].currency;
+        }
+        return stock;
+      })
+      .sort((a, b) => b.on_hand_kg - a.on_hand_kg);
+  }
+
+  /**
+   * As-fed kg of a feed on hand, or undefined when it has no stock record
+   */
+  onHand(tenantId: string, feedId: string): number | undefined {
+    return this.list(tenantId, feedId)[0]?.on_hand_kg;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.filePath) return;
+    const data: InventoryFile = {};
+    for (const [tenantId, lots] of this.tenants) {
+      if (lots.length > 0) {
+        data[tenantId] = lots;
+      }
+    }
+    // Write then rename, so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(data, null, 2));
+    await rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Days of feed remaining from `asOf` for every stocked or fed feed, soonest
+ * to run out first. Stock recorded before `asOf` is reduced by the use since.
+ */
+export function forecastStock(
+  stocks: FeedStock[],
+  uses: FeedUse[],
+  { asOf = today(), horizonDays }: { asOf?: string; horizonDays: number }
+): StockForecast[] {
+  const daily = new Map<string, number>();
+  for (const use of uses) {
+    daily.set(use.feed_id, (daily.get(use.feed_id) ?? 0) + use.kg_per_day);
+  }
+  const byFeed = new Map(stocks.map(stock => [stock.feed_id, stock]));
+  const feedIds = [...new Set([...daily.keys(), ...byFeed.keys()])];
+
+  return feedIds
+    .map(feedId => {
+      const use = daily.get(feedId) ?? 0;
+      const recorded = byFeed.get(feedId);
+      const stock = recorded ? round(stockOn(recorded.lots, use, asOf), 1) : 0;
+      const forecast = (days: number | null, status: StockForecast['status']): StockForecast => ({
+        feed_id: feedId,
+        on_hand_kg: stock,
+        recorded_kg: recorded?.on_hand_kg ?? 0,
+        daily_use_kg: round(use),
+        days_remaining: days,
+        run_out_date: days === null ? null : addDays(asOf, days),
+        status
+      });
+      if (use <= 0) return forecast(null, 'unused');
+      if (stock <= 0) return forecast(0, 'out_of_stock');
+      const days = Math.floor(stock / use);
+      return forecast(days, days < horizonDays ? 'runs_out' : 'ok');
+    })
+    .sort((a, b) => (a.days_remaining ?? Infinity) - (b.days_remaining ?? Infinity) || a.feed_id.localeCompare(b.feed_id));
+}
+
+/**
+ * Per-head daily caps that make each stocked feed last the given days. The
+ * stock is shared with the other rations fed from it (`otherUses`, on the
+ * same basis as the forecast): their use over the days is set aside first
+ * and the rest is divided over the head count. Feeds without a stock record
+ * are not capped.
+ */
+export function stockLimits(
+  feedIds: string[],
+  onHand: (feedId: string) => number | undefined,
+  { days, headCount, otherUses = [] }: { days: number; headCount: number; otherUses?: FeedUse[] }
+): StockLimit[] {
+  return feedIds.flatMap(feedId => {
+    const stock = onHand(feedId);
+    if (stock === undefined) return [];
+    const otherUse = otherUses.filter(use => use.feed_id === feedId).reduce((sum, use) => sum + use.kg_per_day, 0);
+    const reserved = Math.min(stock, otherUse * days);
+    return [{
+      feed_id: feedId,
+      on_hand_kg: stock,
+      ...(otherUse > 0 ? { reserved_kg: round(reserved, 1) } : {}),
+      max_kg_per_day: Math.floor(((stock - reserved) / (days * headCount)) * 1000) / 1000
+    }];
+  });
+}
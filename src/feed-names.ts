@@ -0,0 +1,95 @@
+/**
+ * Feed Name Catalogue
+ *
+ * Local translations of feed display names. The backend only stores the
+ * English fd_name, so vernacular names (for example those collected by
+ * scripts/import-ethiopia-feeds.js) are kept here, keyed by feed ID or by
+ * English feed name. A small built-in set covers common East African feeds;
+ * a JSON file can add to or override it.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { Language } from './i18n.js';
+
+export type FeedNameTranslations = Partial<Record<Language, string>>;
+
+/** File format: feed ID or English feed name -> translations */
+export type FeedNameFile = Record<string, FeedNameTranslations>;
+
+const BUILTIN_FEED_NAMES: FeedNameFile = {
+  'teff straw': { am: 'የጤፍ ጭድ', om: 'Cidii xaafii' },
+  'wheat straw': { am: 'የስንዴ ጭድ', om: 'Cidii qamadii', sw: 'Majani ya ngano' },
+  'barley straw': { am: 'የገብስ ጭድ', om: 'Cidii garbuu', sw: 'Majani ya shayiri' },
+  'maize stover': { am: 'የበቆሎ አገዳ', sw: 'Mabua ya mahindi' },
+  'natural pasture hay': { am: 'የተፈጥሮ ግጦሽ ድርቆሽ', sw: 'Hei ya malisho ya asili' },
+  'wheat bran': { am: 'የስንዴ ፉርሽካ', om: 'Furushkaa qamadii', sw: 'Pumba za ngano' },
+  'maize grain': { am: 'በቆሎ', om: 'Boqqolloo', sw: 'Mahindi' },
+  'noug seed cake': { am: 'የኑግ ፋጉሎ', om: 'Fagullo nuugii' },
+  'cottonseed cake': { am: 'የጥጥ ፍሬ ፋጉሎ', om: 'Fagullo firii jirbii', sw: 'Mashudu ya pamba' },
+  'sunflower cake': { am: 'የሱፍ ፋጉሎ', om: 'Fagullo suufii', sw: 'Mashudu ya alizeti' },
+  'molasses': { am: 'ሞላሰስ', om: 'Molaasii', sw: 'Molasi' },
+  'brewery spent grain': { am: 'የቢራ ብቅል ትራፊ', om: 'Haftee biiraa', sw: 'Machicha ya bia' },
+  'napier grass': { am: 'የዝሆን ሳር', sw: 'Nyasi tembo' }
+};
+
+/**
+ * Normalize a catalogue key (case and whitespace insensitive)
+ */
+function nameKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export class FeedNameCatalogue {
+  private entries = new Map<string, FeedNameTranslations>();
+
+  /**
+   * @param filePath - Optional JSON file with additional translations
+   */
+  constructor(private filePath?: string) {
+    this.merge(BUILTIN_FEED_NAMES);
+  }
+
+  /**
+   * Load translations from the configured file, if it exists
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    this.merge(JSON.parse(raw) as FeedNameFile);
+  }
+
+  /**
+   * Add translations; languages already present for a feed are overwritten
+   */
+  merge(names: FeedNameFile): void {
+    for (const [key, translations] of Object.entries(names)) {
+      const normalized = nameKey(key);
+      this.entries.set(normalized, { ...this.entries.get(normalized), ...translations });
+    }
+  }
+
+  /**
+   * Display name for a feed in the given language, falling back to its English name.
+   * Feed ID entries take precedence over name entries.
+   */
+  displayName(feed: { feed_id?: string; name: string }, language: Language): string {
+    if (language === 'en') return feed.name;
+    const byId = feed.feed_id ? this.entries.get(nameKey(feed.feed_id))?.[language] : undefined;
+    return byId ?? this.entries.get(nameKey(feed.name))?.[language] ?? feed.name;
+  }
+
+  /**
+   * Every translated name known for a feed, in any language
+   */
+  localNames(feed: { feed_id?: string; name: string }): string[] {
+    const byId = feed.feed_id ? this.entries.get(nameKey(feed.feed_id)) : undefined;
+    const byName = this.entries.get(nameKey(feed.name));
+    return [...new Set([...Object.values(byId ?? {}), ...Object.values(byName ?? {})])];
+  }
+}
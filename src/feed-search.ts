@@ -0,0 +1,147 @@
+/**
+ * Feed Name Search
+ *
+ * Free-text, typo-tolerant search over feed names, local (translated) names
+ * and categories. The backend only filters by country, type and category, so
+ * candidate feeds are fetched and ranked here. Queries are matched word by
+ * word: each query word is scored against the closest word in a field, by
+ * exact match, prefix ("noug" for "Noug seed cake") or edit distance ("tef
+ * straw" for "Teff straw").
+ */
+
+import { FeedDetails } from './feed-client.js';
+import { round } from './utils.js';
+
+export interface FeedMatch {
+  feed: FeedDetails;
+  /** 0-1, higher is a closer match */
+  score: number;
+  /** The name or category that matched best */
+  matched: string;
+}
+
+export interface FeedSearchOptions {
+  /** Local names for a feed, searched like fd_name */
+  localNames?: (feed: FeedDetails) => string[];
+  /** Matches scoring below this are dropped (default 0.5) */
+  minScore?: number;
+}
+
+/** Category matches rank below name matches */
+const CATEGORY_WEIGHT = 0.7;
+const DEFAULT_MIN_SCORE = 0.5;
+
+/**
+ * Lower-case, strip accents and split into words. Non-Latin scripts are kept.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and adjacent transpositions each cost 1
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * Typos tolerated in a query word: none for one or two letters, one up to six, then two
+ */
+function maxTypos(word: string): number {
+  return word.length <= 2 ? 0 : word.length <= 6 ? 1 : 2;
+}
+
+/**
+ * Score one query word against one field word
+ */
+function wordScore(query: string, word: string): number {
+  if (query === word) return 1;
+  if (query.length >= 2 && word.startsWith(query)) return 0.9;
+  const typos = maxTypos(query);
+  if (typos === 0) return 0;
+  const distance = editDistance(query, word);
+  if (distance <= typos) return 0.8 - 0.15 * (distance - 1);
+  // Typo in a partial word, e.g. "cottn" for "cottonseed"
+  if (word.length > query.length) {
+    const prefixDistance = editDistance(query, word.slice(0, query.length));
+    if (prefixDistance <= typos) return 0.7 - 0.15 * (prefixDistance - 1);
+  }
+  return 0;
+}
+
+/**
+ * Score a query against one field. Every query word should match some word
+ * in the field; fields with extra words score slightly lower, so "Wheat bran"
+ * ranks above "Wheat bran pellets" for the query "wheat bran".
+ */
+export function fieldScore(queryWords: string[], field: string): number {
+  const words = tokenize(field);
+  if (queryWords.length === 0 || words.length === 0) return 0;
+  const used = new Set<number>();
+  let total = 0;
+  for (const query of queryWords) {
+    let best = 0;
+    let bestIndex = -1;
+    words.forEach((word, i) => {
+      const score = used.has(i) ? 0 : wordScore(query, word);
+      if (score > best) {
+        best = score;
+        bestIndex = i;
+      }
+    });
+    if (bestIndex >= 0) used.add(bestIndex);
+    total += best;
+  }
+  const coverage = used.size / words.length;
+  return (total / queryWords.length) * (0.9 + 0.1 * coverage);
+}
+
+/**
+ * Rank feeds against a free-text query, best match first
+ */
+export function searchFeedsByText(feeds: FeedDetails[], query: string, options: FeedSearchOptions = {}): FeedMatch[] {
+  const queryWords = tokenize(query);
+  if (queryWords.length === 0) return [];
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+
+  const matches: FeedMatch[] = [];
+  for (const feed of feeds) {
+    const candidates: Array<[string, number]> = [
+      [feed.fd_name, 1],
+      ...(options.localNames?.(feed) ?? []).map((name): [string, number] => [name, 1]),
+      ...(feed.fd_category ? [[feed.fd_category, CATEGORY_WEIGHT] as [string, number]] : [])
+    ];
+    let best: FeedMatch | undefined;
+    for (const [field, weight] of candidates) {
+      const score = fieldScore(queryWords, field) * weight;
+      if (!best || score > best.score) best = { feed, score, matched: field };
+    }
+    if (best && best.score >= minScore) {
+      matches.push({ ...best, score: round(best.score, 3) });
+    }
+  }
+
+  return matches.sort((a, b) =>
+    b.score - a.score ||
+    a.feed.fd_name.length - b.feed.fd_name.length ||
+    a.feed.fd_name.localeCompare(b.feed.fd_name)
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Feed Substitutes
+ *
+ * Ranks feeds by how closely their nutrient profile matches a reference feed,
+ * so an agent can suggest a replacement when a feed is unavailable, and
+ * filters feeds by nutrient ranges and price. Prices are not part of the feed
+ * library; they come from the caller or the farm context.
+ */
+
+import { FeedDetails } from './feed-client.js';
+import { Bound, NutrientKey } from './ration-solver.js';
+import { round } from './utils.js';
+
+/** Profile nutrients: dry matter (% as fed) and nutrients (% DM) */
+export type ProfileKey = 'dm' | NutrientKey;
+
+export type NutrientRanges = Partial<Record<ProfileKey, Bound>>;
+
+const PROFILE_COLUMNS: Record<ProfileKey, keyof FeedDetails> = {
+  dm: 'fd_dm',
+  cp: 'fd_cp',
+  ndf: 'fd_ndf',
+  adf: 'fd_adf',
+  ee: 'fd_ee',
+  st: 'fd_st',
+  ca: 'fd_ca',
+  p: 'fd_p'
+};
+
+/**
+ * Differences treated as one unit of dissimilarity, in percentage points.
+ * Roughly the spread between feeds that nutritionists would call comparable.
+ */
+const SIMILARITY_SCALE: Record<ProfileKey, number> = {
+  dm: 15,
+  cp: 5,
+  ndf: 10,
+  adf: 8,
+  ee: 3,
+  st: 10,
+  ca: 0.5,
+  p: 0.3
+};
+
+/** Fewer shared nutrients than this and two feeds are not compared */
+const MIN_SHARED_NUTRIENTS = 3;
+
+export interface SubstituteOptions {
+  /** Price per kg as fed, by feed ID */
+  prices?: Map<string, number>;
+  /** Only feeds with a known price at or below this */
+  max_price_per_kg?: number;
+  feed_type?: string;
+  ranges?: NutrientRanges;
+}
+
+export interface FeedCandidate {
+  feed_id: string;
+  fd_name: string;
+  fd_type: string;
+  fd_category: string;
+  price_per_kg?: number;
+  profile: Partial<Record<ProfileKey, number>>;
+}
+
+export interface SubstituteMatch extends FeedCandidate {
+  /** 0-1, 1 is an identical profile */
+  similarity: number;
+  /** Candidate minus reference, for each shared nutrient */
+  differences: Partial<Record<ProfileKey, number>>;
+}
+
+export interface SubstituteResult<T> {
+  matches: T[];
+  /** Feeds dropped by max_price_per_kg because their price is unknown */
+  unpriced: number;
+}
+
+/**
+ * Nutrient profile of a feed; missing or non-numeric values are left out
+ */
+export function nutrientProfile(feed: FeedDetails): Partial<Record<ProfileKey, number>> {
+  const profile: Partial<Record<ProfileKey, number>> = {};
+  for (const [key, column] of Object.entries(PROFILE_COLUMNS) as Array<[ProfileKey, keyof FeedDetails]>) {
+    const raw = feed[column];
+    if (raw === null || raw === undefined || raw === '') continue;
+    const value = Number(raw);
+    if (Number.isFinite(value)) profile[key] = value;
+  }
+  return profile;
+}
+
+/**
+ * Similarity of two profiles from the scaled root-mean-square difference of
+ * their shared nutrients, or undefined when too few nutrients are shared
+ */
+export function profileSimilarity(
+  a: Partial<Record<ProfileKey, number>>,
+  b: Partial<Record<ProfileKey, number>>
+): number | undefined {
+  const shared = (Object.keys(SIMILARITY_SCALE) as ProfileKey[])
+    .filter(key => a[key] !== undefined && b[key] !== undefined);
+  if (shared.length < MIN_SHARED_NUTRIENTS) return undefined;
+  const meanSquare = shared.reduce((sum, key) => sum + ((a[key]! - b[key]!) / SIMILARITY_SCALE[key]) ** 2, 0) / shared.length;
+  return Math.exp(-Math.sqrt(meanSquare));
+}
+
+/**
+ * Whether a profile is within every range; a feed missing a ranged nutrient does not match
+ */
+export function matchesRanges(profile: Partial<Record<ProfileKey, number>>, ranges: NutrientRanges = {}): boolean {
+  return (Object.entries(ranges) as Array<[ProfileKey, Bound | undefined]>).every(([key, bound]) => {
+    if (!bound || (bound.min === undefined && bound.max === undefined)) return true;
+    const value = profile[key];
+    if (value === undefined) return false;
+    return (bound.min === undefined || value >= bound.min) && (bound.max === undefined || value <= bound.max);
+  });
+}
+
+/**
+ * Apply type, nutrient range and price filters
+ */
+function filterCandidates(feeds: FeedDetails[], options: SubstituteOptions): SubstituteResult<FeedCandidate> {
+  let unpriced = 0;
+  const matches: FeedCandidate[] = [];
+  for (const feed of feeds) {
+    if (options.feed_type && feed.fd_type !== options.feed_type) continue;
+    const profile = nutrientProfile(feed);
+    if (!matchesRanges(profile, options.ranges)) continue;
+    const price = options.prices?.get(feed.feed_id);
+    if (options.max_price_per_kg !== undefined) {
+      if (price === undefined) {
+        unpriced++;
+        continue;
+      }
+      if (price > options.max_price_per_kg) continue;
+    }
+    matches.push({
+      feed_id: feed.feed_id,
+      fd_name: feed.fd_name,
+      fd_type: feed.fd_type,
+      fd_category: feed.fd_category,
+      price_per_kg: price,
+      profile
+    });
+  }
+  return { matches, unpriced };
+}
+
+/**
+ * Rank feeds by nutrient similarity to a reference feed, most similar first
+ */
+export function findSubstitutes(
+  reference: FeedDetails,
+  feeds: FeedDetails[],
+  options: SubstituteOptions = {}
+): SubstituteResult<SubstituteMatch> {
+  const referenceProfile = nutrientProfile(reference);
+  const { matches, unpriced } = filterCandidates(feeds.filter(feed => feed.feed_id !== reference.feed_id), options);
+
+  const ranked: SubstituteMatch[] = [];
+  for (const candidate of matches) {
+    const similarity = profileSimilarity(referenceProfile, candidate.profile);
+    if (similarity === undefined) continue;
+    const differences: Partial<Record<ProfileKey, number>> = {};
+    for (const key of Object.keys(PROFILE_COLUMNS) as ProfileKey[]) {
+      if (referenceProfile[key] !== undefined && candidate.profile[key] !== undefined) {
+        differences[key] = round(candidate.profile[key]! - referenceProfile[key]!);
+      }
+    }
+    ranked.push({ ...candidate, similarity: round(similarity, 3), differences });
+  }
+
+  ranked.sort((a, b) => b.similarity - a.similarity || (a.price_per_kg ?? Infinity) - (b.price_per_kg ?? Infinity));
+  return { matches: ranked, unpriced };
+}
+
+/**
+ * Feeds within nutrient ranges and price, cheapest first (unpriced feeds last, by name)
+ */
+export function filterByNutrients(feeds: FeedDetails[], options: SubstituteOptions): SubstituteResult<FeedCandidate> {
+  const result = filterCandidates(feeds, options);
+  result.matches.sort((a, b) =>
+    (a.price_per_kg ?? Infinity) - (b.price_per_kg ?? Infinity) ||
+    a.fd_name.localeCompare(b.fd_name)
+  );
+  return result;
+}
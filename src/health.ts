@@ -0,0 +1,118 @@
+/**
+ * Health and Readiness Checks
+ *
+ * Liveness only says the process is up. Readiness probes the Ration Smart
+ * backend and looks at the circuit breaker, so an orchestrator can stop
+ * routing traffic to an instance that cannot reach its backend. Probe
+ * results are reused for a short while so frequent polling does not load
+ * the backend.
+ */
+
+import { CircuitBreaker, RationSmartApiError, requestJson } from './http.js';
+import type { FeedCacheStats } from './feed-cache.js';
+
+/** Public backend endpoint used as the probe */
+export const PROBE_PATH = '/auth/countries';
+
+export interface ProbeResult {
+  status: 'up' | 'down';
+  latency_ms: number;
+  checked_at: string;
+  error?: string;
+  /** HTTP status, when the backend answered with an error */
+  http_status?: number;
+}
+
+export interface BackendProbeOptions {
+  /** Probe timeout, ms (default 5000) */
+  timeoutMs?: number;
+  /** Time a probe result is reused, ms (default 10000) */
+  cacheMs?: number;
+}
+
+export interface ReadinessReport {
+  status: 'healthy' | 'degraded';
+  /** Why the instance is degraded; empty when healthy */
+  reasons: string[];
+  backend: ProbeResult;
+  backendCircuit: { state: string; failures: number };
+  feedCache: FeedCacheStats;
+}
+
+export class BackendProbe {
+  private last: { result: ProbeResult; at: number } | null = null;
+  private inFlight: Promise<ProbeResult> | null = null;
+  // Probes keep probing: they have their own breaker that never opens,
+  // and do not count towards the breaker guarding tool traffic
+  private breaker = new CircuitBreaker({ failureThreshold: Infinity });
+  private timeoutMs: number;
+  private cacheMs: number;
+
+  constructor(private baseUrl: string, options: BackendProbeOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.cacheMs = options.cacheMs ?? 10000;
+  }
+
+  /**
+   * Probe the backend, or return the last result if it is recent.
+   * Concurrent callers share one probe.
+   */
+  async check(): Promise<ProbeResult> {
+    if (this.last && Date.now() - this.last.at < this.cacheMs) return this.last.result;
+    if (!this.inFlight) {
+      this.inFlight = this.probe().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * The most recent probe result, however old; never starts a probe
+   */
+  lastResult(): ProbeResult | null {
+    return this.last?.result ?? null;
+  }
+
+  private async probe(): Promise<ProbeResult> {
+    const startedAt = Date.now();
+    let result: ProbeResult;
+    try {
+      await requestJson(`${this.baseUrl}${PROBE_PATH}`, {}, 'Backend probe failed', this.breaker, {
+        timeoutMs: this.timeoutMs,
+        retries: 0
+      });
+      result = { status: 'up', latency_ms: Date.now() - startedAt, checked_at: new Date(startedAt).toISOString() };
+    } catch (error) {
+      result = {
+        status: 'down',
+        latency_ms: Date.now() - startedAt,
+        checked_at: new Date(startedAt).toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+        http_status: error instanceof RationSmartApiError ? error.status : undefined
+      };
+    }
+    this.last = { result, at: Date.now() };
+    return result;
+  }
+}
+
+/**
+ * Combine the backend probe, circuit breaker and cache state into a readiness report
+ */
+export function assessReadiness(
+  backend: ProbeResult,
+  backendCircuit: { state: string; failures: number },
+  feedCache: FeedCacheStats
+): ReadinessReport {
+  const reasons: string[] = [];
+  if (backend.status === 'down') reasons.push(backend.error ?? 'Backend probe failed');
+  if (backendCircuit.state === 'open') reasons.push('Backend circuit breaker is open');
+  return {
+    status: reasons.length === 0 ? 'healthy' : 'degraded',
+    reasons,
+    backend,
+    backendCircuit,
+    feedCache
+  };
+}
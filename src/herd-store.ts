@@ -0,0 +1,172 @@
+/**
+ * Herd Store
+ *
+ * Named animal groups (e.g. "early-lactation Holstein crosses, 18 L/day")
+ * kept per tenant so diet tools can be run on a whole group by name. A
+ * group can carry its current daily ration, which feed stock forecasts use.
+ * Groups live in memory and are optionally persisted to a JSON file.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { CattleInfo } from './feed-client.js';
+
+/** A feed of a group's current ration, as-fed kg/day per head */
+export interface RationFeed {
+  feed_id: string;
+  quantity_as_fed: number;
+}
+
+export interface AnimalGroup {
+  name: string;
+  description?: string;
+  head_count: number;
+  cattle_info: CattleInfo;
+  ration?: RationFeed[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AnimalGroupUpdate {
+  name?: string;
+  description?: string;
+  head_count?: number;
+  cattle_info?: Partial<CattleInfo>;
+  /** Replaces the ration; an empty list removes it */
+  ration?: RationFeed[];
+}
+
+type HerdFile = Record<string, AnimalGroup[]>;
+
+/**
+ * Normalize a group name for lookups (case and whitespace insensitive)
+ */
+function groupKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export class HerdStore {
+  private tenants = new Map<string, Map<string, AnimalGroup>>();
+
+  /**
+   * @param filePath - Optional JSON file to persist groups to
+   */
+  constructor(private filePath?: string) {}
+
+  /**
+   * Load persisted groups, if a file is configured and exists
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    const data = JSON.parse(raw) as HerdFile;
+    this.tenants.clear();
+    for (const [tenantId, groups] of Object.entries(data)) {
+      this.tenants.set(tenantId, new Map(groups.map(g => [groupKey(g.name), g])));
+    }
+  }
+
+  list(tenantId: string): AnimalGroup[] {
+    return [...(this.tenants.get(tenantId)?.values() || [])]
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(tenantId: string, name: string): AnimalGroup | undefined {
+    return this.tenants.get(tenantId)?.get(groupKey(name));
+  }
+
+  /**
+   * Get a group or throw a descriptive error if it does not exist
+   */
+  require(tenantId: string, name: string): AnimalGroup {
+    const group = this.get(tenantId, name);
+    if (!group) {
+      throw new Error(`Animal group "${name}" not found. Use list_animal_groups to see available groups.`);
+    }
+    return group;
+  }
+
+  async create(
+    tenantId: string,
+    group: { name: string; description?: string; head_count?: number; cattle_info: CattleInfo; ration?: RationFeed[] }
+  ): Promise<AnimalGroup> {
+    const groups = this.tenantGroups(tenantId);
+    const key = groupKey(group.name);
+    if (groups.has(key)) {
+      throw new Error(`Animal group "${group.name}" already exists. Use update_animal_group to change it.`);
+    }
+    const now = new Date().toISOString();
+    const created: AnimalGroup = {
+      name: group.name.trim(),
+      description: group.description,
+      head_count: group.head_count ?? 1,
+      cattle_info: group.cattle_info,
+      ration: group.ration?.length ? group.ration : undefined,
+      created_at: now,
+      updated_at: now
+    };
+    groups.set(key, created);
+    await this.save();
+    return created;
+  }
+
+  /**
+   * Update a group. Cattle fields are merged, a ration replaces the stored
+   * one; a new name renames the group.
+   */
+  async update(tenantId: string, name: string, update: AnimalGroupUpdate): Promise<AnimalGroup> {
+    const groups = this.tenantGroups(tenantId);
+    const existing = this.require(tenantId, name);
+    const renamed = update.name !== undefined && groupKey(update.name) !== groupKey(existing.name);
+    if (renamed && groups.has(groupKey(update.name!))) {
+      throw new Error(`Animal group "${update.name}" already exists.`);
+    }
+
+    const updated: AnimalGroup = {
+      ...existing,
+      name: update.name?.trim() ?? existing.name,
+      description: update.description ?? existing.description,
+      head_count: update.head_count ?? existing.head_count,
+      cattle_info: { ...existing.cattle_info, ...update.cattle_info },
+      ration: update.ration === undefined ? existing.ration : update.ration.length > 0 ? update.ration : undefined,
+      updated_at: new Date().toISOString()
+    };
+    groups.delete(groupKey(existing.name));
+    groups.set(groupKey(updated.name), updated);
+    await this.save();
+    return updated;
+  }
+
+  async delete(tenantId: string, name: string): Promise<void> {
+    const existing = this.require(tenantId, name);
+    this.tenantGroups(tenantId).delete(groupKey(existing.name));
+    await this.save();
+  }
+
+  private tenantGroups(tenantId: string): Map<string, AnimalGroup> {
+    let groups = this.tenants.get(tenantId);
+    if (!groups) {
+      groups = new Map();
+      this.tenants.set(tenantId, groups);
+    }
+    return groups;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.filePath) return;
+    const data: HerdFile = {};
+    for (const [tenantId, groups] of this.tenants) {
+      if (groups.size > 0) {
+        data[tenantId] = [...groups.values()];
+      }
+    }
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, JSON.stringify(data, null, 2));
+  }
+}
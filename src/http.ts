@@ -0,0 +1,282 @@
+/**
+ * Backend Request Layer
+ *
+ * Every call to the Ration Smart backend goes through requestJson(), which
+ * adds a timeout, retries idempotent requests with jittered exponential
+ * backoff, and guards each backend with a circuit breaker so a dead backend
+ * fails fast instead of tying up every tool call for the full timeout.
+ * Failures are thrown as RationSmartApiError, carrying the HTTP status, the
+ * endpoint and the backend's `detail` message. Each request carries the
+ * current request ID in an X-Request-Id header, and every attempt's latency
+ * and outcome is recorded in the backend metrics.
+ */
+
+import fetch from 'node-fetch';
+import { createLogger, currentRequestId } from './logger.js';
+import { metrics } from './metrics.js';
+
+const log = createLogger('Backend');
+
+const backendRequests = metrics.counter(
+  'ration_smart_backend_requests_total',
+  'Backend request attempts by endpoint and outcome (HTTP status, timeout, network or circuit_open)'
+);
+const backendDuration = metrics.histogram(
+  'ration_smart_backend_request_duration_seconds',
+  'Backend request attempt latency by endpoint'
+);
+
+export type ApiErrorKind = 'http' | 'timeout' | 'network' | 'circuit_open';
+
+/** Statuses worth retrying: the backend or its gateway is temporarily unavailable */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export class RationSmartApiError extends Error {
+  readonly kind: ApiErrorKind;
+  /** HTTP status, when the backend answered */
+  readonly status?: number;
+  /** Method and path, e.g. "GET /feeds/123" */
+  readonly endpoint: string;
+  /** The backend's `detail` (or `message`) text, when it sent one */
+  readonly detail?: string;
+  /** Parsed error body */
+  readonly body?: unknown;
+
+  constructor(message: string, options: { kind: ApiErrorKind; endpoint: string; status?: number; detail?: string; body?: unknown }) {
+    super(message);
+    this.name = 'RationSmartApiError';
+    this.kind = options.kind;
+    this.endpoint = options.endpoint;
+    this.status = options.status;
+    this.detail = options.detail;
+    this.body = options.body;
+  }
+
+  /**
+   * Whether the backend could not be reached or is down, as opposed to rejecting the request
+   */
+  get unavailable(): boolean {
+    return this.kind !== 'http' || (this.status !== undefined && this.status >= 500);
+  }
+}
+
+export interface RequestOptions {
+  /** Per-attempt timeout, ms (default 15000) */
+  timeoutMs?: number;
+  /** Retries after the first attempt, only for idempotent requests (default 2) */
+  retries?: number;
+  /** Backoff before the first retry, ms, doubled on each retry (default 250) */
+  retryDelayMs?: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a trial request, ms (default 30000) */
+  resetTimeoutMs?: number;
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker for one backend. Opens after consecutive outages (network
+ * errors, timeouts, 5xx); after the reset timeout one trial request is let
+ * through, and its outcome closes or reopens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  }
+
+  /**
+   * Whether a request may go out now; moves an expired open circuit to half-open
+   */
+  allow(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half_open';
+      return true;
+    }
+    return this.state === 'closed';
+  }
+
+  /** Time until a trial request is allowed, ms */
+  retryAfterMs(): number {
+    return this.state === 'open' ? Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now()) : 0;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half_open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  status(): { state: CircuitState; failures: number } {
+    return { state: this.state, failures: this.failures };
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * The shared circuit breaker for a backend, by origin. Options apply when it is first created.
+ */
+export function circuitBreakerFor(baseUrl: string, options?: CircuitBreakerOptions): CircuitBreaker {
+  const key = new URL(baseUrl).origin;
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(options);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Backoff before retry n (0-based): full jitter over an exponentially growing window
+ */
+export function backoffDelay(retry: number, baseMs: number): number {
+  return Math.random() * baseMs * 2 ** retry;
+}
+
+/**
+ * Pull a readable message out of an error body: FastAPI's `detail` (a string
+ * or a list of validation errors), or `message`
+ */
+export function errorDetail(body: unknown): string | undefined {
+  if (typeof body === 'string') return body.trim() || undefined;
+  if (!body || typeof body !== 'object') return undefined;
+  const { detail, message } = body as { detail?: unknown; message?: unknown };
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) {
+    return detail
+      .map(item => (item && typeof item === 'object' && 'msg' in item
+        ? `${Array.isArray(item.loc) ? item.loc.join('.') + ': ' : ''}${item.msg}`
+        : JSON.stringify(item)))
+      .join('; ');
+  }
+  if (typeof message === 'string') return message;
+  return undefined;
+}
+
+/**
+ * Read an error response body as JSON if possible, else as text
+ */
+async function readErrorBody(response: { text?: () => Promise<string>; json?: () => Promise<unknown> }): Promise<unknown> {
+  try {
+    if (typeof response.text === 'function') {
+      const text = await response.text();
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+    if (typeof response.json === 'function') return await response.json();
+  } catch {
+    // An unreadable body leaves only the status
+  }
+  return undefined;
+}
+
+/**
+ * Endpoint with IDs replaced by placeholders, to keep metric labels bounded,
+ * e.g. "GET /feeds/3f2a…" becomes "GET /feeds/:id"
+ */
+export function endpointLabel(endpoint: string): string {
+  return endpoint.replace(/\/[^/]*\d[^/]*(?=\/|$)/g, '/:id');
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Send a request to the backend and parse the JSON response.
+ *
+ * @param label - Start of the error message, e.g. "Failed to get feed"
+ * @param breaker - Circuit breaker of the backend
+ */
+export async function requestJson<T = unknown>(
+  url: string,
+  init: { method?: string; headers?: Record<string, string>; body?: string },
+  label: string,
+  breaker: CircuitBreaker,
+  options: RequestOptions = {}
+): Promise<T> {
+  const method = init.method ?? 'GET';
+  const { pathname } = new URL(url);
+  const endpoint = `${method} ${pathname}`;
+  const timeoutMs = options.timeoutMs ?? 15000;
+  const retries = method === 'GET' ? options.retries ?? 2 : 0;
+  const retryDelayMs = options.retryDelayMs ?? 250;
+  const requestId = currentRequestId();
+  const headers = requestId ? { ...init.headers, 'X-Request-Id': requestId } : init.headers;
+  const labels = { endpoint: endpointLabel(endpoint) };
+
+  for (let attempt = 0; ; attempt++) {
+    if (!breaker.allow()) {
+      backendRequests.inc({ ...labels, outcome: 'circuit_open' });
+      throw new RationSmartApiError(
+        `${label}: backend unavailable (circuit open, retry in ${Math.ceil(breaker.retryAfterMs() / 1000)}s)`,
+        { kind: 'circuit_open', endpoint }
+      );
+    }
+
+    let error: RationSmartApiError;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const startedAt = Date.now();
+    const observe = (outcome: string) => {
+      const seconds = (Date.now() - startedAt) / 1000;
+      backendRequests.inc({ ...labels, outcome });
+      backendDuration.observe(labels, seconds);
+      log.debug('Backend request', { endpoint, outcome, attempt, duration_ms: Math.round(seconds * 1000) });
+    };
+    try {
+      const response = await fetch(url, { ...init, headers, method, signal: controller.signal });
+      observe(String(response.status));
+      if (response.ok) {
+        breaker.recordSuccess();
+        try {
+          return await response.json() as T;
+        } catch {
+          throw new RationSmartApiError(`${label}: invalid JSON response`, { kind: 'http', endpoint, status: response.status });
+        }
+      }
+      const body = await readErrorBody(response);
+      const detail = errorDetail(body);
+      error = new RationSmartApiError(
+        `${label}: ${response.status}${detail ? ` - ${detail}` : ''}`,
+        { kind: 'http', endpoint, status: response.status, detail, body }
+      );
+    } catch (caught: any) {
+      if (caught instanceof RationSmartApiError) throw caught;
+      observe(caught?.name === 'AbortError' ? 'timeout' : 'network');
+      error = caught?.name === 'AbortError'
+        ? new RationSmartApiError(`${label}: timed out after ${timeoutMs} ms`, { kind: 'timeout', endpoint })
+        : new RationSmartApiError(`${label}: ${caught?.message ?? 'network error'}`, { kind: 'network', endpoint });
+    } finally {
+      clearTimeout(timer);
+    }
+
+    // The backend answered; a client error is not an outage
+    if (error.unavailable) breaker.recordFailure();
+    else breaker.recordSuccess();
+
+    const retryable = error.kind !== 'http' || RETRYABLE_STATUSES.has(error.status!);
+    if (!retryable || attempt >= retries) throw error;
+    log.warn('Retrying backend request', { endpoint, attempt: attempt + 1, error: error.message });
+    await sleep(backoffDelay(attempt, retryDelayMs));
+  }
+}
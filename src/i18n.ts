@@ -0,0 +1,475 @@
+/**
+ * Localization
+ *
+ * Translation catalogue for tool error titles, suggestions, report labels
+ * and ration card text. English is the source language; any key missing
+ * from another language falls back to English. Technical error messages
+ * from the backend and field names in JSON output stay in English.
+ */
+
+export const SUPPORTED_LANGUAGES = ['en', 'am', 'om', 'sw'] as const;
+
+export type Language = typeof SUPPORTED_LANGUAGES[number];
+
+export const LANGUAGE_INFO: Record<Language, { name: string; script: 'latin' | 'ethiopic' }> = {
+  en: { name: 'English', script: 'latin' },
+  am: { name: 'Amharic', script: 'ethiopic' },
+  om: { name: 'Afaan Oromo', script: 'latin' },
+  sw: { name: 'Swahili', script: 'latin' }
+};
+
+const en = {
+  // Tool error titles
+  'error.evaluation': 'Diet evaluation failed',
+  'error.recommendation': 'Diet recommendation failed',
+  'error.feed_info': 'Failed to get feed information',
+  'error.feed_search': 'Feed search failed',
+  'error.group_create': 'Failed to create animal group',
+  'error.group_update': 'Failed to update animal group',
+  'error.group_delete': 'Failed to delete animal group',
+  'error.requirements': 'Requirement calculation failed',
+  'error.ration_card': 'Ration card creation failed',
+  'error.substitutes': 'Feed substitute search failed',
+  'error.price_book': 'Price book update failed',
+  'error.comparison': 'Diet comparison failed',
+  'error.profitability': 'Profitability calculation failed',
+  'error.lactation_plan': 'Lactation plan failed',
+  'error.feed_stock': 'Feed stock request failed',
+
+  // Error suggestions
+  'suggestion.context_missing': 'Pass the missing values as parameters, or call set_farm_context once to store them for this session',
+  'suggestion.group_not_found': 'Use list_animal_groups to see the groups stored for your API key',
+  'suggestion.group_exists': 'Choose a different group name or update the existing group',
+  'suggestion.country_id': 'Ensure feeds have country_id set or provide country_id explicitly',
+  'suggestion.user_id': 'User ID is automatically handled - this error should not occur',
+  'suggestion.api_shape': 'The backend response format changed - report this to the server maintainers',
+  'suggestion.evaluation_default': 'Check feed IDs are valid and API credentials are correct',
+  'suggestion.recommendation_default': 'Check feed IDs are valid, prices are provided, and API credentials are correct',
+  'suggestion.remote_feed_count': 'Provide 6-10 feeds with a mix of forage and concentrate types, or use solver: "local"',
+  'suggestion.feed_not_found': 'Verify the feed_id is correct and the feed exists in the database',
+  'suggestion.connectivity': 'Check API credentials and network connectivity',
+  'suggestion.backend_unavailable': 'The Ration Smart backend is not responding. Try again in a minute; feed lookups may still work from the cache',
+  'suggestion.search_filters': 'Check filter parameters (country_id, feed_type, feed_category) are valid UUIDs or enum values',
+  'suggestion.card_quantities': 'Give every feed a quantity_as_fed, or use source: "recommendation" to card the least-cost diet',
+  'suggestion.substitutes': 'Pass feed_id to find substitutes or nutrients to search by range, and give prices for the feeds when using max_price_per_kg',
+  'suggestion.price_missing': 'Pass price_per_kg for these feeds, or record their market prices with set_feed_prices or import_feed_prices',
+  'suggestion.price_book': 'Check each price has a feed_id, a price_per_kg of at least 0 and a date as YYYY-MM-DD',
+  'suggestion.milk_price': 'Pass milk_price_per_litre, or fat_price_per_kg and protein_price_per_kg for component pricing',
+  'suggestion.feed_stock': 'Check each lot has a feed_id, a quantity_kg of at least 0 and a purchase_date as YYYY-MM-DD',
+  'suggestion.ration_missing': "Pass rations with feeds, or store each group's ration with update_animal_group",
+  'suggestion.stock_solver': 'Use solver "local" or "auto" with stock_days, or leave out stock_days',
+
+  // Diet reports
+  'report.evaluation_title': 'Diet Evaluation',
+  'report.recommendation_title': 'Least-Cost Diet Recommendation',
+  'report.animal': 'Animal',
+  'report.milk_per_day': '{milk} kg milk/day',
+  'report.days_in_milk': '{days} DIM',
+  'report.not_lactating': 'not lactating',
+  'report.head': '{count} head',
+  'report.ration': 'Ration',
+  'report.feed': 'Feed',
+  'report.as_fed': 'As-fed (kg/day)',
+  'report.dm': 'DM (kg/day)',
+  'report.price_per_kg': 'Price/kg',
+  'report.cost': 'Cost',
+  'report.total': 'Total',
+  'report.nutrients': 'Nutrient Supply vs Requirement',
+  'report.nutrient': 'Nutrient',
+  'report.supply': 'Supply',
+  'report.requirement': 'Requirement',
+  'report.balance': 'Balance',
+  'report.status': 'Status',
+  'report.status_ok': 'OK',
+  'report.status_short': 'SHORT',
+  'report.status_over': 'OVER',
+  'report.methane': 'Methane',
+  'report.methane_production': 'Production',
+  'report.methane_yield': 'Yield',
+  'report.methane_intensity': 'Intensity',
+  'report.notes': 'Notes',
+  'report.limiting_nutrient': 'Limiting nutrient: {nutrient}',
+  'report.fallback': 'Remote optimizer unavailable ({reason}); formulated with the local solver',
+  'report.reference_cost': 'Cost per day: {cost} {currency} (1 {local} = {rate} {currency}, rate of {as_of})',
+  'report.price_book': 'Prices per kg from the price book: {prices}',
+  'report.sensitivity': 'Price Sensitivity',
+  'report.in_diet': 'In diet (kg/day)',
+  'report.cost_per_litre': 'Cost/litre',
+  'report.break_even': '{feed} leaves the least-cost diet above {price} per kg',
+  'report.always_in_diet': '{feed} stays in the least-cost diet at every price tried',
+  'report.never_in_diet': '{feed} is not in the least-cost diet at any price tried',
+
+  // Units
+  'unit.kg_day': 'kg/day',
+  'unit.mcal_day': 'Mcal/day',
+  'unit.g_day': 'g/day',
+  'unit.pct_dm': '% DM',
+
+  // Nutrients
+  'nutrient.dm_intake': 'Dry matter intake',
+  'nutrient.milk_supported': 'Milk supported',
+  'nutrient.energy_balance': 'Energy balance',
+  'nutrient.protein_balance': 'Protein balance',
+  'nutrient.calcium_balance': 'Calcium balance',
+  'nutrient.phosphorus_balance': 'Phosphorus balance',
+  'nutrient.nel': 'Net energy, NEL',
+  'nutrient.cp': 'Crude protein',
+  'nutrient.ndf': 'NDF',
+  'nutrient.adf': 'ADF',
+  'nutrient.ee': 'Fat (EE)',
+  'nutrient.st': 'Starch',
+  'nutrient.ca': 'Calcium',
+  'nutrient.p': 'Phosphorus',
+  'nutrient.forage': 'Forage',
+
+  // Ration card
+  'card.title': 'RATION CARD',
+  'card.cost_day': 'Cost/day',
+  'card.cost_per_day': 'Cost per day',
+  'card.cost_per_litre': 'Cost per litre of milk',
+  'card.milk': 'Milk',
+  'card.advice': 'Advice',
+  'card.more_feeds': '+ {count} more feeds',
+  'card.short': '{nutrient} is short by {amount}. Review the ration with your extension officer.',
+  'card.over': '{nutrient} is over the limit by {amount}.',
+  'card.footer': 'Ration Smart - dairy ration planning'
+};
+
+export type MessageKey = keyof typeof en;
+
+type Catalogue = Partial<Record<MessageKey, string>>;
+
+const am: Catalogue = {
+  'error.evaluation': 'የአመጋገብ ግምገማ አልተሳካም',
+  'error.recommendation': 'የአመጋገብ ምክረ ሀሳብ አልተሳካም',
+  'error.feed_info': 'የመኖ መረጃ ማግኘት አልተቻለም',
+  'error.feed_search': 'የመኖ ፍለጋ አልተሳካም',
+  'error.group_create': 'የእንስሳት ቡድን መፍጠር አልተቻለም',
+  'error.group_update': 'የእንስሳት ቡድንን ማዘመን አልተቻለም',
+  'error.group_delete': 'የእንስሳት ቡድንን መሰረዝ አልተቻለም',
+  'error.requirements': 'የፍላጎት ስሌት አልተሳካም',
+  'error.ration_card': 'የራሽን ካርድ መፍጠር አልተሳካም',
+  'error.substitutes': 'የመኖ ምትክ ፍለጋ አልተሳካም',
+  'error.price_book': 'የዋጋ መዝገብ ማዘመን አልተሳካም',
+  'error.comparison': 'የአመጋገብ ንጽጽር አልተሳካም',
+  'error.profitability': 'የትርፋማነት ስሌት አልተሳካም',
+  'error.lactation_plan': 'የወተት ዘመን እቅድ አልተሳካም',
+  'error.feed_stock': 'የመኖ ክምችት ጥያቄ አልተሳካም',
+
+  'suggestion.context_missing': 'የጎደሉትን እሴቶች እንደ ግቤት ያስገቡ፣ ወይም ለዚህ ክፍለ ጊዜ ለማስቀመጥ set_farm_context አንድ ጊዜ ይጠቀሙ',
+  'suggestion.group_not_found': 'ለኤፒአይ ቁልፍዎ የተቀመጡትን ቡድኖች ለማየት list_animal_groups ይጠቀሙ',
+  'suggestion.group_exists': 'የተለየ የቡድን ስም ይምረጡ ወይም ያለውን ቡድን ያዘምኑ',
+  'suggestion.country_id': 'መኖዎቹ country_id እንዳላቸው ያረጋግጡ ወይም country_id በግልጽ ያስገቡ',
+  'suggestion.user_id': 'የተጠቃሚ መታወቂያ በራስ-ሰር ይስተናገዳል - ይህ ስህተት መከሰት አልነበረበትም',
+  'suggestion.api_shape': 'የአገልጋዩ ምላሽ ቅርጸት ተቀይሯል - ለአገልጋዩ ጠባቂዎች ያሳውቁ',
+  'suggestion.evaluation_default': 'የመኖ መለያዎች እና የኤፒአይ ምስክርነቶች ትክክል መሆናቸውን ያረጋግጡ',
+  'suggestion.recommendation_default': 'የመኖ መለያዎች ትክክል መሆናቸውን፣ ዋጋዎች መሰጠታቸውን እና የኤፒአይ ምስክርነቶች ትክክል መሆናቸውን ያረጋግጡ',
+  'suggestion.remote_feed_count': 'የሻካራ እና የተጠናከረ መኖ ድብልቅ የሆኑ 6-10 መኖዎችን ያቅርቡ፣ ወይም solver: "local" ይጠቀሙ',
+  'suggestion.feed_not_found': 'feed_id ትክክል መሆኑን እና መኖው በመረጃ ቋቱ ውስጥ መኖሩን ያረጋግጡ',
+  'suggestion.connectivity': 'የኤፒአይ ምስክርነቶችን እና የኔትወርክ ግንኙነትን ያረጋግጡ',
+  'suggestion.backend_unavailable': 'የራሽን ስማርት ሰርቨር ምላሽ እየሰጠ አይደለም። ከአንድ ደቂቃ በኋላ እንደገና ይሞክሩ፤ የመኖ ፍለጋ ከተቀመጠው መረጃ ሊሰራ ይችላል',
+  'suggestion.search_filters': 'የማጣሪያ ግቤቶች (country_id, feed_type, feed_category) ትክክለኛ UUID ወይም የተፈቀዱ እሴቶች መሆናቸውን ያረጋግጡ',
+  'suggestion.card_quantities': 'ለእያንዳንዱ መኖ quantity_as_fed ይስጡ፣ ወይም ዝቅተኛ ወጪ ላለው አመጋገብ source: "recommendation" ይጠቀሙ',
+  'suggestion.substitutes': 'ምትክ ለማግኘት feed_id ወይም በወሰን ለመፈለግ nutrients ይስጡ፤ max_price_per_kg ሲጠቀሙ የመኖዎቹን ዋጋ ያካትቱ',
+  'suggestion.price_missing': 'ለእነዚህ መኖዎች price_per_kg ይስጡ፣ ወይም የገበያ ዋጋቸውን በset_feed_prices ወይም import_feed_prices ይመዝግቡ',
+  'suggestion.price_book': 'እያንዳንዱ ዋጋ feed_id፣ ከ0 ያላነሰ price_per_kg እና YYYY-MM-DD ቀን እንዳለው ያረጋግጡ',
+  'suggestion.milk_price': 'milk_price_per_litre ይስጡ፣ ወይም ለይዘት ዋጋ fat_price_per_kg እና protein_price_per_kg ይስጡ',
+  'suggestion.feed_stock': 'እያንዳንዱ ክምችት feed_id፣ ከ0 ያላነሰ quantity_kg እና YYYY-MM-DD purchase_date እንዳለው ያረጋግጡ',
+  'suggestion.ration_missing': 'rations ከመኖዎች ጋር ይስጡ፣ ወይም የእያንዳንዱን ቡድን ራሽን በupdate_animal_group ያስቀምጡ',
+  'suggestion.stock_solver': 'ከstock_days ጋር solver "local" ወይም "auto" ይጠቀሙ፣ ወይም stock_days ይተዉ',
+
+  'report.evaluation_title': 'የአመጋገብ ግምገማ',
+  'report.recommendation_title': 'ዝቅተኛ ወጪ ያለው የአመጋገብ ምክረ ሀሳብ',
+  'report.animal': 'እንስሳ',
+  'report.milk_per_day': '{milk} ኪ.ግ ወተት/ቀን',
+  'report.days_in_milk': '{days} የወተት ቀናት',
+  'report.not_lactating': 'የማታልብ',
+  'report.head': '{count} ራስ',
+  'report.ration': 'ራሽን',
+  'report.feed': 'መኖ',
+  'report.as_fed': 'እንደቀረበ (ኪ.ግ/ቀን)',
+  'report.dm': 'ደረቅ ነገር (ኪ.ግ/ቀን)',
+  'report.price_per_kg': 'ዋጋ/ኪ.ግ',
+  'report.cost': 'ወጪ',
+  'report.total': 'ድምር',
+  'report.nutrients': 'የንጥረ ነገር አቅርቦት ከፍላጎት ጋር',
+  'report.nutrient': 'ንጥረ ነገር',
+  'report.supply': 'አቅርቦት',
+  'report.requirement': 'ፍላጎት',
+  'report.balance': 'ሚዛን',
+  'report.status': 'ሁኔታ',
+  'report.status_ok': 'በቂ',
+  'report.status_short': 'ጎድሏል',
+  'report.status_over': 'በልጧል',
+  'report.methane': 'ሚቴን',
+  'report.methane_production': 'ምርት',
+  'report.methane_yield': 'ምርታማነት',
+  'report.methane_intensity': 'ጥንካሬ',
+  'report.notes': 'ማስታወሻዎች',
+  'report.limiting_nutrient': 'ገዳቢ ንጥረ ነገር: {nutrient}',
+  'report.fallback': 'የርቀት አመቻቹ አይገኝም ({reason})፤ በአካባቢው ፈቺ ተቀምሯል',
+  'report.reference_cost': 'የቀን ወጪ: {cost} {currency} (1 {local} = {rate} {currency}፣ የ{as_of} ምንዛሪ)',
+  'report.price_book': 'ከዋጋ መዝገቡ የተወሰዱ የኪሎ ዋጋዎች: {prices}',
+  'report.sensitivity': 'የዋጋ ተጽዕኖ',
+  'report.in_diet': 'በአመጋገቡ ውስጥ (ኪ.ግ/ቀን)',
+  'report.cost_per_litre': 'ወጪ/ሊትር',
+  'report.break_even': '{feed} ዋጋው በኪሎ ከ{price} ሲበልጥ ከዝቅተኛ ወጪ አመጋገቡ ይወጣል',
+  'report.always_in_diet': '{feed} በተሞከሩት ዋጋዎች ሁሉ በዝቅተኛ ወጪ አመጋገቡ ውስጥ ይቆያል',
+  'report.never_in_diet': '{feed} በተሞከሩት ዋጋዎች በአንዱም በዝቅተኛ ወጪ አመጋገቡ ውስጥ አይገባም',
+
+  'unit.kg_day': 'ኪ.ግ/ቀን',
+  'unit.mcal_day': 'Mcal/ቀን',
+  'unit.g_day': 'ግ/ቀን',
+
+  'nutrient.dm_intake': 'የደረቅ ነገር ቅበላ',
+  'nutrient.milk_supported': 'የሚደገፍ ወተት',
+  'nutrient.energy_balance': 'የኃይል ሚዛን',
+  'nutrient.protein_balance': 'የፕሮቲን ሚዛን',
+  'nutrient.calcium_balance': 'የካልሲየም ሚዛን',
+  'nutrient.phosphorus_balance': 'የፎስፈረስ ሚዛን',
+  'nutrient.nel': 'የተጣራ ኃይል (NEL)',
+  'nutrient.cp': 'ጥሬ ፕሮቲን',
+  'nutrient.ee': 'ስብ (EE)',
+  'nutrient.st': 'ስታርች',
+  'nutrient.ca': 'ካልሲየም',
+  'nutrient.p': 'ፎስፈረስ',
+  'nutrient.forage': 'ሻካራ መኖ',
+
+  'card.title': 'የራሽን ካርድ',
+  'card.cost_day': 'ወጪ/ቀን',
+  'card.cost_per_day': 'የቀን ወጪ',
+  'card.cost_per_litre': 'የአንድ ሊትር ወተት ወጪ',
+  'card.milk': 'ወተት',
+  'card.advice': 'ምክር',
+  'card.more_feeds': '+ {count} ተጨማሪ መኖዎች',
+  'card.short': '{nutrient} በ{amount} ጎድሏል። ራሽኑን ከኤክስቴንሽን ባለሙያዎ ጋር ይገምግሙ።',
+  'card.over': '{nutrient} ከገደቡ በ{amount} በልጧል።'
+};
+
+const om: Catalogue = {
+  'error.evaluation': 'Madaallii nyaataa hin milkoofne',
+  'error.recommendation': 'Gorsi nyaataa hin milkoofne',
+  'error.feed_info': "Odeeffannoo nyaata horii argachuun hin danda'amne",
+  'error.feed_search': 'Barbaachi nyaata horii hin milkoofne',
+  'error.group_create': "Garee horii uumuun hin danda'amne",
+  'error.group_update': "Garee horii haaromsuun hin danda'amne",
+  'error.group_delete': "Garee horii haquun hin danda'amne",
+  'error.requirements': 'Herregni fedhii hin milkoofne',
+  'error.ration_card': 'Kaardii raashinii uumuun hin milkoofne',
+  'error.substitutes': "Barbaacha bakka bu'aa nyaata horii hin milkoofne",
+  'error.price_book': 'Galmee gatii haaromsuun hin milkoofne',
+  'error.comparison': 'Madaallii nyaataa wal bira qabuun hin milkoofne',
+  'error.profitability': "Herregni bu'aa hin milkoofne",
+  'error.lactation_plan': 'Karoorri yeroo elmaa hin milkoofne',
+  'error.feed_stock': 'Gaaffiin kuusaa nyaata horii hin milkoofne',
+
+  'suggestion.context_missing': "Gatiiwwan hir'atan akka paraameetaraatti galchi, ykn yeroo kanaaf kuusuuf set_farm_context al tokko fayyadami",
+  'suggestion.group_not_found': 'Gareewwan furtuu API keetiif kuufaman ilaaluuf list_animal_groups fayyadami',
+  'suggestion.group_exists': 'Maqaa garee biraa filadhu ykn garee jiru haaromsi',
+  'suggestion.country_id': 'Nyaanni horii country_id akka qabu mirkaneessi ykn country_id ifatti kenni',
+  'suggestion.user_id': "Eenyummaan fayyadamaa ofumaan qindaa'a - dogoggorri kun uumamuu hin qabu",
+  'suggestion.api_shape': 'Bifni deebii sarvarii jijjiirameera - kana eegdota sarvarichaatti gabaasi',
+  'suggestion.evaluation_default': "Eenyummaan nyaata horii fi ragaaleen API sirrii ta'uu mirkaneessi",
+  'suggestion.recommendation_default': "Eenyummaan nyaata horii sirrii ta'uu, gatiin kennamuu fi ragaaleen API sirrii ta'uu mirkaneessi",
+  'suggestion.remote_feed_count': 'Nyaata horii 6-10 makaa marga fi nyaata cimaa qabu kenni, ykn solver: "local" fayyadami',
+  'suggestion.feed_not_found': "feed_id sirrii ta'uu fi nyaanni horii kuusdeetaa keessa jiraachuu mirkaneessi",
+  'suggestion.connectivity': 'Ragaalee API fi walqunnamtii neetworkii mirkaneessi',
+  'suggestion.backend_unavailable': "Sarvarri Ration Smart deebii hin kennu. Daqiiqaa tokko booda irra deebi'ii yaali; barbaachi nyaata horii kuusaa irraa hojjechuu danda'a",
+  'suggestion.search_filters': "Paraameetaroonni calallii (country_id, feed_type, feed_category) UUID sirrii ykn gatii hayyamame ta'uu mirkaneessi",
+  'suggestion.card_quantities': 'Nyaata horii hundaaf quantity_as_fed kenni, ykn nyaata baasii xiqqaa qabuuf source: "recommendation" fayyadami',
+  'suggestion.substitutes': "Bakka bu'aa argachuuf feed_id, daangaan barbaaduuf nutrients kenni; max_price_per_kg yoo fayyadamte gatii nyaata horii dabali",
+  'suggestion.price_missing': 'Nyaata horii kanneeniif price_per_kg kenni, yookaan gatii gabaa isaanii set_feed_prices ykn import_feed_prices fayyadamii galmeessi',
+  'suggestion.price_book': 'Gatiin hundi feed_id, price_per_kg 0 ol fi guyyaa YYYY-MM-DD qabaachuu mirkaneessi',
+  'suggestion.milk_price': 'milk_price_per_litre kenni, yookaan gatii qabiyyeetiif fat_price_per_kg fi protein_price_per_kg kenni',
+  'suggestion.feed_stock': 'Kuusaan hundi feed_id, quantity_kg 0 ol fi purchase_date YYYY-MM-DD qabaachuu mirkaneessi',
+  'suggestion.ration_missing': 'rations nyaata wajjin kenni, yookaan nyaata garee tokkoon tokkoo update_animal_group tiin kuusi',
+  'suggestion.stock_solver': 'stock_days wajjin solver "local" ykn "auto" fayyadami, yookaan stock_days dhiisi',
+
+  'report.evaluation_title': 'Madaallii Nyaataa',
+  'report.recommendation_title': 'Gorsa Nyaataa Baasii Xiqqaa',
+  'report.animal': 'Horii',
+  'report.milk_per_day': 'aannan {milk} kg/guyyaa',
+  'report.days_in_milk': 'guyyaa elmaa {days}',
+  'report.not_lactating': 'kan hin elmamne',
+  'report.head': 'mataa {count}',
+  'report.ration': 'Raashinii',
+  'report.feed': 'Nyaata horii',
+  'report.as_fed': 'Akka kenname (kg/guyyaa)',
+  'report.dm': 'Qabiyyee gogaa (kg/guyyaa)',
+  'report.price_per_kg': 'Gatii/kg',
+  'report.cost': 'Baasii',
+  'report.total': 'Waliigala',
+  'report.nutrients': 'Dhiyeessii Nyaata Qaamaa fi Fedhii',
+  'report.nutrient': 'Nyaata qaamaa',
+  'report.supply': 'Dhiyeessii',
+  'report.requirement': 'Fedhii',
+  'report.balance': 'Madaallii',
+  'report.status': 'Haala',
+  'report.status_ok': 'Gahaa',
+  'report.status_short': "HIR'ATAA",
+  'report.status_over': 'CAALAA',
+  'report.methane': 'Miteenii',
+  'report.methane_production': 'Oomisha',
+  'report.methane_yield': 'Hamma',
+  'report.methane_intensity': 'Cimina',
+  'report.notes': 'Yaadannoo',
+  'report.limiting_nutrient': 'Nyaata qaamaa daangessu: {nutrient}',
+  'report.fallback': "Optimaayizarri fagoo hin argamu ({reason}); furmaata naannootiin qophaa'eera",
+  'report.reference_cost': 'Baasii guyyaa: {cost} {currency} (1 {local} = {rate} {currency}, gatii {as_of})',
+  'report.price_book': 'Gatii kiiloo galmee gatii irraa: {prices}',
+  'report.sensitivity': 'Dhiibbaa Gatii',
+  'report.in_diet': 'Nyaata keessa (kg/guyyaa)',
+  'report.cost_per_litre': 'Baasii/liitira',
+  'report.break_even': "{feed} gatiin kiiloo {price} yoo caale nyaata baasii xiqqaa keessaa ba'a",
+  'report.always_in_diet': '{feed} gatii yaalame hunda irratti nyaata baasii xiqqaa keessa tura',
+  'report.never_in_diet': '{feed} gatii yaalame kamiin iyyuu nyaata baasii xiqqaa keessa hin seenu',
+
+  'unit.kg_day': 'kg/guyyaa',
+  'unit.mcal_day': 'Mcal/guyyaa',
+  'unit.g_day': 'g/guyyaa',
+
+  'nutrient.dm_intake': 'Fudhatama qabiyyee gogaa',
+  'nutrient.milk_supported': 'Aannan deeggaramu',
+  'nutrient.energy_balance': 'Madaallii anniisaa',
+  'nutrient.protein_balance': 'Madaallii pirootiinii',
+  'nutrient.calcium_balance': 'Madaallii kaalsiyeemii',
+  'nutrient.phosphorus_balance': 'Madaallii foosfarasii',
+  'nutrient.nel': 'Anniisaa qulqulluu (NEL)',
+  'nutrient.cp': 'Pirootiinii dheedhii',
+  'nutrient.ee': 'Coomaa (EE)',
+  'nutrient.st': 'Istaarchii',
+  'nutrient.ca': 'Kaalsiyeemii',
+  'nutrient.p': 'Foosfarasii',
+  'nutrient.forage': 'Marga',
+
+  'card.title': 'KAARDII RAASHINII',
+  'card.cost_day': 'Baasii/guyyaa',
+  'card.cost_per_day': 'Baasii guyyaatti',
+  'card.cost_per_litre': 'Baasii aannan litira tokkoof',
+  'card.milk': 'Aannan',
+  'card.advice': 'Gorsa',
+  'card.more_feeds': '+ nyaata horii dabalataa {count}',
+  'card.short': "{nutrient} {amount}n hir'ateera. Raashinicha ogeessa ekisteenshinii keessan waliin ilaalaa.",
+  'card.over': '{nutrient} daangaa {amount}n caaleera.',
+  'card.footer': 'Ration Smart - karoora raashinii loon aannanii'
+};
+
+const sw: Catalogue = {
+  'error.evaluation': 'Tathmini ya lishe imeshindwa',
+  'error.recommendation': 'Pendekezo la lishe limeshindwa',
+  'error.feed_info': 'Imeshindwa kupata taarifa za chakula cha mifugo',
+  'error.feed_search': 'Utafutaji wa chakula cha mifugo umeshindwa',
+  'error.group_create': 'Imeshindwa kuunda kundi la mifugo',
+  'error.group_update': 'Imeshindwa kusasisha kundi la mifugo',
+  'error.group_delete': 'Imeshindwa kufuta kundi la mifugo',
+  'error.requirements': 'Hesabu ya mahitaji imeshindwa',
+  'error.ration_card': 'Imeshindwa kuunda kadi ya mgao wa chakula',
+  'error.substitutes': 'Utafutaji wa chakula mbadala umeshindwa',
+  'error.price_book': 'Kusasisha kitabu cha bei kumeshindwa',
+  'error.comparison': 'Ulinganisho wa lishe umeshindwa',
+  'error.profitability': 'Hesabu ya faida imeshindwa',
+  'error.lactation_plan': 'Mpango wa kipindi cha kukamua umeshindwa',
+  'error.feed_stock': 'Ombi la akiba ya chakula cha mifugo limeshindwa',
+
+  'suggestion.context_missing': 'Weka thamani zinazokosekana kama vigezo, au tumia set_farm_context mara moja kuzihifadhi kwa kipindi hiki',
+  'suggestion.group_not_found': 'Tumia list_animal_groups kuona makundi yaliyohifadhiwa kwa ufunguo wako wa API',
+  'suggestion.group_exists': 'Chagua jina tofauti la kundi au sasisha kundi lililopo',
+  'suggestion.country_id': 'Hakikisha vyakula vina country_id au toa country_id moja kwa moja',
+  'suggestion.user_id': 'Kitambulisho cha mtumiaji hushughulikiwa kiotomatiki - hitilafu hii haipaswi kutokea',
+  'suggestion.api_shape': 'Muundo wa majibu ya seva umebadilika - ripoti hili kwa wasimamizi wa seva',
+  'suggestion.evaluation_default': 'Hakikisha vitambulisho vya vyakula na vitambulisho vya API ni sahihi',
+  'suggestion.recommendation_default': 'Hakikisha vitambulisho vya vyakula ni sahihi, bei zimetolewa, na vitambulisho vya API ni sahihi',
+  'suggestion.remote_feed_count': 'Toa vyakula 6-10 vyenye mchanganyiko wa malisho na vyakula vya nyongeza, au tumia solver: "local"',
+  'suggestion.feed_not_found': 'Hakikisha feed_id ni sahihi na chakula kipo kwenye hifadhidata',
+  'suggestion.connectivity': 'Angalia vitambulisho vya API na muunganisho wa mtandao',
+  'suggestion.backend_unavailable': 'Seva ya Ration Smart haijibu. Jaribu tena baada ya dakika moja; utafutaji wa vyakula bado unaweza kufanya kazi kutoka kwenye akiba',
+  'suggestion.search_filters': 'Hakikisha vigezo vya kuchuja (country_id, feed_type, feed_category) ni UUID halali au thamani zinazoruhusiwa',
+  'suggestion.card_quantities': 'Kipe kila chakula quantity_as_fed, au tumia source: "recommendation" kwa lishe ya gharama nafuu',
+  'suggestion.substitutes': 'Toa feed_id kupata mbadala au nutrients kutafuta kwa viwango, na bei za vyakula unapotumia max_price_per_kg',
+  'suggestion.price_missing': 'Toa price_per_kg kwa vyakula hivi, au rekodi bei zao za soko kwa set_feed_prices au import_feed_prices',
+  'suggestion.price_book': 'Hakikisha kila bei ina feed_id, price_per_kg isiyopungua 0 na tarehe kama YYYY-MM-DD',
+  'suggestion.milk_price': 'Toa milk_price_per_litre, au fat_price_per_kg na protein_price_per_kg kwa bei ya viambato',
+  'suggestion.feed_stock': 'Hakikisha kila akiba ina feed_id, quantity_kg isiyopungua 0 na purchase_date kama YYYY-MM-DD',
+  'suggestion.ration_missing': 'Toa rations pamoja na vyakula, au hifadhi mgao wa kila kundi kwa update_animal_group',
+  'suggestion.stock_solver': 'Tumia solver "local" au "auto" pamoja na stock_days, au acha stock_days',
+
+  'report.evaluation_title': 'Tathmini ya Lishe',
+  'report.recommendation_title': 'Pendekezo la Lishe ya Gharama Nafuu',
+  'report.animal': 'Mnyama',
+  'report.milk_per_day': 'maziwa kg {milk}/siku',
+  'report.days_in_milk': 'siku {days} za kukamuliwa',
+  'report.not_lactating': 'hakamuliwi',
+  'report.head': 'mifugo {count}',
+  'report.ration': 'Mgao wa chakula',
+  'report.feed': 'Chakula',
+  'report.as_fed': 'Kama kilivyolishwa (kg/siku)',
+  'report.dm': 'Maada kavu (kg/siku)',
+  'report.price_per_kg': 'Bei/kg',
+  'report.cost': 'Gharama',
+  'report.total': 'Jumla',
+  'report.nutrients': 'Ugavi wa Virutubisho dhidi ya Mahitaji',
+  'report.nutrient': 'Kirutubisho',
+  'report.supply': 'Ugavi',
+  'report.requirement': 'Mahitaji',
+  'report.balance': 'Salio',
+  'report.status': 'Hali',
+  'report.status_ok': 'Sawa',
+  'report.status_short': 'UPUNGUFU',
+  'report.status_over': 'ZIADA',
+  'report.methane_production': 'Uzalishaji',
+  'report.methane_yield': 'Kiwango',
+  'report.methane_intensity': 'Ukali',
+  'report.notes': 'Maelezo',
+  'report.limiting_nutrient': 'Kirutubisho kinachozuia: {nutrient}',
+  'report.fallback': 'Kiboreshaji cha mbali hakipatikani ({reason}); imeandaliwa kwa kitatuzi cha ndani',
+  'report.reference_cost': 'Gharama kwa siku: {cost} {currency} (1 {local} = {rate} {currency}, kiwango cha {as_of})',
+  'report.price_book': 'Bei kwa kilo kutoka kitabu cha bei: {prices}',
+  'report.sensitivity': 'Unyeti wa Bei',
+  'report.in_diet': 'Katika lishe (kg/siku)',
+  'report.cost_per_litre': 'Gharama/lita',
+  'report.break_even': '{feed} inatoka kwenye lishe ya gharama nafuu bei ikizidi {price} kwa kilo',
+  'report.always_in_diet': '{feed} inabaki kwenye lishe ya gharama nafuu kwa kila bei iliyojaribiwa',
+  'report.never_in_diet': '{feed} haimo kwenye lishe ya gharama nafuu kwa bei yoyote iliyojaribiwa',
+
+  'unit.kg_day': 'kg/siku',
+  'unit.mcal_day': 'Mcal/siku',
+  'unit.g_day': 'g/siku',
+
+  'nutrient.dm_intake': 'Ulaji wa maada kavu',
+  'nutrient.milk_supported': 'Maziwa yanayowezeshwa',
+  'nutrient.energy_balance': 'Salio la nishati',
+  'nutrient.protein_balance': 'Salio la protini',
+  'nutrient.calcium_balance': 'Salio la kalsiamu',
+  'nutrient.phosphorus_balance': 'Salio la fosforasi',
+  'nutrient.nel': 'Nishati halisi (NEL)',
+  'nutrient.cp': 'Protini ghafi',
+  'nutrient.ee': 'Mafuta (EE)',
+  'nutrient.st': 'Wanga',
+  'nutrient.ca': 'Kalsiamu',
+  'nutrient.p': 'Fosforasi',
+  'nutrient.forage': 'Malisho',
+
+  'card.title': 'KADI YA MGAO WA CHAKULA',
+  'card.cost_day': 'Gharama/siku',
+  'card.cost_per_day': 'Gharama kwa siku',
+  'card.cost_per_litre': 'Gharama kwa lita ya maziwa',
+  'card.milk': 'Maziwa',
+  'card.advice': 'Ushauri',
+  'card.more_feeds': '+ vyakula {count} zaidi',
+  'card.short': '{nutrient} imepungua kwa {amount}. Kagua mgao wa chakula pamoja na afisa ugani wako.',
+  'card.over': '{nutrient} imezidi kiwango kwa {amount}.',
+  'card.footer': "Ration Smart - mpango wa mgao wa chakula kwa ng'ombe wa maziwa"
+};
+
+const CATALOGUES: Record<Language, Catalogue> = { en, am, om, sw };
+
+/**
+ * Translate a message, falling back to English for missing keys.
+ * Placeholders such as {name} are replaced from params.
+ */
+export function t(language: Language, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = CATALOGUES[language][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
@@ -1,21 +1,124 @@
 import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { FeedFormulationClient, CattleInfo, FeedWithPrice, FeedEvaluationItem } from './feed-client.js';
+import { FeedFormulationClient, FeedClientOptions, CattleInfo, FeedWithPrice } from './feed-client.js';
+import {
+  FarmContext,
+  EvaluationFeed,
+  RecommendationFeed,
+  createFarmContext,
+  updateFarmContext,
+  clearFarmContext,
+  pickCattleFields,
+  resolveCattleInfo,
+  resolveEvaluationFeeds,
+  resolveRecommendationFeeds
+} from './farm-context.js';
+import { SessionStore, fingerprintCredential } from './session-store.js';
+import { HerdStore, AnimalGroup, RationFeed } from './herd-store.js';
+import { mapWithConcurrency, extractEvaluationMetrics, summarizeHerd } from './batch.js';
+import { applyVariant, comparisonTable, metricDeltas, scenarioMetrics } from './diet-comparison.js';
+import { PriceSweep, analyzePriceSensitivity } from './price-sensitivity.js';
+import { DEFAULT_LACTATION_DAYS, calculateProfitability, requireMilkPrice } from './profitability.js';
+import { DEFAULT_DRY_DAYS, PhaseRation, planLactation, totalPlanFeeds } from './lactation-plan.js';
+import {
+  RationConstraints,
+  SolverFeed,
+  defaultRationConstraints,
+  mergeRationConstraints,
+  solveLeastCostRation
+} from './ration-solver.js';
+import { calculateRequirements } from './requirements.js';
+import {
+  optionalCattleInfoShape,
+  rationConstraintsSchema,
+  evaluateDietOutputShape,
+  dietRecommendationOutputShape,
+  reportFormatSchema,
+  languageSchema,
+  endUserIdSchema,
+  currencySchema,
+  priceLookupShape,
+  priceSensitivityInputSchema,
+  nutrientRangesSchema,
+  DietRecommendationOutput
+} from './tool-schemas.js';
+import { ReportModel, buildEvaluationReport, buildRecommendationReport, renderReport } from './report.js';
+import { costPerLitre, rationCardAdvice, rationCardLanguage, renderRationCard } from './ration-card.js';
+import { FeedNameCatalogue } from './feed-names.js';
+import { FeedCache } from './feed-cache.js';
+import { RationSmartApiError, circuitBreakerFor } from './http.js';
+import { searchFeedsByText } from './feed-search.js';
+import { RateLimiter, LimitIdentity, parseToolCosts, requestCost } from './rate-limit.js';
+import { UsageStore, UsageQuery, MemoryUsageStore, JsonlUsageStore, ToolCall, createToolMeter, summarizeUsage, usageToCsv } from './usage.js';
+import { Organization, OrganizationDirectory, DEFAULT_ORGANIZATION } from './organizations.js';
+import { createLogger, isLogLevel, setLogLevel, withRequestId } from './logger.js';
+import { metrics } from './metrics.js';
+import { BackendProbe, assessReadiness } from './health.js';
+import { filterByNutrients, findSubstitutes } from './feed-substitutes.js';
+import { Language, t } from './i18n.js';
+import { round } from './utils.js';
+import { ExchangeRates } from './currency.js';
+import { PriceBook, parsePriceCsv } from './price-book.js';
+import { FeedInventory, forecastStock, stockLimits } from './feed-inventory.js';
 
 const app = express();
 
+const log = createLogger('MCP');
+const toolLog = createLogger('MCP Tool');
+const httpLog = createLogger('HTTP');
+const usageLog = createLogger('Usage');
+const feedCacheLog = createLogger('FeedCache');
+
+const httpRequests = metrics.counter('ration_smart_http_requests_total', 'HTTP requests by method, route and status');
+const toolCalls = metrics.counter('ration_smart_tool_calls_total', 'MCP tool calls by tool and outcome (success or error)');
+const toolDuration = metrics.histogram('ration_smart_tool_call_duration_seconds', 'MCP tool call latency by tool');
+const rateLimited = metrics.counter('ration_smart_rate_limited_requests_total', 'Requests rejected by rate limits and quotas, by scope and reason');
+
+/** Caller-supplied request IDs are reused only if they look like IDs */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+/** Routes polled by orchestrators and scrapers, logged at debug level */
+const QUIET_ROUTES = new Set(['/health', '/health/live', '/health/ready', '/metrics']);
+
 // Middleware
 app.use(express.json());
+if (process.env.TRUST_PROXY) {
+  // Behind a reverse proxy, take the client IP from X-Forwarded-For
+  app.set('trust proxy', /^\d+$/.test(process.env.TRUST_PROXY) ? Number(process.env.TRUST_PROXY) : process.env.TRUST_PROXY);
+}
 app.use(cors({
   origin: process.env.ALLOWED_ORIGINS?.split(',') || '*',
-  exposedHeaders: ['Mcp-Session-Id'],
-  allowedHeaders: ['Content-Type', 'mcp-session-id', 'Authorization']
+  exposedHeaders: ['Mcp-Session-Id', 'Retry-After', 'X-Request-Id'],
+  allowedHeaders: ['Content-Type', 'mcp-session-id', 'Authorization', 'X-Request-Id']
 }));
 
+// Request ID (the caller's X-Request-Id, or a new one) for logs and backend calls, plus access log
+app.use((req, res, next) => {
+  const incoming = req.get('X-Request-Id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const startedAt = Date.now();
+  res.setHeader('X-Request-Id', requestId);
+  res.on('finish', () => {
+    httpRequests.inc({ method: req.method, route: req.route?.path ?? 'unmatched', status: String(res.statusCode) });
+    const fields = {
+      request_id: requestId,
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      duration_ms: Date.now() - startedAt
+    };
+    if (QUIET_ROUTES.has(req.path)) httpLog.debug('HTTP request', fields);
+    else httpLog.info('HTTP request', fields);
+  });
+  withRequestId(requestId, next);
+});
+
 // Environment variables
 const FEED_API_BASE_URL = process.env.FEED_API_BASE_URL || 'http://47.128.1.51:8000';
 // Legacy support: fallback credentials for backward compatibility (not recommended)
@@ -24,7 +127,122 @@ const FEED_API_EMAIL = process.env.FEED_API_EMAIL || ''; // Fallback email (depr
 const FEED_API_PIN = process.env.FEED_API_PIN || ''; // Fallback PIN (deprecated)
 const FEED_API_USER_ID = process.env.FEED_API_USER_ID || ''; // Service account user ID (for API key auth)
 const FEED_API_COUNTRY_ID = process.env.FEED_API_COUNTRY_ID || ''; // Default country ID (for API key auth)
+const FEED_API_IDENTITY_PATH = process.env.FEED_API_IDENTITY_PATH ?? '/auth/me'; // Backend endpoint describing an API key's user ('' disables)
 const PORT = process.env.PORT || 3005;
+const SESSION_IDLE_TIMEOUT_MS = Number(process.env.SESSION_IDLE_TIMEOUT_MS) || 30 * 60 * 1000; // 30 minutes
+const HERD_STORE_PATH = process.env.HERD_STORE_PATH || ''; // Optional JSON file for animal groups
+const FEED_NAMES_PATH = process.env.FEED_NAMES_PATH || ''; // Optional JSON file of feed name translations
+const EXCHANGE_RATES_PATH = process.env.EXCHANGE_RATES_PATH || ''; // Optional JSON file of exchange rates
+const REFERENCE_CURRENCY = process.env.REFERENCE_CURRENCY || 'USD'; // Currency costs are also reported in
+const PRICE_BOOK_PATH = process.env.PRICE_BOOK_PATH || ''; // Optional JSON file for feed market prices
+const FEED_STOCK_PATH = process.env.FEED_STOCK_PATH || ''; // Optional JSON file for on-farm feed stock
+const FEED_SEARCH_MAX_CANDIDATES = 2000; // Feeds fetched for a free-text search
+const FEED_CACHE_TTL_MS = Number(process.env.FEED_CACHE_TTL_MS) || 24 * 60 * 60 * 1000; // 24 hours
+const FEED_CACHE_PATH = process.env.FEED_CACHE_PATH || ''; // Optional JSON file to persist the feed cache
+const BACKEND_TIMEOUT_MS = Number(process.env.BACKEND_TIMEOUT_MS) || 15000; // Per-attempt backend timeout
+const BACKEND_RETRIES = process.env.BACKEND_RETRIES !== undefined ? Number(process.env.BACKEND_RETRIES) : 2; // Retries for GET requests
+const CIRCUIT_FAILURE_THRESHOLD = Number(process.env.CIRCUIT_FAILURE_THRESHOLD) || 5; // Consecutive outages that open the circuit
+const CIRCUIT_RESET_MS = Number(process.env.CIRCUIT_RESET_MS) || 30000; // Time before a trial request
+const FEED_CACHE_PRELOAD_COUNTRIES = (process.env.FEED_CACHE_PRELOAD_COUNTRIES || '') // Country UUIDs to preload
+  .split(',').map(id => id.trim()).filter(Boolean);
+const READINESS_TIMEOUT_MS = Number(process.env.READINESS_TIMEOUT_MS) || 5000; // Timeout of the backend readiness probe
+const READINESS_CACHE_MS = Number(process.env.READINESS_CACHE_MS) || 10000; // Time a probe result is reused
+const LOG_LEVEL = process.env.LOG_LEVEL || 'info'; // debug, info, warn or error
+const ORGANIZATIONS_PATH = process.env.ORGANIZATIONS_PATH || ''; // Optional JSON file mapping API key fingerprints to organizations
+const USAGE_STORE_PATH = process.env.USAGE_STORE_PATH || ''; // Optional JSON Lines file for usage events (default: in memory)
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || ''; // Bearer token for /admin routes (disabled when unset)
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 120); // Cost units per minute per API key, 0 for none
+const RATE_LIMIT_IP_PER_MINUTE = Number(process.env.RATE_LIMIT_IP_PER_MINUTE ?? 300); // Cost units per minute per client IP, 0 for none
+const DAILY_QUOTA = Number(process.env.DAILY_QUOTA ?? 0); // Cost units per UTC day per API key, 0 for none
+const DAILY_QUOTA_IP = Number(process.env.DAILY_QUOTA_IP ?? 0); // Cost units per UTC day per client IP, 0 for none
+const TOOL_COSTS = parseToolCosts(process.env.TOOL_COSTS); // Cost units per tool call, over the defaults
+const BATCH_MAX_CONCURRENCY = 10;
+const BATCH_DEFAULT_CONCURRENCY = Math.min(Number(process.env.BATCH_CONCURRENCY) || 4, BATCH_MAX_CONCURRENCY);
+const BATCH_MAX_ITEMS = 100;
+
+/** Server version, from package.json (one level above both src/ and dist/) */
+const SERVER_VERSION: string = JSON.parse(await readFile(new URL('../package.json', import.meta.url), 'utf8')).version;
+const SERVER_STARTED_AT = Date.now();
+
+if (isLogLevel(LOG_LEVEL)) {
+  setLogLevel(LOG_LEVEL);
+} else {
+  log.warn('Unknown LOG_LEVEL, using info', { log_level: LOG_LEVEL });
+}
+
+const sessions = new SessionStore(SESSION_IDLE_TIMEOUT_MS);
+sessions.start();
+
+const rateLimiter = new RateLimiter({
+  api_key: { perMinute: RATE_LIMIT_PER_MINUTE, perDay: DAILY_QUOTA },
+  ip: { perMinute: RATE_LIMIT_IP_PER_MINUTE, perDay: DAILY_QUOTA_IP }
+});
+rateLimiter.start();
+
+const herds = new HerdStore(HERD_STORE_PATH || undefined);
+await herds.load();
+
+const feedNames = new FeedNameCatalogue(FEED_NAMES_PATH || undefined);
+await feedNames.load();
+
+const exchangeRates = new ExchangeRates(EXCHANGE_RATES_PATH || undefined, REFERENCE_CURRENCY);
+await exchangeRates.load();
+
+const priceBook = new PriceBook(PRICE_BOOK_PATH || undefined);
+await priceBook.load();
+
+const inventory = new FeedInventory(FEED_STOCK_PATH || undefined);
+await inventory.load();
+
+const organizations = new OrganizationDirectory(ORGANIZATIONS_PATH || undefined);
+await organizations.load();
+
+const usageStore: UsageStore = USAGE_STORE_PATH ? new JsonlUsageStore(USAGE_STORE_PATH) : new MemoryUsageStore();
+
+const feedCache = new FeedCache({ ttlMs: FEED_CACHE_TTL_MS, filePath: FEED_CACHE_PATH || undefined });
+await feedCache.load();
+
+const feedClientOptions: FeedClientOptions = {
+  cache: feedCache,
+  http: { timeoutMs: BACKEND_TIMEOUT_MS, retries: BACKEND_RETRIES },
+  circuitBreaker: { failureThreshold: CIRCUIT_FAILURE_THRESHOLD, resetTimeoutMs: CIRCUIT_RESET_MS },
+  organizationId: DEFAULT_ORGANIZATION.id,
+  serviceAccountDefaults: { user_id: FEED_API_USER_ID || undefined, country_id: FEED_API_COUNTRY_ID || undefined },
+  identityPath: FEED_API_IDENTITY_PATH
+};
+
+/** Circuit breaker shared by every client of the backend */
+const backendCircuit = circuitBreakerFor(FEED_API_BASE_URL, feedClientOptions.circuitBreaker);
+
+/** Note added to feed tool results answered from the cache while the backend is down */
+const OFFLINE_NOTE = 'Backend unreachable: feed data was served from the local cache and may be out of date.';
+
+const TOOL_NAMES = [
+  'evaluate_diet',
+  'get_diet_recommendation',
+  'get_feed_info',
+  'search_feeds',
+  'set_farm_context',
+  'get_farm_context',
+  'clear_farm_context',
+  'create_animal_group',
+  'list_animal_groups',
+  'update_animal_group',
+  'delete_animal_group',
+  'batch_evaluate_diet',
+  'calculate_requirements',
+  'create_ration_card',
+  'find_substitutes',
+  'set_feed_prices',
+  'list_feed_prices',
+  'import_feed_prices',
+  'compare_diets',
+  'profitability',
+  'plan_lactation',
+  'record_feed_stock',
+  'list_feed_stock',
+  'forecast_feed_stock'
+];
 
 /**
  * Extract API key from request headers
@@ -44,6 +262,31 @@ function extractApiKeyFromRequest(req: express.Request): string | null {
   return authHeader.trim();
 }
 
+/**
+ * Identify the tenant behind a request so server-side data (such as animal
+ * groups) is kept separate per API key. Falls back to the legacy env credentials.
+ */
+function resolveTenantId(req: express.Request): string {
+  const credential = extractApiKeyFromRequest(req) || FEED_API_KEY || FEED_API_EMAIL || null;
+  return fingerprintCredential(credential) || 'anonymous';
+}
+
+/**
+ * Find the organization holding the request's API key: the directory's entry,
+ * else the organization of the key's service account as the backend reports
+ * it. Requests relying on the legacy env credentials belong to the default
+ * organization.
+ */
+async function resolveOrganization(req: express.Request, feedClient: FeedFormulationClient | null): Promise<Organization> {
+  const apiKey = extractApiKeyFromRequest(req);
+  if (!apiKey) return DEFAULT_ORGANIZATION;
+  const fingerprint = fingerprintCredential(apiKey);
+  const backendOrganizationId = organizations.has(fingerprint) || !feedClient
+    ? undefined
+    : (await feedClient.getServiceAccount()).organization_id;
+  return organizations.resolve(fingerprint, backendOrganizationId);
+}
+
 /**
  * Create FeedFormulationClient from request or fallback to env vars
  */
@@ -52,19 +295,33 @@ function createFeedClient(req: express.Request): FeedFormulationClient | null {
   const apiKey = extractApiKeyFromRequest(req);
   if (apiKey) {
     try {
-      return new FeedFormulationClient(FEED_API_BASE_URL, apiKey);
+      return new FeedFormulationClient(FEED_API_BASE_URL, apiKey, undefined, undefined, {
+        ...feedClientOptions,
+        organizationId: organizations.resolve(fingerprintCredential(apiKey)).id,
+        serviceAccount: organizations.serviceAccount(fingerprintCredential(apiKey))
+      });
     } catch (error) {
-      console.error('[MCP] Error creating feed client with API key from request:', error);
+      log.error('Error creating feed client with API key from request', { error });
       return null;
     }
   }
   
+  return createEnvFeedClient();
+}
+
+/**
+ * Create FeedFormulationClient from the legacy env credentials
+ */
+function createEnvFeedClient(): FeedFormulationClient | null {
   // Priority 2: Fallback to environment variables (legacy support)
   if (FEED_API_KEY) {
     try {
-      return new FeedFormulationClient(FEED_API_BASE_URL, FEED_API_KEY);
+      return new FeedFormulationClient(FEED_API_BASE_URL, FEED_API_KEY, undefined, undefined, {
+        ...feedClientOptions,
+        serviceAccount: organizations.serviceAccount(fingerprintCredential(FEED_API_KEY))
+      });
     } catch (error) {
-      console.error('[MCP] Error creating feed client with env API key:', error);
+      log.error('Error creating feed client with env API key', { error });
       return null;
     }
   }
@@ -72,9 +329,9 @@ function createFeedClient(req: express.Request): FeedFormulationClient | null {
   // Priority 3: Email+PIN fallback (legacy support)
   if (FEED_API_EMAIL && FEED_API_PIN) {
     try {
-      return new FeedFormulationClient(FEED_API_BASE_URL, undefined, FEED_API_EMAIL, FEED_API_PIN);
+      return new FeedFormulationClient(FEED_API_BASE_URL, undefined, FEED_API_EMAIL, FEED_API_PIN, feedClientOptions);
     } catch (error) {
-      console.error('[MCP] Error creating feed client with email+PIN:', error);
+      log.error('Error creating feed client with email+PIN', { error });
       return null;
     }
   }
@@ -82,335 +339,2140 @@ function createFeedClient(req: express.Request): FeedFormulationClient | null {
   return null;
 }
 
-// Health check endpoint
+const backendProbe = new BackendProbe(FEED_API_BASE_URL, { timeoutMs: READINESS_TIMEOUT_MS, cacheMs: READINESS_CACHE_MS });
+
+const liveness = () => ({
+  status: 'alive',
+  version: SERVER_VERSION,
+  uptime_seconds: Math.round((Date.now() - SERVER_STARTED_AT) / 1000)
+});
+
+// Liveness: the process is up and serving HTTP
+app.get('/health/live', (req, res) => {
+  res.json(liveness());
+});
+
+/**
+ * Backend, circuit and cache state with the service details
+ */
+const healthReport = async () => ({
+  ...assessReadiness(await backendProbe.check(), backendCircuit.status(), feedCache.stats()),
+  service: 'ration-smart-mcp-server',
+  timestamp: new Date().toISOString(),
+  version: SERVER_VERSION,
+  authentication: 'API key via Authorization header (Bearer token) or legacy env vars',
+  baseUrl: FEED_API_BASE_URL
+});
+
+// Readiness: the backend answers and the circuit is closed; 503 when degraded
+app.get('/health/ready', async (req, res) => {
+  const report = await healthReport();
+  res.status(report.status === 'healthy' ? 200 : 503).json(report);
+});
+
+// Kept for existing monitors as a liveness check: always 200 and never probes the
+// backend, so it only shows the last probe result, if any
 app.get('/health', (req, res) => {
   res.json({
-    status: 'healthy',
+    ...liveness(),
     service: 'ration-smart-mcp-server',
-    timestamp: new Date().toISOString(),
-    version: '1.0.0',
-    authentication: 'API key via Authorization header (Bearer token) or legacy env vars',
-    baseUrl: FEED_API_BASE_URL
+    backend: backendProbe.lastResult()
   });
 });
 
+metrics.gauge('ration_smart_sessions', 'Open stateful MCP sessions', () => sessions.size);
+metrics.gauge('ration_smart_backend_circuit_open', 'Whether the backend circuit breaker is open (1) or not (0)',
+  () => (backendCircuit.status().state === 'open' ? 1 : 0));
+metrics.gauge('ration_smart_feed_cache_feeds', 'Feeds in the feed library cache', () => feedCache.stats().feeds);
+
+// Prometheus metrics
+app.get('/metrics', (req, res) => {
+  res.type('text/plain; version=0.0.4').send(metrics.render());
+});
+
 // Root endpoint
 app.get('/', (req, res) => {
   res.json({
     service: 'Ration Smart MCP Server',
-    version: '1.0.0',
+    version: SERVER_VERSION,
     description: 'Dairy cattle nutrition optimization via Ration Smart Feed Library API',
     endpoints: {
-      health: '/health',
-      mcp: '/mcp (POST)'
+      liveness: '/health/live',
+      readiness: '/health/ready',
+      health: '/health (liveness, with the last backend probe result)',
+      metrics: '/metrics',
+      mcp: '/mcp (POST, GET and DELETE with Mcp-Session-Id)',
+      usage: '/admin/usage (GET, admin API key; ?format=csv for CSV)'
     },
-    tools: [
-      'evaluate_diet',
-      'get_diet_recommendation',
-      'get_feed_info',
-      'search_feeds'
-    ]
+    tools: TOOL_NAMES
   });
 });
 
-// Main MCP endpoint
-app.post('/mcp', async (req, res) => {
+/**
+ * Whether the request carries the admin API key
+ */
+function isAdminRequest(req: express.Request): boolean {
+  const key = extractApiKeyFromRequest(req);
+  if (!ADMIN_API_KEY || !key) return false;
+  // Compare digests so the comparison takes the same time whatever the key length
+  return timingSafeEqual(Buffer.from(fingerprintCredential(key)!), Buffer.from(fingerprintCredential(ADMIN_API_KEY)!));
+}
+
+// Usage events and totals per organization, tool and country (admin only)
+app.get('/admin/usage', async (req, res) => {
+  if (!ADMIN_API_KEY) {
+    res.status(404).json({ error: 'Admin routes are disabled - set ADMIN_API_KEY to enable them' });
+    return;
+  }
+  if (!isAdminRequest(req)) {
+    res.status(401).json({ error: 'Unauthorized: admin API key required' });
+    return;
+  }
+
+  const param = (name: string) => (typeof req.query[name] === 'string' ? req.query[name] as string : undefined);
+  const query: UsageQuery = {
+    organization_id: param('organization'),
+    tool: param('tool'),
+    country_id: param('country'),
+    from: param('from'),
+    to: param('to')
+  };
+  for (const bound of ['from', 'to'] as const) {
+    if (query[bound] && Number.isNaN(Date.parse(query[bound]!))) {
+      res.status(400).json({ error: `Invalid ${bound} date: ${query[bound]}` });
+      return;
+    }
+  }
+
   try {
-    // Extract API key from request and create feed client
-    const feedClient = createFeedClient(req);
-    
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined // Stateless
+    const events = await usageStore.query(query);
+    if (param('format') === 'csv') {
+      res.attachment('usage.csv').type('text/csv').send(usageToCsv(events));
+      return;
+    }
+    const limit = Math.max(0, Number(param('limit') ?? 100) || 0);
+    res.json({
+      query,
+      summary: summarizeUsage(events),
+      events: limit > 0 ? events.slice(-limit) : []
+    });
+  } catch (error) {
+    usageLog.error('Failed to query usage', { error });
+    res.status(500).json({ error: 'Failed to read usage data' });
+  }
+});
+
+/**
+ * Fetch the nutrient profiles the local solver formulates from
+ */
+async function loadSolverFeeds(
+  feedClient: FeedFormulationClient,
+  feeds: Array<FeedWithPrice & { min_kg?: number; max_kg?: number }>
+): Promise<SolverFeed[]> {
+  const details = await Promise.all(feeds.map(f => feedClient.getFeedById(f.feed_id)));
+  return feeds.map((f, i) => ({ feed: details[i], price_per_kg: f.price_per_kg, min_kg: f.min_kg, max_kg: f.max_kg }));
+}
+
+/**
+ * Formulate a least-cost ration in-process from the feeds' nutrient profiles
+ */
+async function solveRationLocally(
+  feedClient: FeedFormulationClient,
+  cattleInfo: CattleInfo,
+  feeds: Array<FeedWithPrice & { min_kg?: number; max_kg?: number }>,
+  overrides?: Partial<RationConstraints>
+) {
+  const constraints = mergeRationConstraints(defaultRationConstraints(cattleInfo), overrides);
+  const solution = solveLeastCostRation(await loadSolverFeeds(feedClient, feeds), constraints);
+  return { solution, requirements: constraints };
+}
+
+/**
+ * Re-solve a ration locally across price ranges for chosen feeds
+ */
+async function analyzePricesLocally(
+  feedClient: FeedFormulationClient,
+  cattleInfo: CattleInfo,
+  feeds: Array<FeedWithPrice & { min_kg?: number; max_kg?: number }>,
+  overrides: Partial<RationConstraints> | undefined,
+  sensitivity: { feeds: PriceSweep[]; steps?: number }
+) {
+  const constraints = mergeRationConstraints(defaultRationConstraints(cattleInfo), overrides);
+  return analyzePriceSensitivity(await loadSolverFeeds(feedClient, feeds), constraints, sensitivity.feeds, {
+    steps: sensitivity.steps,
+    milkKgPerDay: cattleInfo.lactating ? cattleInfo.milk_production : undefined
+  });
+}
+
+/**
+ * Suggestion for backend outages (unreachable, timed out, 5xx or circuit open)
+ */
+function backendSuggestion(error: unknown, language: Language): string | undefined {
+  return error instanceof RationSmartApiError && error.unavailable
+    ? t(language, 'suggestion.backend_unavailable')
+    : undefined;
+}
+
+/**
+ * Build a suggestion for errors raised while resolving tool inputs from the farm context
+ */
+function contextSuggestion(errorMessage: string, language: Language): string | undefined {
+  if (errorMessage.includes('Missing cattle information') || errorMessage.includes('No feeds provided')) {
+    return t(language, 'suggestion.context_missing');
+  }
+  if (errorMessage.includes('Animal group')) {
+    return t(language, 'suggestion.group_not_found');
+  }
+  if (errorMessage.includes('No price for feeds')) {
+    return t(language, 'suggestion.price_missing');
+  }
+  return undefined;
+}
+
+/** Diet tool parameters: an optional animal group, end user, currency and price book lookup plus any animal profile fields */
+type DietToolParams = Record<string, unknown> & {
+  group?: string;
+  user_id?: string;
+  currency?: string;
+  region?: string;
+  price_date?: string;
+};
+
+interface McpServerOptions {
+  /** Backend client, or null when no credentials are configured */
+  feedClient: FeedFormulationClient | null;
+  /** Farm context shared by the tools for the lifetime of the server */
+  context: FarmContext;
+  /** Tenant that owns server-side data such as animal groups */
+  tenantId: string;
+  /** Organization that tool calls are metered against */
+  organization: Organization;
+}
+
+/**
+ * Add a localized display name to a feed record; English output is unchanged
+ */
+function localizeFeed<T extends { feed_id: string; fd_name: string }>(feed: T, language: Language): T & { fd_display_name?: string } {
+  if (language === 'en') return feed;
+  return { ...feed, fd_display_name: feedNames.displayName({ feed_id: feed.feed_id, name: feed.fd_name }, language) };
+}
+
+/**
+ * Extra text content flagging cached results while the backend is unreachable
+ */
+function offlineNote(): Array<{ type: 'text'; text: string }> {
+  return feedCache.offline ? [{ type: 'text', text: OFFLINE_NOTE }] : [];
+}
+
+/** Tools whose feeds default to the farm context feeds */
+const FEED_CONTEXT_TOOLS = new Set(['evaluate_diet', 'get_diet_recommendation', 'create_ration_card', 'batch_evaluate_diet']);
+/** Tools that work on animals, counted by group head count (1 without a group) */
+const ANIMAL_TOOLS = new Set([...FEED_CONTEXT_TOOLS, 'calculate_requirements']);
+
+/**
+ * Log a tool call and count it in the metrics
+ */
+function observeToolCall(call: ToolCall): void {
+  toolCalls.inc({ tool: call.tool, outcome: call.success ? 'success' : 'error' });
+  toolDuration.observe({ tool: call.tool }, call.latencyMs / 1000);
+  toolLog.info('Tool call', { tool: call.tool, success: call.success, duration_ms: call.latencyMs, error: call.error });
+}
+
+/**
+ * Record a metered tool call with its country, feed count and animal count
+ */
+function recordUsage(
+  call: ToolCall,
+  { context, tenantId, organization }: Pick<McpServerOptions, 'context' | 'tenantId' | 'organization'>
+): void {
+  // Arguments passed the tool's input schema, so these fields have the shapes the diet tools declare
+  type AnimalArgs = { group?: string; head_count?: number; feeds?: Array<{ feed_id: string }> };
+  const args = call.args as AnimalArgs & { items?: AnimalArgs[]; feed_id?: unknown; country_id?: unknown };
+  const items = Array.isArray(args.items) ? args.items : [];
+  const feedIds = new Set<string>([
+    ...(Array.isArray(args.feeds) ? args.feeds : []),
+    ...items.flatMap(item => item.feeds ?? [])
+  ].map(feed => feed.feed_id));
+  if (typeof args.feed_id === 'string') feedIds.add(args.feed_id);
+  if (feedIds.size === 0 && FEED_CONTEXT_TOOLS.has(call.tool)) {
+    context.feeds?.forEach(feed => feedIds.add(feed.feed_id));
+  }
+
+  const headCount = (entry: { group?: string; head_count?: number }) =>
+    entry.head_count ?? (entry.group ? herds.get(tenantId, entry.group)?.head_count : undefined) ?? 1;
+  const animals = call.tool === 'batch_evaluate_diet'
+    ? items.reduce((sum, item) => sum + headCount(item), 0)
+    : ANIMAL_TOOLS.has(call.tool) ? headCount(args) : undefined;
+
+  // Diet tools detect the country from the first feed, which leaves it in the cache
+  const [firstFeedId] = feedIds;
+  const countryId = (typeof args.country_id === 'string' ? args.country_id : undefined) ?? context.country_id ?? (firstFeedId ? feedCache.getFeed(firstFeedId, true)?.fd_country_id : undefined);
+
+  usageStore.record({
+    timestamp: call.startedAt.toISOString(),
+    organization_id: organization.id,
+    organization_name: organization.name,
+    tool: call.tool,
+    latency_ms: call.latencyMs,
+    success: call.success,
+    error: call.error,
+    country_id: countryId,
+    feed_count: feedIds.size > 0 ? feedIds.size : undefined,
+    animals
+  }).catch(error => usageLog.error('Failed to record usage event', { error }));
+}
+
+function groupRef(group: AnimalGroup) {
+  return { name: group.name, head_count: group.head_count };
+}
+
+/**
+ * Label a per-animal result with the animal group it was computed for
+ */
+function groupResult(group: AnimalGroup, result: unknown) {
+  return {
+    animal_group: groupRef(group),
+    result
+  };
+}
+
+/**
+ * Create an MCP server with all tools registered
+ */
+function createMcpServer({ feedClient, context, tenantId, organization }: McpServerOptions): McpServer {
+  const server = new McpServer({
+    name: 'ration-smart',
+    version: SERVER_VERSION,
+    description: 'Dairy cattle nutrition optimization - diet recommendations and feed analysis'
+  });
+  /** Wraps each tool handler to log, count and record its calls */
+  const metered = createToolMeter(call => {
+    observeToolCall(call);
+    recordUsage(call, { context, tenantId, organization });
+  });
+
+  if (!feedClient) {
+    server.tool(
+      'error',
+      'Server not configured - missing credentials',
+      {},
+      metered('error', async () => {
+          return {
+            content: [{
+              type: 'text',
+              text: 'Ration Smart API credentials not configured. Please provide an API key in the Authorization header (Authorization: Bearer <api_key>) or set FEED_API_KEY environment variable for legacy support.'
+            }],
+            isError: true
+          };
+      })
+    );
+    return server;
+  }
+
+  /** Language for a tool call: the requested one, else the farm context's, else English */
+  const languageFor = (requested?: Language): Language => requested ?? context.language ?? 'en';
+
+  /**
+   * Fill the feed prices that were not passed from the price book, converted
+   * to the diet currency when an entry was recorded in another one
+   */
+  const priceFeeds = async <T extends { feed_id: string; price_per_kg?: number }>(
+    feeds: T[],
+    params: DietToolParams,
+    dietCurrency: () => Promise<string | undefined>
+  ) => {
+    const filled = priceBook.fillPrices(tenantId, feeds, { region: params.region ?? context.region, date: params.price_date });
+    if (filled.missing.length > 0) {
+      throw new Error(`No price for feeds: ${filled.missing.join(', ')}. Pass price_per_kg or record prices with set_feed_prices`);
+    }
+    const currency = filled.defaulted.some(price => price.currency) ? await dietCurrency() : undefined;
+    const defaulted = filled.defaulted.map(price => {
+      if (!price.currency || !currency || price.currency === currency) return price;
+      const converted = exchangeRates.convert(price.price_per_kg, price.currency, currency);
+      if (converted === null) {
+        throw new Error(`Price book price of ${price.feed_id} is in ${price.currency} and there is no exchange rate to ${currency}`);
+      }
+      return {
+        ...price,
+        price_per_kg: round(converted, 4),
+        currency,
+        converted_from: { price_per_kg: price.price_per_kg, currency: price.currency }
+      };
     });
+    const prices = new Map(defaulted.map(price => [price.feed_id, price.price_per_kg]));
+    return {
+      feeds: filled.feeds.map((feed, i) => feeds[i].price_per_kg === undefined ? { ...feed, price_per_kg: prices.get(feed.feed_id)! } : feed),
+      defaultedPrices: defaulted.length > 0 ? defaulted : undefined
+    };
+  };
 
-    const server = new McpServer({
-  name: 'ration-smart',
-  version: '1.0.0',
-      description: 'Dairy cattle nutrition optimization - diet recommendations and feed analysis'
+  /**
+   * Evaluate a diet from diet tool parameters, filling gaps from the group, farm context and price book
+   */
+  const runEvaluation = async (params: DietToolParams & { feeds?: EvaluationFeed[] }) => {
+    const group = params.group ? herds.require(tenantId, params.group) : undefined;
+    const cattleInfo = resolveCattleInfo(params, context, group?.cattle_info);
+    const requested = resolveEvaluationFeeds(params.feeds, context);
+
+    // Country and currency come from the parameters or farm context, otherwise from the feeds' country
+    const currency = await feedClient.resolveCurrency(
+      params.currency ?? context.currency,
+      context.country_id,
+      requested.map(f => f.feed_id)
+    );
+    const { feeds, defaultedPrices } = await priceFeeds(requested, params, async () => currency);
+    const result = await feedClient.evaluateDiet(
+      cattleInfo,
+      feeds,
+      context.country_id,
+      currency,
+      params.user_id ?? context.user_id // Otherwise the service account for API key auth
+    );
+    // Without a backend cost the priced feeds give the daily total
+    const costs = exchangeRates.convertCosts({
+      total_diet_cost: result.cost_analysis?.total_diet_cost_as_fed
+        ?? round(feeds.reduce((sum, f) => sum + f.quantity_as_fed * f.price_per_kg, 0)),
+      feed_cost_per_kg_milk: result.cost_analysis?.feed_cost_per_kg_milk
+    }, currency);
+    return { group, cattleInfo, feeds, result, costs, defaultedPrices };
+  };
+
+  /**
+   * Formulate a diet with the requested solver from diet tool parameters
+   */
+  const runRecommendation = async (params: DietToolParams & {
+    feeds?: Array<RecommendationFeed & { min_kg?: number; max_kg?: number }>;
+    solver?: 'remote' | 'local' | 'auto';
+    constraints?: Partial<RationConstraints>;
+    sensitivity?: { feeds: PriceSweep[]; steps?: number };
+    stock_days?: number;
+  }) => {
+    const group = params.group ? herds.require(tenantId, params.group) : undefined;
+    const cattleInfo = resolveCattleInfo(params, context, group?.cattle_info);
+
+    const requested = resolveRecommendationFeeds(params.feeds?.map(f => ({
+      feed_id: f.feed_id,
+      price_per_kg: f.price_per_kg
+    })), context);
+    const currencyFor = (reported?: string) => feedClient.resolveCurrency(
+      params.currency ?? context.currency ?? reported,
+      context.country_id,
+      requested.map(f => f.feed_id)
+    );
+    const { feeds: feedSelection, defaultedPrices } = await priceFeeds(requested, params, () => currencyFor());
+    if (params.stock_days !== undefined && params.solver === 'remote') {
+      throw new Error('stock_days needs the local solver: the remote optimizer takes no feed limits');
+    }
+    const solver = params.stock_days !== undefined ? 'local' : params.solver ?? 'remote';
+
+    // Feeds on hand are capped to what lasts stock_days for the whole group, after
+    // setting aside what the other groups' stored rations use, as in forecast_feed_stock
+    const otherUses = herds.list(tenantId)
+      .filter(other => other.ration && other.name !== group?.name)
+      .flatMap(other => other.ration!.map(feed => ({ feed_id: feed.feed_id, kg_per_day: feed.quantity_as_fed * other.head_count })));
+    const stock = params.stock_days === undefined ? [] : stockLimits(
+      feedSelection.map(f => f.feed_id),
+      feedId => inventory.onHand(tenantId, feedId),
+      { days: params.stock_days, headCount: group?.head_count ?? 1, otherUses }
+    );
+    const withLimits = feedSelection.map(f => {
+      const limits = params.feeds?.find(p => p.feed_id === f.feed_id);
+      const stockMax = stock.find(l => l.feed_id === f.feed_id)?.max_kg_per_day;
+      const maxKg = stockMax === undefined ? limits?.max_kg : Math.min(limits?.max_kg ?? Infinity, stockMax);
+      return { ...f, min_kg: limits?.min_kg, max_kg: maxKg };
     });
+    const formulateLocally = () => solveRationLocally(feedClient, cattleInfo, withLimits, params.constraints);
 
-    if (!feedClient) {
-      server.tool(
-        'error',
-        'Server not configured - missing credentials',
-        {},
-        async () => {
-            return {
-              content: [{
-                type: 'text',
-                text: 'Ration Smart API credentials not configured. Please provide an API key in the Authorization header (Authorization: Bearer <api_key>) or set FEED_API_KEY environment variable for legacy support.'
-              }],
-              isError: true
-            };
-        }
-      );
+    let output: DietRecommendationOutput;
+    if (solver === 'local') {
+      const local = await formulateLocally();
+      output = { solver: 'local', local_solution: local.solution, requirements: local.requirements };
     } else {
-      // Tool 1: Evaluate Diet
-      server.tool(
-        'evaluate_diet',
-        'Evaluate a dairy cattle diet based on feed selection and animal characteristics. Returns comprehensive analysis including milk production, intake, cost, methane emissions, and nutrient balance.',
-        {
-          body_weight: z.number().min(100).max(1000).describe('Body weight in kg'),
-          breed: z.string().describe('Cattle breed (e.g., "Holstein cross")'),
-          lactating: z.boolean().describe('Whether the cow is lactating'),
-          milk_production: z.number().min(0).max(100).describe('Milk production in liters per day'),
-          days_in_milk: z.number().int().min(0).max(400).describe('Days in milk'),
-          parity: z.number().int().min(1).max(10).describe('Parity number'),
-          days_of_pregnancy: z.number().int().min(0).max(300).describe('Days of pregnancy'),
-          tp_milk: z.number().min(2).max(5).describe('True protein percentage in milk'),
-          fat_milk: z.number().min(2).max(6).describe('Fat percentage in milk'),
-          temperature: z.number().min(-10).max(50).describe('Environmental temperature in Celsius'),
-          topography: z.enum(['Flat', 'Hilly']).describe('Topography'),
-          distance: z.number().min(0).max(10).describe('Distance in km'),
-          calving_interval: z.number().int().min(300).max(500).describe('Calving interval in days'),
-          feeds: z.array(z.object({
-            feed_id: z.string().describe('Feed UUID'),
-            quantity_as_fed: z.number().min(0.1).describe('Quantity in kg/day (as-fed basis)'),
-            price_per_kg: z.number().min(0).describe('Price per kg in local currency')
-          })).min(1).describe('Array of feeds with quantities and prices')
-        },
-        async (params) => {
-          try {
-            const cattleInfo: CattleInfo = {
-              body_weight: params.body_weight,
-              breed: params.breed,
-              lactating: params.lactating,
-              milk_production: params.milk_production,
-              days_in_milk: params.days_in_milk,
-              parity: params.parity,
-              days_of_pregnancy: params.days_of_pregnancy,
-              tp_milk: params.tp_milk,
-              fat_milk: params.fat_milk,
-              temperature: params.temperature,
-              topography: params.topography,
-              distance: params.distance,
-              calving_interval: params.calving_interval
-            };
+      try {
+        // Outside this range the backend fails with an opaque error; auto falls back to the local solver
+        if (feedSelection.length < 6 || feedSelection.length > 10) {
+          throw new Error(`The remote optimizer requires 6-10 feeds, got ${feedSelection.length}`);
+        }
+        // Country comes from the farm context, otherwise auto-detected from feeds
+        const recommendation = await feedClient.getDietRecommendation(
+          cattleInfo,
+          feedSelection,
+          context.country_id,
+          params.user_id ?? context.user_id // Otherwise the service account for API key auth
+        );
+        output = { solver: 'remote', recommendation };
+      } catch (error) {
+        if (solver !== 'auto') throw error;
+        toolLog.warn('Remote diet recommendation failed, using local solver', { error });
+        const local = await formulateLocally();
+        output = {
+          solver: 'local',
+          fallback_reason: error instanceof Error ? error.message : String(error),
+          local_solution: local.solution,
+          requirements: local.requirements
+        };
+      }
+    }
+    output.defaulted_prices = defaultedPrices;
+    if (stock.length > 0) output.stock_limits = stock;
+    if (params.sensitivity) {
+      // The remote optimizer cannot be re-run per price, so the sweep always uses the local solver
+      output.sensitivity = {
+        solver: 'local',
+        ...await analyzePricesLocally(feedClient, cattleInfo, withLimits, params.constraints, params.sensitivity)
+      };
+    }
+    if (output.local_solution?.status !== 'infeasible') {
+      const currency = await currencyFor(output.recommendation?.currency);
+      const diet = output.recommendation?.least_cost_diet;
+      // Without a backend total the feed lines' daily costs add up to it
+      const totalCost = output.recommendation
+        ? output.recommendation.total_diet_cost
+          ?? (diet?.length && diet.every(d => d.daily_cost !== undefined) ? round(diet.reduce((sum, d) => sum + d.daily_cost!, 0)) : undefined)
+        : output.local_solution?.total_cost;
+      output.costs = exchangeRates.convertCosts({ total_diet_cost: totalCost }, currency);
+    }
+    return { group, cattleInfo, output };
+  };
 
-            const feedEvaluation: FeedEvaluationItem[] = params.feeds.map(f => ({
-              feed_id: f.feed_id,
-              quantity_as_fed: f.quantity_as_fed,
-              price_per_kg: f.price_per_kg
-            }));
-
-            // Auto-detect country_id from feeds (no need to pass explicitly)
-            const result = await feedClient!.evaluateDiet(
-              cattleInfo,
-              feedEvaluation,
-              undefined, // countryId - auto-detected from feeds
-              undefined, // currency - will use default (USD) or detect from country
-              undefined // userId - uses service account for API key auth
-            );
+  // Tool 1: Evaluate Diet
+  server.registerTool(
+    'evaluate_diet',
+    {
+      description: 'Evaluate a dairy cattle diet based on feed selection and animal characteristics. Returns comprehensive analysis including milk production, intake, cost, methane emissions, and nutrient balance. Animal fields and feeds not passed are taken from the session farm context (see set_farm_context).',
+      inputSchema: {
+        group: z.string().optional().describe('Name of a stored animal group to evaluate (see create_animal_group)'),
+        ...optionalCattleInfoShape,
+        feeds: z.array(z.object({
+          feed_id: z.string().describe('Feed UUID'),
+          quantity_as_fed: z.number().min(0.1).describe('Quantity in kg/day (as-fed basis)'),
+          price_per_kg: z.number().min(0).optional().describe('Price per kg in local currency (defaults to the price book)')
+        })).min(1).optional().describe('Array of feeds with quantities and prices (defaults to the farm context feeds)'),
+        currency: currencySchema.optional(),
+        ...priceLookupShape,
+        format: reportFormatSchema.optional(),
+        language: languageSchema.optional(),
+        user_id: endUserIdSchema.optional()
+      },
+      outputSchema: evaluateDietOutputShape
+    },
+    metered('evaluate_diet', async (params) => {
+      const language = languageFor(params.language);
+      try {
+        const { group, cattleInfo, feeds, result, costs, defaultedPrices } = await runEvaluation(params);
 
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify(result, null, 2)
-              }]
-            };
-          } catch (error: any) {
-            console.error('[MCP Tool] Error in evaluate_diet:', error);
-            const errorMessage = error.message || 'Unknown error occurred';
-            const errorDetails = error.response?.data?.detail || error.response?.data?.message || '';
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify({
-                  error: 'Diet evaluation failed',
-                  message: errorMessage,
-                  details: errorDetails || undefined,
-                  suggestion: errorMessage.includes('country_id') 
-                    ? 'Ensure feeds have country_id set or provide country_id explicitly'
-                    : errorMessage.includes('user_id')
-                    ? 'User ID is automatically handled - this error should not occur'
-                    : 'Check feed IDs are valid and API credentials are correct'
-                }, null, 2)
-              }],
-              isError: true
-            };
+        const format = params.format ?? 'json';
+        const json = { ...result, costs, defaulted_prices: defaultedPrices };
+        const text = format === 'json'
+          ? JSON.stringify(group ? groupResult(group, json) : json, null, 2)
+          : renderReport(buildEvaluationReport(result, {
+              cattle: cattleInfo,
+              group: group ? groupRef(group) : undefined,
+              currency: costs.currency,
+              costs,
+              defaultedPrices,
+              language,
+              feedNames
+            }, feeds), format);
+
+        return {
+          content: [{
+            type: 'text',
+            text
+          }],
+          structuredContent: {
+            animal_group: group ? groupRef(group) : undefined,
+            evaluation: result,
+            costs,
+            defaulted_prices: defaultedPrices
+          }
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'evaluate_diet', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        const apiError = error instanceof RationSmartApiError ? error : undefined;
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(language, 'error.evaluation'),
+              message: errorMessage,
+              details: apiError?.detail,
+              status: apiError?.status,
+              endpoint: apiError?.endpoint,
+              suggestion: backendSuggestion(error, language) ?? contextSuggestion(errorMessage, language) ?? t(language, errorMessage.includes('country_id')
+                ? 'suggestion.country_id'
+                : errorMessage.includes('user_id')
+                ? 'suggestion.user_id'
+                : errorMessage.includes('API shape may have changed')
+                ? 'suggestion.api_shape'
+                : 'suggestion.evaluation_default')
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool 2: Get Diet Recommendation
+  server.registerTool(
+    'get_diet_recommendation',
+    {
+      description: 'Generate optimized least-cost diet recommendation for dairy cattle. The remote optimizer requires 6-10 feeds (mix of forage and concentrate types); the local solver works with any number. Returns optimized feed quantities, costs, and environmental impact. Animal fields and feeds not passed are taken from the session farm context (see set_farm_context).',
+      inputSchema: {
+        group: z.string().optional().describe('Name of a stored animal group to formulate for (see create_animal_group)'),
+        ...optionalCattleInfoShape,
+        feeds: z.array(z.object({
+          feed_id: z.string().describe('Feed UUID'),
+          price_per_kg: z.number().min(0).optional().describe('Price per kg in local currency (defaults to the price book)'),
+          min_kg: z.number().min(0).optional().describe('Minimum as-fed kg/day of this feed (local solver only)'),
+          max_kg: z.number().min(0).optional().describe('Maximum as-fed kg/day of this feed (local solver only)')
+        })).min(1).max(20).optional().describe('Array of 6-10 feeds with prices (mix of forage and concentrate). Defaults to the farm context feeds'),
+        solver: z.enum(['remote', 'local', 'auto']).optional().describe('remote: Ration Smart optimizer (default); local: in-process least-cost solver; auto: remote, falling back to local if the backend fails'),
+        constraints: rationConstraintsSchema.optional().describe('Requirement constraints for the local solver. Bounds not given default to values estimated from the animal profile'),
+        sensitivity: priceSensitivityInputSchema.optional().describe('Also re-solve the ration across price ranges for these feeds, to find the price at which each leaves the least-cost diet. Always uses the local solver, even with solver "remote", so the points can differ from a remote recommendation'),
+        stock_days: z.number().int().min(1).max(365).optional().describe('Formulate with the local solver, limiting each feed in the feed stock to what lasts this many days for the group head count, after setting aside what the other animal groups\' stored rations use (see record_feed_stock)'),
+        currency: currencySchema.optional(),
+        ...priceLookupShape,
+        format: reportFormatSchema.optional(),
+        language: languageSchema.optional(),
+        user_id: endUserIdSchema.optional()
+      },
+      outputSchema: dietRecommendationOutputShape
+    },
+    metered('get_diet_recommendation', async (params) => {
+      const language = languageFor(params.language);
+      try {
+        const { group, cattleInfo, output } = await runRecommendation(params);
+
+        // JSON text keeps the original shape: the backend result, or the flattened local solution
+        const result = output.recommendation ? {
+          ...output.recommendation,
+          costs: output.costs,
+          defaulted_prices: output.defaulted_prices,
+          sensitivity: output.sensitivity
+        } : {
+          solver: 'local',
+          fallback_reason: output.fallback_reason,
+          ...output.local_solution,
+          requirements: output.requirements,
+          costs: output.costs,
+          defaulted_prices: output.defaulted_prices,
+          stock_limits: output.stock_limits,
+          sensitivity: output.sensitivity
+        };
+        const format = params.format ?? 'json';
+        const text = format === 'json'
+          ? JSON.stringify(group ? groupResult(group, result) : result, null, 2)
+          : renderReport(buildRecommendationReport(output, {
+              cattle: cattleInfo,
+              group: group ? groupRef(group) : undefined,
+              currency: output.costs?.currency,
+              costs: output.costs,
+              defaultedPrices: output.defaulted_prices,
+              language,
+              feedNames
+            }), format);
+
+        return {
+          content: [{
+            type: 'text',
+            text
+          }],
+          structuredContent: {
+            animal_group: group ? groupRef(group) : undefined,
+            ...output
           }
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'get_diet_recommendation', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        const apiError = error instanceof RationSmartApiError ? error : undefined;
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(language, 'error.recommendation'),
+              message: errorMessage,
+              details: apiError?.detail,
+              status: apiError?.status,
+              endpoint: apiError?.endpoint,
+              suggestion: backendSuggestion(error, language) ?? contextSuggestion(errorMessage, language) ?? t(language, errorMessage.includes('country_id')
+                ? 'suggestion.country_id'
+                : errorMessage.includes('6-10 feeds')
+                ? 'suggestion.remote_feed_count'
+                : errorMessage.includes('API shape may have changed')
+                ? 'suggestion.api_shape'
+                : errorMessage.includes('stock_days')
+                ? 'suggestion.stock_solver'
+                : 'suggestion.recommendation_default')
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool 3: Get Feed Info
+  server.tool(
+    'get_feed_info',
+    'Get detailed nutritional information for a specific feed by ID',
+    {
+      feed_id: z.string().describe('Feed UUID'),
+      language: languageSchema.optional()
+    },
+    metered('get_feed_info', async ({ feed_id, language: requested }) => {
+      const language = languageFor(requested);
+      try {
+        const feed = await feedClient.getFeedById(feed_id);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(localizeFeed(feed, language), null, 2)
+          }, ...offlineNote()]
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'get_feed_info', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        const apiError = error instanceof RationSmartApiError ? error : undefined;
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(language, 'error.feed_info'),
+              message: errorMessage,
+              details: apiError?.detail,
+              status: apiError?.status,
+              endpoint: apiError?.endpoint,
+              suggestion: backendSuggestion(error, language) ?? t(language, errorMessage.includes('404') || errorMessage.includes('not found')
+                ? 'suggestion.feed_not_found'
+                : 'suggestion.connectivity')
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool 4: Search Feeds
+  server.tool(
+    'search_feeds',
+    'Search for feeds by name with optional filters (country, type, category). The query is typo-tolerant and matches partial names, local names and categories (e.g. "teff straw", "noug cake"); results are ranked by match_score. Returns list of feeds with nutritional information.',
+    {
+      query: z.string().min(1).optional().describe('Free-text feed name, as heard from the farmer'),
+      country_id: z.string().optional().describe('Country UUID to filter by'),
+      feed_type: z.enum(['Forage', 'Concentrate']).optional().describe('Feed type filter'),
+      feed_category: z.string().optional().describe('Feed category filter'),
+      limit: z.number().int().min(1).max(100).default(20).optional().describe('Maximum number of feeds to return'),
+      offset: z.number().int().min(0).default(0).optional().describe('Number of feeds to skip'),
+      language: languageSchema.optional()
+    },
+    metered('search_feeds', async (params) => {
+      const language = languageFor(params.language);
+      try {
+        const filters = {
+          country_id: params.country_id,
+          feed_type: params.feed_type,
+          feed_category: params.feed_category
+        };
+
+        if (params.query) {
+          const candidates = await feedClient.listAllFeeds(filters, FEED_SEARCH_MAX_CANDIDATES);
+          const matches = searchFeedsByText(candidates, params.query, {
+            localNames: feed => feedNames.localNames({ feed_id: feed.feed_id, name: feed.fd_name })
+          });
+          const offset = params.offset ?? 0;
+          const page = matches.slice(offset, offset + (params.limit ?? 20));
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                query: params.query,
+                total_matches: matches.length,
+                count: page.length,
+                feeds: page.map(match => ({
+                  ...localizeFeed(match.feed, language),
+                  match_score: match.score,
+                  matched_name: match.matched
+                }))
+              }, null, 2)
+            }, ...offlineNote()]
+          };
         }
+
+        const feeds = await feedClient.searchFeeds({
+          ...filters,
+          limit: params.limit,
+          offset: params.offset
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              count: feeds.length,
+              feeds: feeds.map(feed => localizeFeed(feed, language))
+            }, null, 2)
+          }, ...offlineNote()]
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'search_feeds', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        const apiError = error instanceof RationSmartApiError ? error : undefined;
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(language, 'error.feed_search'),
+              message: errorMessage,
+              details: apiError?.detail,
+              status: apiError?.status,
+              endpoint: apiError?.endpoint,
+              suggestion: backendSuggestion(error, language) ?? t(language, 'suggestion.search_filters')
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool 5: Set Farm Context
+  server.tool(
+    'set_farm_context',
+    'Store the animal profile, country, currency, language, end user, market region and chosen feeds for this session so evaluate_diet and get_diet_recommendation can be called without repeating them. Values are merged into the existing context; feeds replace the previous list.',
+    {
+      ...optionalCattleInfoShape,
+      country_id: z.string().optional().describe('Country UUID used for evaluations and recommendations'),
+      currency: currencySchema.optional().describe('ISO 4217 code of the currency feed prices are in (e.g., "ETB"). When unset, the currency of the feeds\' country is used'),
+      language: languageSchema.optional(),
+      user_id: endUserIdSchema.optional(),
+      region: priceLookupShape.region.describe('Market region used to look up price book prices'),
+      feeds: z.array(z.object({
+        feed_id: z.string().describe('Feed UUID'),
+        price_per_kg: z.number().min(0).optional().describe('Price per kg in local currency (defaults to the price book)'),
+        quantity_as_fed: z.number().min(0.1).optional().describe('Quantity in kg/day (as-fed basis), needed for evaluate_diet')
+      })).min(1).optional().describe('Feeds available on the farm, with optional prices and daily quantities')
+    },
+    metered('set_farm_context', async (params) => {
+      updateFarmContext(context, {
+        cattle_info: pickCattleFields(params),
+        country_id: params.country_id,
+        currency: params.currency,
+        language: params.language,
+        user_id: params.user_id,
+        region: params.region,
+        feeds: params.feeds
+      });
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ message: 'Farm context updated', context }, null, 2)
+        }]
+      };
+    })
+  );
+
+  // Tool 6: Get Farm Context
+  server.tool(
+    'get_farm_context',
+    'Show the animal profile, country, currency, language, end user, market region and feeds stored for this session',
+    {},
+    metered('get_farm_context', async () => {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(context, null, 2)
+        }]
+      };
+    })
+  );
+
+  // Tool 7: Clear Farm Context
+  server.tool(
+    'clear_farm_context',
+    'Remove everything stored in this session\'s farm context',
+    {},
+    metered('clear_farm_context', async () => {
+      clearFarmContext(context);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ message: 'Farm context cleared' }, null, 2)
+        }]
+      };
+    })
+  );
+
+  /** A group's current ration as accepted by the group tools */
+  const groupRationSchema = z.array(z.object({
+    feed_id: z.string().describe('Feed UUID'),
+    quantity_as_fed: z.number().min(0.1).describe('Quantity in kg/day per head (as-fed basis)')
+  })).max(20);
+
+  // Tool 8: Create Animal Group
+  server.tool(
+    'create_animal_group',
+    'Store a named animal group (e.g. "early-lactation Holstein crosses, 18 L/day") with its animal profile and optionally its current ration, so evaluate_diet and get_diet_recommendation can be run on it by name and forecast_feed_stock knows what it eats. Animal fields not passed are taken from the session farm context.',
+    {
+      name: z.string().min(1).max(100).describe('Unique group name'),
+      description: z.string().max(500).optional().describe('Free-text description of the group'),
+      head_count: z.number().int().min(1).optional().describe('Number of animals in the group (default 1)'),
+      ...optionalCattleInfoShape,
+      ration: groupRationSchema.optional().describe('Current daily ration per head, used by forecast_feed_stock')
+    },
+    metered('create_animal_group', async (params) => {
+      try {
+        const group = await herds.create(tenantId, {
+          name: params.name,
+          description: params.description,
+          head_count: params.head_count,
+          cattle_info: resolveCattleInfo(params, context),
+          ration: params.ration
+        });
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ message: 'Animal group created', group }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'create_animal_group', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(languageFor(), 'error.group_create'),
+              message: errorMessage,
+              suggestion: contextSuggestion(errorMessage, languageFor()) ?? t(languageFor(), 'suggestion.group_exists')
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool 9: List Animal Groups
+  server.tool(
+    'list_animal_groups',
+    'List the animal groups stored for your API key',
+    {},
+    metered('list_animal_groups', async () => {
+      const groups = herds.list(tenantId);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            count: groups.length,
+            total_head_count: groups.reduce((sum, g) => sum + g.head_count, 0),
+            groups
+          }, null, 2)
+        }]
+      };
+    })
+  );
+
+  // Tool 10: Update Animal Group
+  server.tool(
+    'update_animal_group',
+    'Update a stored animal group. Only the fields passed are changed; pass new_name to rename the group.',
+    {
+      name: z.string().describe('Current group name'),
+      new_name: z.string().min(1).max(100).optional().describe('New group name'),
+      description: z.string().max(500).optional().describe('Free-text description of the group'),
+      head_count: z.number().int().min(1).optional().describe('Number of animals in the group'),
+      ...optionalCattleInfoShape,
+      ration: groupRationSchema.optional().describe('Current daily ration per head; replaces the stored ration, [] removes it')
+    },
+    metered('update_animal_group', async (params) => {
+      try {
+        const group = await herds.update(tenantId, params.name, {
+          name: params.new_name,
+          description: params.description,
+          head_count: params.head_count,
+          cattle_info: pickCattleFields(params),
+          ration: params.ration
+        });
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ message: 'Animal group updated', group }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'update_animal_group', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(languageFor(), 'error.group_update'),
+              message: errorMessage,
+              suggestion: contextSuggestion(errorMessage, languageFor())
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool 11: Delete Animal Group
+  server.tool(
+    'delete_animal_group',
+    'Delete a stored animal group',
+    {
+      name: z.string().describe('Group name')
+    },
+    metered('delete_animal_group', async ({ name }) => {
+      try {
+        await herds.delete(tenantId, name);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ message: `Animal group "${name}" deleted` }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'delete_animal_group', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(languageFor(), 'error.group_delete'),
+              message: errorMessage,
+              suggestion: contextSuggestion(errorMessage, languageFor())
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool 12: Batch Evaluate Diet
+  server.tool(
+    'batch_evaluate_diet',
+    'Evaluate diets for many animals or scenarios in one call. Each item pairs an animal profile (or a stored animal group) with its feeds. Returns per-item results and errors plus a herd summary of total cost, milk and methane per day.',
+    {
+      items: z.array(z.object({
+        label: z.string().optional().describe('Name for this item in the results (e.g. cow tag or scenario name)'),
+        group: z.string().optional().describe('Name of a stored animal group to use for the animal profile'),
+        head_count: z.number().int().min(1).optional().describe('Animals this item represents in the herd totals (defaults to the group head count, or 1)'),
+        cattle_info: z.object(optionalCattleInfoShape).optional().describe('Animal profile; fields not passed come from the group or farm context'),
+        feeds: z.array(z.object({
+          feed_id: z.string().describe('Feed UUID'),
+          quantity_as_fed: z.number().min(0.1).describe('Quantity in kg/day (as-fed basis)'),
+          price_per_kg: z.number().min(0).optional().describe('Price per kg in local currency (defaults to the price book)')
+        })).min(1).optional().describe('Feeds with quantities and prices (defaults to the farm context feeds)'),
+        currency: currencySchema.optional().describe('Currency of this item\'s prices, when it differs from the batch currency')
+      })).min(1).max(BATCH_MAX_ITEMS).describe(`Animals or scenarios to evaluate (up to ${BATCH_MAX_ITEMS})`),
+      concurrency: z.number().int().min(1).max(BATCH_MAX_CONCURRENCY).optional().describe(`Evaluations to run in parallel (default ${BATCH_DEFAULT_CONCURRENCY})`),
+      currency: currencySchema.optional(),
+      ...priceLookupShape,
+      language: languageSchema.optional(),
+      user_id: endUserIdSchema.optional()
+    },
+    metered('batch_evaluate_diet', async (params) => {
+      const language = languageFor(params.language);
+      const settled = await mapWithConcurrency(
+        params.items,
+        params.concurrency ?? BATCH_DEFAULT_CONCURRENCY,
+        (item) => runEvaluation({
+          ...item.cattle_info,
+          group: item.group,
+          feeds: item.feeds,
+          currency: item.currency ?? params.currency,
+          region: params.region,
+          price_date: params.price_date,
+          user_id: params.user_id
+        })
       );
 
-      // Tool 2: Get Diet Recommendation
-      server.tool(
-        'get_diet_recommendation',
-        'Generate optimized least-cost diet recommendation for dairy cattle. Requires 6-10 feeds (mix of forage and concentrate types). Returns optimized feed quantities, costs, and environmental impact.',
-        {
-          body_weight: z.number().min(100).max(1000).describe('Body weight in kg'),
-          breed: z.string().describe('Cattle breed (e.g., "Holstein cross")'),
-          lactating: z.boolean().describe('Whether the cow is lactating'),
-          milk_production: z.number().min(0).max(100).describe('Milk production in liters per day'),
-          days_in_milk: z.number().int().min(0).max(400).describe('Days in milk'),
-          parity: z.number().int().min(1).max(10).describe('Parity number'),
-          days_of_pregnancy: z.number().int().min(0).max(300).describe('Days of pregnancy'),
-          tp_milk: z.number().min(2).max(5).describe('True protein percentage in milk'),
-          fat_milk: z.number().min(2).max(6).describe('Fat percentage in milk'),
-          temperature: z.number().min(-10).max(50).describe('Environmental temperature in Celsius'),
-          topography: z.enum(['Flat', 'Hilly']).describe('Topography'),
-          distance: z.number().min(0).max(10).describe('Distance in km'),
-          calving_interval: z.number().int().min(300).max(500).describe('Calving interval in days'),
-          feeds: z.array(z.object({
-            feed_id: z.string().describe('Feed UUID'),
-            price_per_kg: z.number().min(0).describe('Price per kg in local currency')
-          })).min(6).max(20).describe('Array of 6-10 feeds with prices (mix of forage and concentrate)')
-        },
-        async (params) => {
-          try {
-            const cattleInfo: CattleInfo = {
-              body_weight: params.body_weight,
-              breed: params.breed,
-              lactating: params.lactating,
-              milk_production: params.milk_production,
-              days_in_milk: params.days_in_milk,
-              parity: params.parity,
-              days_of_pregnancy: params.days_of_pregnancy,
-              tp_milk: params.tp_milk,
-              fat_milk: params.fat_milk,
-              temperature: params.temperature,
-              topography: params.topography,
-              distance: params.distance,
-              calving_interval: params.calving_interval
-            };
+      const results = settled.map((outcome, index) => {
+        const item = params.items[index];
+        const label = item.label ?? item.group ?? `item-${index + 1}`;
+        const headCount = item.head_count ?? (item.group ? herds.get(tenantId, item.group)?.head_count : undefined) ?? 1;
+        if (outcome.status === 'fulfilled') {
+          return {
+            index,
+            label,
+            head_count: headCount,
+            status: 'ok' as const,
+            metrics: extractEvaluationMetrics(outcome.value.result, outcome.value.costs),
+            defaulted_prices: outcome.value.defaultedPrices,
+            result: outcome.value.result
+          };
+        }
+        const reason = outcome.reason;
+        toolLog.error('Batch item failed', { tool: 'batch_evaluate_diet', item: label, error: reason });
+        const errorMessage = reason instanceof Error ? reason.message : String(reason);
+        return {
+          index,
+          label,
+          head_count: headCount,
+          status: 'error' as const,
+          metrics: null,
+          error: {
+            message: errorMessage,
+            suggestion: backendSuggestion(reason, language) ?? contextSuggestion(errorMessage, language) ?? t(language, 'suggestion.evaluation_default')
+          }
+        };
+      });
 
-            const feedSelection: FeedWithPrice[] = params.feeds.map(f => ({
-              feed_id: f.feed_id,
-              price_per_kg: f.price_per_kg
-            }));
+      const summary = summarizeHerd(results);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ summary, results }, null, 2)
+        }],
+        isError: summary.succeeded === 0
+      };
+    })
+  );
 
-            // Auto-detect country_id from feeds (no need to pass explicitly)
-            const result = await feedClient!.getDietRecommendation(
-              cattleInfo,
-              feedSelection,
-              undefined, // countryId - auto-detected from feeds
-              undefined // userId - uses service account for API key auth
-            );
+  // Tool 13: Calculate Requirements
+  server.tool(
+    'calculate_requirements',
+    'Calculate daily nutrient requirements for an animal without calling the backend: dry matter intake, net energy (NEL), metabolizable protein, calcium and phosphorus, broken down into maintenance, activity, lactation, pregnancy and growth. Use it to explain why a diet falls short. Animal fields not passed are taken from the group or session farm context.',
+    {
+      group: z.string().optional().describe('Name of a stored animal group to calculate for'),
+      ...optionalCattleInfoShape
+    },
+    metered('calculate_requirements', async (params) => {
+      try {
+        const group = params.group ? herds.require(tenantId, params.group) : undefined;
+        const cattleInfo = resolveCattleInfo(params, context, group?.cattle_info);
+        const requirements = calculateRequirements(cattleInfo);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(group ? groupResult(group, requirements) : requirements, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'calculate_requirements', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(languageFor(), 'error.requirements'),
+              message: errorMessage,
+              suggestion: contextSuggestion(errorMessage, languageFor())
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
 
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify(result, null, 2)
-              }]
-            };
-          } catch (error: any) {
-            console.error('[MCP Tool] Error in get_diet_recommendation:', error);
-            const errorMessage = error.message || 'Unknown error occurred';
-            const errorDetails = error.response?.data?.detail || error.response?.data?.message || '';
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify({
-                  error: 'Diet recommendation failed',
-                  message: errorMessage,
-                  details: errorDetails || undefined,
-                  suggestion: errorMessage.includes('country_id')
-                    ? 'Ensure feeds have country_id set or provide country_id explicitly'
-                    : errorMessage.includes('6-10 feeds')
-                    ? 'Provide 6-10 feeds with a mix of forage and concentrate types'
-                    : 'Check feed IDs are valid, prices are provided, and API credentials are correct'
-                }, null, 2)
-              }],
-              isError: true
-            };
+  // Tool 14: Create Ration Card
+  server.tool(
+    'create_ration_card',
+    'Create a one-page PDF ration card for a farmer: feeds and daily amounts, cost per day and per litre of milk, and short advice. Built from a diet evaluation (feeds with quantities) or a diet recommendation (feeds with prices), and returned as an embedded PDF resource for sharing over WhatsApp or SMS.',
+    {
+      source: z.enum(['evaluation', 'recommendation']).optional().describe('evaluation: card for the given feed amounts (default); recommendation: card for the least-cost diet'),
+      group: z.string().optional().describe('Name of a stored animal group (see create_animal_group)'),
+      ...optionalCattleInfoShape,
+      feeds: z.array(z.object({
+        feed_id: z.string().describe('Feed UUID'),
+        price_per_kg: z.number().min(0).optional().describe('Price per kg in local currency (defaults to the price book)'),
+        quantity_as_fed: z.number().min(0.1).optional().describe('Quantity in kg/day (as-fed basis), required for source "evaluation"'),
+        min_kg: z.number().min(0).optional().describe('Minimum as-fed kg/day of this feed (local solver only)'),
+        max_kg: z.number().min(0).optional().describe('Maximum as-fed kg/day of this feed (local solver only)')
+      })).min(1).max(20).optional().describe('Feeds for the card (defaults to the farm context feeds)'),
+      solver: z.enum(['remote', 'local', 'auto']).optional().describe('Optimizer for source "recommendation" (default remote)'),
+      constraints: rationConstraintsSchema.optional().describe('Requirement constraints for the local solver'),
+      currency: currencySchema.optional(),
+      ...priceLookupShape,
+      language: languageSchema.optional().describe('Card language: en, om or sw. Amharic cards are printed in English because the PDF fonts only cover Latin script'),
+      user_id: endUserIdSchema.optional()
+    },
+    metered('create_ration_card', async (params) => {
+      const language = languageFor(params.language);
+      try {
+        // Cards show costs in the local currency only
+        const subject = { language: rationCardLanguage(language), feedNames };
+        let report: ReportModel;
+        if (params.source === 'recommendation') {
+          const { group, cattleInfo, output } = await runRecommendation(params);
+          if (output.local_solution?.status === 'infeasible') {
+            throw new Error(output.local_solution.message);
+          }
+          report = buildRecommendationReport(output, {
+            ...subject,
+            currency: output.costs?.currency,
+            cattle: cattleInfo,
+            group: group ? groupRef(group) : undefined
+          });
+        } else {
+          const missing = params.feeds?.filter(f => f.quantity_as_fed === undefined) ?? [];
+          if (missing.length > 0) {
+            throw new Error(`Feeds need quantity_as_fed for an evaluation ration card: ${missing.map(f => f.feed_id).join(', ')}`);
           }
+          const { group, cattleInfo, feeds, result, costs } = await runEvaluation({
+            ...params,
+            feeds: params.feeds?.map(f => ({ feed_id: f.feed_id, quantity_as_fed: f.quantity_as_fed!, price_per_kg: f.price_per_kg }))
+          });
+          report = buildEvaluationReport(result, {
+            ...subject,
+            currency: costs.currency,
+            cattle: cattleInfo,
+            group: group ? groupRef(group) : undefined
+          }, feeds);
         }
-      );
 
-      // Tool 3: Get Feed Info
-      server.tool(
-        'get_feed_info',
-        'Get detailed nutritional information for a specific feed by ID',
-        {
-          feed_id: z.string().describe('Feed UUID')
-        },
-        async ({ feed_id }) => {
-          try {
-            const feed = await feedClient!.getFeedById(feed_id);
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify(feed, null, 2)
-              }]
-            };
-          } catch (error: any) {
-            console.error('[MCP Tool] Error in get_feed_info:', error);
-            const errorMessage = error.message || 'Unknown error occurred';
-            const errorDetails = error.response?.data?.detail || error.response?.data?.message || '';
+        const pdf = renderRationCard(report);
+        const uri = `ration-card://${randomUUID()}.pdf`;
+        const perLitre = costPerLitre(report);
+        return {
+          content: [
+            {
+              type: 'resource',
+              resource: {
+                uri,
+                mimeType: 'application/pdf',
+                blob: pdf.toString('base64')
+              }
+            },
+            {
+              type: 'text',
+              text: JSON.stringify({
+                ration_card: { uri, mime_type: 'application/pdf', size_bytes: pdf.length },
+                animal: report.subtitle,
+                currency: report.currency,
+                cost_per_day: report.totals.cost,
+                cost_per_litre_milk: perLitre !== undefined ? round(perLitre) : undefined,
+                advice: rationCardAdvice(report)
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'create_ration_card', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(language, 'error.ration_card'),
+              message: errorMessage,
+              suggestion: backendSuggestion(error, language) ?? contextSuggestion(errorMessage, language) ?? t(language, errorMessage.includes('quantity_as_fed')
+                ? 'suggestion.card_quantities'
+                : errorMessage.includes('6-10 feeds')
+                ? 'suggestion.remote_feed_count'
+                : 'suggestion.recommendation_default')
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool 15: Find Substitutes
+  server.tool(
+    'find_substitutes',
+    'Suggest replacement feeds. With feed_id, ranks feeds from the same country by nutrient similarity (DM, CP, NDF, ADF, EE, starch, Ca, P) to that feed, e.g. when cottonseed cake is unavailable at the market. With nutrients, lists feeds within nutrient ranges, cheapest first (e.g. CP above 30% concentrates under 25 ETB/kg). Both can be combined.',
+    {
+      feed_id: z.string().optional().describe('Feed to replace'),
+      nutrients: nutrientRangesSchema.optional().describe('Nutrient ranges the feeds must meet, e.g. { "cp": { "min": 30 } }'),
+      feed_type: z.enum(['Forage', 'Concentrate']).optional().describe('Only feeds of this type'),
+      country_id: z.string().optional().describe('Country UUID (defaults to the country of feed_id, then the farm context)'),
+      max_price_per_kg: z.number().min(0).optional().describe('Only feeds with a known price at or below this, per kg as fed'),
+      prices: z.array(z.object({
+        feed_id: z.string(),
+        price_per_kg: z.number().min(0)
+      })).optional().describe('Local feed prices per kg as fed. Prices of the farm context feeds and the price book are used too'),
+      limit: z.number().int().min(1).max(50).default(10).optional().describe('Maximum number of feeds to return'),
+      language: languageSchema.optional()
+    },
+    metered('find_substitutes', async (params) => {
+      const language = languageFor(params.language);
+      try {
+        const hasRanges = Object.values(params.nutrients ?? {}).some(bound => bound && (bound.min !== undefined || bound.max !== undefined));
+        if (!params.feed_id && !hasRanges) {
+          throw new Error('Provide feed_id to find substitutes, or nutrients to search by nutrient range');
+        }
+
+        // Passed prices win over farm context prices, which win over the price book
+        const prices = new Map<string, number>();
+        for (const entry of priceBook.list(tenantId, { latest: true })) {
+          const price = priceBook.lookup(tenantId, entry.feed_id, { region: context.region });
+          if (price) prices.set(entry.feed_id, price.price_per_kg);
+        }
+        for (const feed of context.feeds ?? []) {
+          if (feed.price_per_kg !== undefined) prices.set(feed.feed_id, feed.price_per_kg);
+        }
+        for (const feed of params.prices ?? []) prices.set(feed.feed_id, feed.price_per_kg);
+
+        const reference = params.feed_id ? await feedClient.getFeedById(params.feed_id) : undefined;
+        const countryId = params.country_id ?? reference?.fd_country_id ?? context.country_id;
+        const candidates = await feedClient.listAllFeeds({ country_id: countryId, feed_type: params.feed_type }, FEED_SEARCH_MAX_CANDIDATES);
+        const options = {
+          prices,
+          max_price_per_kg: params.max_price_per_kg,
+          feed_type: params.feed_type,
+          ranges: params.nutrients
+        };
+        const { matches, unpriced } = reference
+          ? findSubstitutes(reference, candidates, options)
+          : filterByNutrients(candidates, options);
+        const page = matches.slice(0, params.limit ?? 10);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              reference: reference ? {
+                ...localizeFeed({ feed_id: reference.feed_id, fd_name: reference.fd_name }, language),
+                fd_type: reference.fd_type,
+                price_per_kg: prices.get(reference.feed_id)
+              } : undefined,
+              country_id: countryId,
+              total_matches: matches.length,
+              unpriced_excluded: unpriced || undefined,
+              count: page.length,
+              feeds: page.map(feed => localizeFeed(feed, language))
+            }, null, 2)
+          }, ...offlineNote()]
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'find_substitutes', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(language, 'error.substitutes'),
+              message: errorMessage,
+              suggestion: backendSuggestion(error, language) ?? t(language, errorMessage.includes('404') || errorMessage.includes('Failed to get feed')
+                ? 'suggestion.feed_not_found'
+                : 'suggestion.substitutes')
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+
+  /** A price book entry as accepted by set_feed_prices */
+  const priceInputSchema = z.object({
+    feed_id: z.string().describe('Feed UUID'),
+    price_per_kg: z.number().min(0).describe('Market price per kg as fed'),
+    region: z.string().max(100).optional().describe('Market region (omit for a price that applies to every region)'),
+    date: priceLookupShape.price_date.describe('Date the price was observed, YYYY-MM-DD (default today)'),
+    currency: currencySchema.optional().describe('ISO 4217 code of the price\'s currency (default: the currency of the diet it is used in)'),
+    source: z.string().max(200).optional().describe('Where the price came from, e.g. "Bishoftu market survey"')
+  });
+
+  /**
+   * Error result for the price book tools
+   */
+  const priceBookError = (tool: string, error: any) => {
+    toolLog.error('Tool error', { tool, error });
+    const language = languageFor();
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: t(language, 'error.price_book'),
+          message: error.message || 'Unknown error occurred',
+          suggestion: t(language, 'suggestion.price_book')
+        }, null, 2)
+      }],
+      isError: true
+    };
+  };
+
+  // Tool 16: Set Feed Prices
+  server.tool(
+    'set_feed_prices',
+    'Record market prices of feeds in the price book, per region and date. Diet tools use the latest recorded price on or before the pricing date for feeds passed without price_per_kg. A price for the same feed, region and date replaces the previous one.',
+    {
+      prices: z.array(priceInputSchema).min(1).max(500).describe('Prices to record')
+    },
+    metered('set_feed_prices', async (params) => {
+      try {
+        const recorded = await priceBook.set(tenantId, params.prices);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ message: `Recorded ${recorded.length} prices`, prices: recorded }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return priceBookError('set_feed_prices', error);
+      }
+    })
+  );
+
+  // Tool 17: List Feed Prices
+  server.tool(
+    'list_feed_prices',
+    'List feed prices recorded in the price book for your API key, newest first',
+    {
+      feed_id: z.string().optional().describe('Only prices of this feed'),
+      region: z.string().optional().describe('Only prices recorded for this region ("" for all-regions prices)'),
+      latest: z.boolean().optional().describe('Only the latest price per feed and region (default true); false lists the full price history')
+    },
+    metered('list_feed_prices', async (params) => {
+      const prices = priceBook.list(tenantId, { feed_id: params.feed_id, region: params.region, latest: params.latest ?? true });
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ count: prices.length, prices }, null, 2)
+        }]
+      };
+    })
+  );
+
+  // Tool 18: Import Feed Prices
+  server.tool(
+    'import_feed_prices',
+    'Import feed prices into the price book from CSV text with a header row. Columns: feed_id and price_per_kg (required), region, date (YYYY-MM-DD), currency and source (optional). Nothing is recorded if any row is invalid.',
+    {
+      csv: z.string().min(1).max(1_000_000).describe('CSV text, e.g. "feed_id,price_per_kg,region,date\\n<uuid>,28,Bishoftu,2026-10-12"'),
+      region: z.string().max(100).optional().describe('Region for rows that leave the region column empty'),
+      source: z.string().max(200).optional().describe('Source for rows that leave the source column empty')
+    },
+    metered('import_feed_prices', async (params) => {
+      try {
+        const rows = parsePriceCsv(params.csv).map(row => ({
+          ...row,
+          region: row.region ?? params.region,
+          source: row.source ?? params.source
+        }));
+        const recorded = await priceBook.set(tenantId, rows);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              message: `Imported ${recorded.length} prices`,
+              feeds: new Set(recorded.map(price => price.feed_id)).size,
+              prices: recorded
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return priceBookError('import_feed_prices', error);
+      }
+    })
+  );
+
+  // Tool 19: Compare Diets
+  server.tool(
+    'compare_diets',
+    'What-if analysis for one animal: evaluate a baseline ration and up to 5 variants of it (swap a feed, change quantities or prices, change milk yield) and compare them side by side. Returns cost per day and per litre, predicted milk, intake, methane and nutrient balances for each scenario, with the differences from the baseline. Animal fields and feeds not passed are taken from the group or session farm context.',
+    {
+      group: z.string().optional().describe('Name of a stored animal group to compare diets for'),
+      ...optionalCattleInfoShape,
+      feeds: z.array(z.object({
+        feed_id: z.string().describe('Feed UUID'),
+        quantity_as_fed: z.number().min(0.1).describe('Quantity in kg/day (as-fed basis)'),
+        price_per_kg: z.number().min(0).optional().describe('Price per kg in local currency (defaults to the price book)')
+      })).min(1).optional().describe('Baseline ration (defaults to the farm context feeds)'),
+      variants: z.array(z.object({
+        name: z.string().min(1).max(60).describe('Scenario name shown in the comparison, e.g. "half noug cake to brewery grains"'),
+        swaps: z.array(z.object({
+          feed_id: z.string().describe('Baseline feed to replace'),
+          replace_with: z.string().describe('Feed UUID of the replacement'),
+          share: z.number().gt(0).max(1).optional().describe('Fraction of the feed replaced, e.g. 0.5 for half (default 1)'),
+          quantity_as_fed: z.number().min(0).optional().describe('As-fed kg/day of the replacement (default: the amount replaced). Set it when the feeds differ in dry matter, e.g. wet brewery grains'),
+          price_per_kg: z.number().min(0).optional().describe('Price of the replacement (defaults to the price book)')
+        })).optional().describe('Feed swaps'),
+        quantities: z.array(z.object({
+          feed_id: z.string().describe('Feed UUID'),
+          quantity_as_fed: z.number().min(0).describe('New quantity in kg/day; 0 removes the feed'),
+          price_per_kg: z.number().min(0).optional().describe('Price, for a feed not in the baseline (defaults to the price book)')
+        })).optional().describe('Quantity changes; feeds not in the baseline are added'),
+        prices: z.array(z.object({
+          feed_id: z.string().describe('Feed UUID'),
+          price_per_kg: z.number().min(0).describe('New price per kg')
+        })).optional().describe('Price changes'),
+        cattle_info: z.object(optionalCattleInfoShape).optional().describe('Animal profile changes, e.g. { "milk_production": 14 }')
+      })).min(1).max(5).describe('Variants of the baseline to compare'),
+      currency: currencySchema.optional(),
+      ...priceLookupShape,
+      language: languageSchema.optional(),
+      user_id: endUserIdSchema.optional()
+    },
+    metered('compare_diets', async (params) => {
+      const language = languageFor(params.language);
+      try {
+        const names = params.variants.map(variant => variant.name);
+        const duplicate = names.find((name, i) => name === 'baseline' || names.indexOf(name) !== i);
+        if (duplicate) {
+          throw new Error(`Variant names must be unique and not "baseline": "${duplicate}"`);
+        }
+
+        const baseline = await runEvaluation(params);
+        // Variants start from the priced baseline and are costed in its currency
+        const settled = await mapWithConcurrency(
+          params.variants,
+          BATCH_DEFAULT_CONCURRENCY,
+          (variant) => runEvaluation({
+            ...params,
+            ...variant.cattle_info,
+            feeds: applyVariant(baseline.feeds, variant),
+            currency: baseline.costs.currency
+          })
+        );
+
+        const baselineMetrics = scenarioMetrics(baseline.result, baseline.costs.local.total_diet_cost);
+        const variants = settled.map((outcome, index) => {
+          const variant = params.variants[index];
+          if (outcome.status === 'fulfilled') {
+            const metrics = scenarioMetrics(outcome.value.result, outcome.value.costs.local.total_diet_cost);
             return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify({
-                  error: 'Failed to get feed information',
-                  message: errorMessage,
-                  details: errorDetails || undefined,
-                  suggestion: errorMessage.includes('404') || errorMessage.includes('not found')
-                    ? 'Verify the feed_id is correct and the feed exists in the database'
-                    : 'Check API credentials and network connectivity'
-                }, null, 2)
-              }],
-              isError: true
+              name: variant.name,
+              status: 'ok' as const,
+              cattle_info: variant.cattle_info,
+              feeds: outcome.value.feeds,
+              metrics,
+              deltas: metricDeltas(baselineMetrics, metrics),
+              defaulted_prices: outcome.value.defaultedPrices,
+              warnings: outcome.value.result.warnings
             };
           }
+          const reason = outcome.reason;
+          toolLog.error('Comparison variant failed', { tool: 'compare_diets', variant: variant.name, error: reason });
+          const errorMessage = reason instanceof Error ? reason.message : String(reason);
+          return {
+            name: variant.name,
+            status: 'error' as const,
+            metrics: null,
+            error: {
+              message: errorMessage,
+              suggestion: backendSuggestion(reason, language) ?? contextSuggestion(errorMessage, language) ?? t(language, 'suggestion.evaluation_default')
+            }
+          };
+        });
+
+        const comparison = {
+          animal_group: baseline.group ? groupRef(baseline.group) : undefined,
+          currency: baseline.costs.currency,
+          comparison: comparisonTable({ name: 'baseline', metrics: baselineMetrics }, variants),
+          baseline: {
+            name: 'baseline',
+            feeds: baseline.feeds,
+            metrics: baselineMetrics,
+            defaulted_prices: baseline.defaultedPrices,
+            warnings: baseline.result.warnings
+          },
+          variants
+        };
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(comparison, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'compare_diets', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        const apiError = error instanceof RationSmartApiError ? error : undefined;
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(language, 'error.comparison'),
+              message: errorMessage,
+              details: apiError?.detail,
+              status: apiError?.status,
+              endpoint: apiError?.endpoint,
+              suggestion: backendSuggestion(error, language) ?? contextSuggestion(errorMessage, language) ?? t(language, 'suggestion.evaluation_default')
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool 20: Profitability
+  server.tool(
+    'profitability',
+    'Milk income over feed cost for one cow: values the milk a diet supports at a milk price (per litre, and/or per kg of fat and protein using fat_milk and tp_milk) and subtracts the feed cost. Returns income over feed cost per day, per month and per lactation, plus margin and feed cost per litre. The diet is evaluated (feeds with quantities) or formulated as a least-cost recommendation. Animal fields and feeds not passed are taken from the group or session farm context.',
+    {
+      source: z.enum(['evaluation', 'recommendation']).optional().describe('evaluation: the given feed amounts (default); recommendation: the least-cost diet for the feeds'),
+      milk_price_per_litre: z.number().min(0).optional().describe('Milk price per litre, in the diet currency. With component prices, the volume part of the price'),
+      fat_price_per_kg: z.number().min(0).optional().describe('Payment per kg of milk fat (component pricing)'),
+      protein_price_per_kg: z.number().min(0).optional().describe('Payment per kg of milk true protein (component pricing)'),
+      lactation_days: z.number().int().min(1).max(500).optional().describe(`Days in milk per lactation for the per-lactation figure (default ${DEFAULT_LACTATION_DAYS})`),
+      group: z.string().optional().describe('Name of a stored animal group (see create_animal_group)'),
+      ...optionalCattleInfoShape,
+      feeds: z.array(z.object({
+        feed_id: z.string().describe('Feed UUID'),
+        price_per_kg: z.number().min(0).optional().describe('Price per kg in local currency (defaults to the price book)'),
+        quantity_as_fed: z.number().min(0.1).optional().describe('Quantity in kg/day (as-fed basis), required for source "evaluation"'),
+        min_kg: z.number().min(0).optional().describe('Minimum as-fed kg/day of this feed (local solver only)'),
+        max_kg: z.number().min(0).optional().describe('Maximum as-fed kg/day of this feed (local solver only)')
+      })).min(1).max(20).optional().describe('Feeds of the diet (defaults to the farm context feeds)'),
+      solver: z.enum(['remote', 'local', 'auto']).optional().describe('Optimizer for source "recommendation" (default remote)'),
+      constraints: rationConstraintsSchema.optional().describe('Requirement constraints for the local solver'),
+      currency: currencySchema.optional(),
+      ...priceLookupShape,
+      language: languageSchema.optional(),
+      user_id: endUserIdSchema.optional()
+    },
+    metered('profitability', async (params) => {
+      const language = languageFor(params.language);
+      try {
+        const pricing = {
+          milk_price_per_litre: params.milk_price_per_litre,
+          fat_price_per_kg: params.fat_price_per_kg,
+          protein_price_per_kg: params.protein_price_per_kg
+        };
+        requireMilkPrice(pricing);
+        let diet;
+        if (params.source === 'recommendation') {
+          const { group, cattleInfo, output } = await runRecommendation(params);
+          if (output.local_solution?.status === 'infeasible') {
+            throw new Error(output.local_solution.message);
+          }
+          diet = {
+            group,
+            cattleInfo,
+            // The optimizer formulates for the target yield
+            milkKgPerDay: output.recommendation?.milk_production_kg_day ?? (cattleInfo.lactating ? cattleInfo.milk_production : 0),
+            feedCost: output.costs?.local.total_diet_cost,
+            currency: output.costs?.currency,
+            defaultedPrices: output.defaulted_prices,
+            solver: output.solver
+          };
+        } else {
+          const missing = params.feeds?.filter(f => f.quantity_as_fed === undefined) ?? [];
+          if (missing.length > 0) {
+            throw new Error(`Feeds need quantity_as_fed to evaluate the diet: ${missing.map(f => f.feed_id).join(', ')}`);
+          }
+          const { group, cattleInfo, result, costs, defaultedPrices } = await runEvaluation({
+            ...params,
+            feeds: params.feeds?.map(f => ({ feed_id: f.feed_id, quantity_as_fed: f.quantity_as_fed!, price_per_kg: f.price_per_kg }))
+          });
+          diet = {
+            group,
+            cattleInfo,
+            // Milk the diet supports, which is below the target yield when the diet falls short
+            milkKgPerDay: cattleInfo.lactating ? result.milk_production_analysis?.actual_milk_supported_kg_day : 0,
+            feedCost: costs.local.total_diet_cost,
+            currency: costs.currency,
+            defaultedPrices,
+            solver: undefined
+          };
         }
-      );
 
-      // Tool 4: Search Feeds
-      server.tool(
-        'search_feeds',
-        'Search for feeds with optional filters (country, type, category). Returns list of feeds with nutritional information.',
-        {
-          country_id: z.string().optional().describe('Country UUID to filter by'),
-          feed_type: z.enum(['Forage', 'Concentrate']).optional().describe('Feed type filter'),
-          feed_category: z.string().optional().describe('Feed category filter'),
-          limit: z.number().int().min(1).max(100).default(20).optional().describe('Maximum number of feeds to return'),
-          offset: z.number().int().min(0).default(0).optional().describe('Number of feeds to skip')
-        },
-        async (params) => {
-          try {
-            const feeds = await feedClient!.searchFeeds({
-              country_id: params.country_id,
-              feed_type: params.feed_type,
-              feed_category: params.feed_category,
-              limit: params.limit,
-              offset: params.offset
+        if (diet.milkKgPerDay === undefined || diet.feedCost === undefined) {
+          throw new Error(`The backend response has no ${diet.milkKgPerDay === undefined ? 'supported milk yield' : 'diet cost'} to work out profitability from`);
+        }
+        const profitability = calculateProfitability({
+          milk_kg_per_day: diet.milkKgPerDay,
+          fat_pct: diet.cattleInfo.fat_milk,
+          protein_pct: diet.cattleInfo.tp_milk,
+          feed_cost_per_day: diet.feedCost,
+          lactation_days: params.lactation_days
+        }, pricing);
+        const result = {
+          source: params.source ?? 'evaluation',
+          solver: diet.solver,
+          currency: diet.currency,
+          ...profitability,
+          defaulted_prices: diet.defaultedPrices
+        };
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(diet.group ? groupResult(diet.group, result) : result, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'profitability', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        const apiError = error instanceof RationSmartApiError ? error : undefined;
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(language, 'error.profitability'),
+              message: errorMessage,
+              details: apiError?.detail,
+              status: apiError?.status,
+              endpoint: apiError?.endpoint,
+              suggestion: backendSuggestion(error, language) ?? contextSuggestion(errorMessage, language) ?? t(language, errorMessage.includes('milk price')
+                ? 'suggestion.milk_price'
+                : errorMessage.includes('quantity_as_fed')
+                ? 'suggestion.card_quantities'
+                : errorMessage.includes('6-10 feeds')
+                ? 'suggestion.remote_feed_count'
+                : 'suggestion.evaluation_default')
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool 21: Plan Lactation
+  server.tool(
+    'plan_lactation',
+    'Feeding plan for a whole lactation and dry period: projects milk yield from the peak yield, parity and calving interval, formulates a least-cost ration for each phase (early, mid and late lactation, far-off and close-up dry) and totals the feed quantities and cost for the season, so farmers know how much forage and concentrate to buy or store. lactating, milk_production, days_in_milk and days_of_pregnancy are set per phase. Other animal fields and feeds not passed are taken from the group or session farm context.',
+    {
+      peak_milk_production: z.number().min(1).max(100).describe('Peak milk yield in kg/day'),
+      peak_day: z.number().int().min(20).max(150).optional().describe('Day of lactation with the highest yield (default 70 in first lactation, 50 after)'),
+      dry_days: z.number().int().min(30).max(120).optional().describe(`Length of the dry period in days (default ${DEFAULT_DRY_DAYS})`),
+      group: z.string().optional().describe('Name of a stored animal group (see create_animal_group)'),
+      ...optionalCattleInfoShape,
+      feeds: z.array(z.object({
+        feed_id: z.string().describe('Feed UUID'),
+        price_per_kg: z.number().min(0).optional().describe('Price per kg in local currency (defaults to the price book)'),
+        min_kg: z.number().min(0).optional().describe('Minimum as-fed kg/day of this feed (local solver only)'),
+        max_kg: z.number().min(0).optional().describe('Maximum as-fed kg/day of this feed (local solver only)')
+      })).min(1).max(20).optional().describe('Feeds available for the season (defaults to the farm context feeds)'),
+      solver: z.enum(['remote', 'local', 'auto']).optional().describe('Optimizer for each phase, as for get_diet_recommendation (default remote)'),
+      constraints: rationConstraintsSchema.optional().describe('Requirement constraints for the local solver, applied to every phase'),
+      currency: currencySchema.optional(),
+      ...priceLookupShape,
+      language: languageSchema.optional(),
+      user_id: endUserIdSchema.optional()
+    },
+    metered('plan_lactation', async (params) => {
+      const language = languageFor(params.language);
+      try {
+        const group = params.group ? herds.require(tenantId, params.group) : undefined;
+        // Each phase sets its own stage of lactation and pregnancy
+        const stage = { lactating: true, milk_production: params.peak_milk_production, days_in_milk: 1, days_of_pregnancy: 0 };
+        const cattleInfo = resolveCattleInfo({ ...params, ...stage }, context, group?.cattle_info);
+        const schedule = planLactation({
+          peak_milk_kg: params.peak_milk_production,
+          parity: cattleInfo.parity,
+          calving_interval: cattleInfo.calving_interval,
+          peak_day: params.peak_day,
+          dry_days: params.dry_days
+        });
+
+        const { phases: schedulePhases, ...summary } = schedule;
+        const settled = await mapWithConcurrency(
+          schedulePhases,
+          BATCH_DEFAULT_CONCURRENCY,
+          async (phase) => {
+            const { output } = await runRecommendation({
+              ...params,
+              lactating: phase.lactating,
+              milk_production: phase.milk_kg_per_day,
+              days_in_milk: phase.days_in_milk,
+              days_of_pregnancy: phase.days_of_pregnancy
             });
+            if (output.local_solution?.status === 'infeasible') {
+              throw new Error(output.local_solution.message);
+            }
+            return output;
+          }
+        );
 
+        let currency: string | undefined;
+        let defaultedPrices;
+        const rations: PhaseRation[] = [];
+        const phases = await Promise.all(settled.map(async (outcome, index) => {
+          const phase = schedulePhases[index];
+          if (outcome.status === 'rejected') {
+            const reason = outcome.reason;
+            toolLog.error('Lactation phase failed', { tool: 'plan_lactation', phase: phase.phase, error: reason });
+            const errorMessage = reason instanceof Error ? reason.message : String(reason);
             return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify({
-                  count: feeds.length,
-                  feeds: feeds
-                }, null, 2)
-              }]
-            };
-          } catch (error: any) {
-            console.error('[MCP Tool] Error in search_feeds:', error);
-            const errorMessage = error.message || 'Unknown error occurred';
-            const errorDetails = error.response?.data?.detail || error.response?.data?.message || '';
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify({
-                  error: 'Feed search failed',
-                  message: errorMessage,
-                  details: errorDetails || undefined,
-                  suggestion: 'Check filter parameters (country_id, feed_type, feed_category) are valid UUIDs or enum values'
-                }, null, 2)
-              }],
-              isError: true
+              ...phase,
+              status: 'error' as const,
+              error: {
+                message: errorMessage,
+                suggestion: backendSuggestion(reason, language) ?? contextSuggestion(errorMessage, language) ?? t(language, errorMessage.includes('6-10 feeds')
+                  ? 'suggestion.remote_feed_count'
+                  : 'suggestion.evaluation_default')
+              }
             };
           }
+          const output = outcome.value;
+          currency ??= output.costs?.currency;
+          defaultedPrices ??= output.defaulted_prices;
+          // Remote diets carry no feed type, so it is taken from the feed library when it can be
+          const feeds = output.recommendation
+            ? await Promise.all((output.recommendation.least_cost_diet ?? [])
+                .filter(d => d.feed_id !== undefined && d.quantity_kg_per_day !== undefined)
+                .map(async d => ({
+                  feed_id: d.feed_id!,
+                  feed_name: d.feed_name ?? d.feed_id!,
+                  feed_type: (await feedClient.getFeedById(d.feed_id!).catch(() => undefined))?.fd_type,
+                  quantity_as_fed_kg: d.quantity_kg_per_day!,
+                  cost: d.daily_cost ?? d.quantity_kg_per_day! * (d.price_per_kg ?? 0)
+                })))
+            : output.local_solution!.feeds.map(f => ({
+                feed_id: f.feed_id,
+                feed_name: f.feed_name,
+                feed_type: f.feed_type,
+                quantity_as_fed_kg: f.quantity_as_fed_kg,
+                cost: f.cost
+              }));
+          rations.push({ days: phase.days, feeds });
+          return {
+            ...phase,
+            status: 'ok' as const,
+            solver: output.solver,
+            cost_per_day: round(feeds.reduce((sum, line) => sum + line.cost, 0)),
+            feeds: feeds.map(line => ({
+              ...line,
+              total_as_fed_kg: round(line.quantity_as_fed_kg * phase.days, 1),
+              total_cost: round(line.cost * phase.days)
+            }))
+          };
+        }));
+        // Nothing to total when every phase failed, usually for the same reason
+        const [firstFailure] = settled.filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+        if (rations.length === 0) throw firstFailure.reason;
+
+        const plan = {
+          animal_group: group ? groupRef(group) : undefined,
+          currency,
+          schedule: summary,
+          phases,
+          totals: {
+            // Phases that failed are left out of the totals
+            complete: rations.length === phases.length,
+            days: phases.reduce((sum, phase) => sum + (phase.status === 'ok' ? phase.days : 0), 0),
+            ...totalPlanFeeds(rations)
+          },
+          defaulted_prices: defaultedPrices
+        };
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(plan, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        toolLog.error('Tool error', { tool: 'plan_lactation', error: error });
+        const errorMessage = error.message || 'Unknown error occurred';
+        const apiError = error instanceof RationSmartApiError ? error : undefined;
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: t(language, 'error.lactation_plan'),
+              message: errorMessage,
+              details: apiError?.detail,
+              status: apiError?.status,
+              endpoint: apiError?.endpoint,
+              suggestion: backendSuggestion(error, language) ?? contextSuggestion(errorMessage, language) ?? t(language, errorMessage.includes('6-10 feeds')
+                ? 'suggestion.remote_feed_count'
+                : 'suggestion.evaluation_default')
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    })
+  );
+
+  /** A stock lot as accepted by record_feed_stock */
+  const stockInputSchema = z.object({
+    feed_id: z.string().describe('Feed UUID'),
+    quantity_kg: z.number().min(0).describe('As-fed kg on hand'),
+    purchase_date: priceLookupShape.price_date.describe('Date the lot was bought, YYYY-MM-DD (default today)'),
+    price_per_kg: z.number().min(0).optional().describe('Purchase price per kg as fed'),
+    currency: currencySchema.optional().describe('ISO 4217 code of the purchase price'),
+    supplier: z.string().max(200).optional().describe('Where the feed was bought')
+  });
+
+  /**
+   * Error result for the feed stock tools
+   */
+  const feedStockError = (tool: string, error: any) => {
+    toolLog.error('Tool error', { tool, error });
+    const language = languageFor();
+    const errorMessage = error.message || 'Unknown error occurred';
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: t(language, 'error.feed_stock'),
+          message: errorMessage,
+          suggestion: contextSuggestion(errorMessage, language) ?? t(language, errorMessage.includes('update_animal_group')
+            ? 'suggestion.ration_missing'
+            : 'suggestion.feed_stock')
+        }, null, 2)
+      }],
+      isError: true
+    };
+  };
+
+  // Tool 22: Record Feed Stock
+  server.tool(
+    'record_feed_stock',
+    'Record feed stock on hand at the farm as lots with quantity, purchase date and price. By default lots are added to the stock (a purchase); with replace, they replace all stock of their feeds (a stock take). Used by forecast_feed_stock and by get_diet_recommendation with stock_days.',
+    {
+      stocks: z.array(stockInputSchema).min(1).max(200).describe('Stock lots to record'),
+      replace: z.boolean().optional().describe('Replace the recorded stock of these feeds, e.g. after counting what is left (default false: add)')
+    },
+    metered('record_feed_stock', async (params) => {
+      try {
+        const recorded = await inventory.record(tenantId, params.stocks, { replace: params.replace });
+        const feedIds = new Set(recorded.map(lot => lot.feed_id));
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              message: `Recorded ${recorded.length} stock lots`,
+              stock: inventory.list(tenantId).filter(stock => feedIds.has(stock.feed_id))
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return feedStockError('record_feed_stock', error);
+      }
+    })
+  );
+
+  // Tool 23: List Feed Stock
+  server.tool(
+    'list_feed_stock',
+    'List the feed stock on hand for your API key, per feed with its lots and value',
+    {
+      feed_id: z.string().optional().describe('Only stock of this feed')
+    },
+    metered('list_feed_stock', async (params) => {
+      const stock = inventory.list(tenantId, params.feed_id);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ count: stock.length, stock }, null, 2)
+        }]
+      };
+    })
+  );
+
+  // Tool 24: Forecast Feed Stock
+  server.tool(
+    'forecast_feed_stock',
+    'Forecast how many days the feed stock on hand lasts at the herd\'s current rations and flag the feeds that run out within the horizon. Rations default to those stored on the animal groups (head count times the ration per head).',
+    {
+      rations: z.array(z.object({
+        group: z.string().optional().describe('Stored animal group; its head count and ration are the defaults'),
+        head_count: z.number().int().min(1).optional().describe('Animals fed this ration (default: the group head count, else 1)'),
+        feeds: groupRationSchema.optional().describe('Daily ration per head (default: the group ration)')
+      })).min(1).max(50).optional().describe('Rations fed on the farm (default: every animal group with a stored ration)'),
+      horizon_days: z.number().int().min(1).max(365).optional().describe('Flag feeds that run out within this many days (default 30)'),
+      as_of: priceLookupShape.price_date.describe('Date to forecast from, YYYY-MM-DD (default today). Stock recorded earlier is reduced by the rations\' use since')
+    },
+    metered('forecast_feed_stock', async (params) => {
+      try {
+        const requested: Array<{ group?: string; head_count?: number; feeds?: RationFeed[] }> =
+          params.rations ?? herds.list(tenantId).filter(group => group.ration).map(group => ({ group: group.name }));
+        const rations = requested.map((ration, index) => {
+          const group = ration.group ? herds.require(tenantId, ration.group) : undefined;
+          const feeds = ration.feeds ?? group?.ration;
+          if (!feeds) {
+            throw new Error(`Ration ${index + 1}${group ? ` (group "${group.name}")` : ''} has no feeds. Pass feeds or store the group ration with update_animal_group`);
+          }
+          return { group: group?.name, head_count: ration.head_count ?? group?.head_count ?? 1, feeds };
+        });
+        if (rations.length === 0) {
+          throw new Error('No rations to forecast with. Pass rations or store group rations with create_animal_group or update_animal_group');
         }
-      );
+
+        const horizonDays = params.horizon_days ?? 30;
+        const forecast = forecastStock(
+          inventory.list(tenantId),
+          rations.flatMap(ration => ration.feeds.map(feed => ({ feed_id: feed.feed_id, kg_per_day: feed.quantity_as_fed * ration.head_count }))),
+          { asOf: params.as_of, horizonDays }
+        );
+        // Names from the feed library; a feed it does not know is listed by ID
+        const named = await Promise.all(forecast.map(async item => ({
+          feed_name: (await feedClient.getFeedById(item.feed_id).catch(() => undefined))?.fd_name,
+          ...item
+        })));
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              horizon_days: horizonDays,
+              rations,
+              running_out: named.filter(item => item.status === 'runs_out' || item.status === 'out_of_stock').map(item => item.feed_name ?? item.feed_id),
+              forecast: named
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return feedStockError('forecast_feed_stock', error);
+      }
+    })
+  );
+  return server;
+}
+
+/**
+ * Send a JSON-RPC error response for requests that never reach a transport
+ */
+function sendJsonRpcError(
+  res: express.Response,
+  status: number,
+  code: number,
+  message: string,
+  options: { data?: unknown; id?: string | number | null } = {}
+): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: options.data === undefined ? { code, message } : { code, message, data: options.data },
+    id: options.id ?? null
+  });
+}
+
+/**
+ * Charge the request's cost against its API key and client IP. Sends a 429
+ * with Retry-After and returns false when a rate limit or quota is exceeded.
+ */
+function checkRateLimit(req: express.Request, res: express.Response): boolean {
+  const identities: LimitIdentity[] = [];
+  const keyFingerprint = fingerprintCredential(extractApiKeyFromRequest(req));
+  if (keyFingerprint) identities.push({ scope: 'api_key', id: keyFingerprint });
+  if (req.ip) identities.push({ scope: 'ip', id: req.ip });
+
+  const decision = rateLimiter.consume(identities, requestCost(req.body, TOOL_COSTS));
+  if (decision.allowed) return true;
+
+  log.warn(decision.reason === 'rate' ? 'Rate limit exceeded' : 'Daily quota exceeded', { scope: decision.scope, limit: decision.limit });
+  rateLimited.inc({ scope: decision.scope, reason: decision.reason });
+  res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+  const id = !Array.isArray(req.body) && (typeof req.body?.id === 'string' || typeof req.body?.id === 'number')
+    ? req.body.id
+    : null;
+  sendJsonRpcError(
+    res,
+    429,
+    -32029,
+    decision.reason === 'rate' ? 'Rate limit exceeded' : 'Daily quota exceeded',
+    {
+      id,
+      data: {
+        reason: decision.reason,
+        scope: decision.scope,
+        limit: decision.limit,
+        retry_after_seconds: decision.retryAfterSeconds
+      }
+    }
+  );
+  return false;
+}
+
+/**
+ * Look up the session named in the Mcp-Session-Id header and check that the
+ * request carries the same credentials that created it. Sends an error
+ * response and returns null if the session cannot be used.
+ */
+function resolveSession(req: express.Request, res: express.Response) {
+  const sessionId = req.headers['mcp-session-id'];
+  if (typeof sessionId !== 'string' || !sessionId) {
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+    return null;
+  }
+
+  const session = sessions.get(sessionId);
+  if (!session) {
+    sendJsonRpcError(res, 404, -32001, 'Session not found or expired - send a new initialize request');
+    return null;
+  }
+
+  if (fingerprintCredential(extractApiKeyFromRequest(req)) !== session.credentialFingerprint) {
+    sendJsonRpcError(res, 403, -32000, 'Forbidden: credentials do not match the session');
+    return null;
+  }
+
+  return session;
+}
+
+// Main MCP endpoint
+app.post('/mcp', async (req, res) => {
+  try {
+    // Existing session - reuse its transport and farm context. The session is
+    // checked first so requests that are turned away are not charged.
+    if (req.headers['mcp-session-id']) {
+      const session = resolveSession(req, res);
+      if (!session) return;
+      if (!checkRateLimit(req, res)) return;
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (!checkRateLimit(req, res)) return;
+
+    // Extract API key from request and create feed client
+    const feedClient = createFeedClient(req);
+
+    if (isInitializeRequest(req.body)) {
+      // New session
+      const context = createFarmContext();
+      const server = createMcpServer({
+        feedClient,
+        context,
+        tenantId: resolveTenantId(req),
+        organization: await resolveOrganization(req, feedClient)
+      });
+      const credentialFingerprint = fingerprintCredential(extractApiKeyFromRequest(req));
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (sessionId) => {
+          const now = Date.now();
+          sessions.add({
+            id: sessionId,
+            transport,
+            server,
+            context,
+            credentialFingerprint,
+            createdAt: now,
+            lastSeenAt: now
+          });
+        }
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+      return;
     }
 
+    // No session - handle as a one-off stateless request for older clients
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined // Stateless
+    });
+    const server = createMcpServer({
+      feedClient,
+      context: createFarmContext(),
+      tenantId: resolveTenantId(req),
+      organization: await resolveOrganization(req, feedClient)
+    });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
     // Connect and handle the request
     await server.connect(transport);
     await transport.handleRequest(req, res, req.body);
 
   } catch (error) {
-    console.error('[MCP] Error:', error);
+    log.error('Error handling MCP request', { error });
+    if (res.headersSent) return;
     res.status(500).json({
       jsonrpc: '2.0',
       error: {
@@ -423,40 +2485,78 @@ app.post('/mcp', async (req, res) => {
   }
 });
 
+// Server-to-client notification stream (GET) and session termination (DELETE)
+const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+  try {
+    const session = resolveSession(req, res);
+    if (!session) return;
+    await session.transport.handleRequest(req, res);
+  } catch (error) {
+    log.error('Error handling MCP session request', { method: req.method, error });
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    }
+  }
+};
+
+app.get('/mcp', handleSessionRequest);
+app.delete('/mcp', handleSessionRequest);
+
 // Start server
 const HOST = '0.0.0.0';
 const server = app.listen(Number(PORT), HOST, () => {
-  console.log('');
-  console.log('🚀 =========================================');
-  console.log('   Ration Smart MCP Server');
-  console.log('   Version 1.0.0');
-  console.log('=========================================');
-  console.log(`✅ Server running on ${HOST}:${PORT}`);
-  console.log(`📍 Health check: http://localhost:${PORT}/health`);
-  console.log(`🌾 MCP endpoint: http://localhost:${PORT}/mcp`);
-  console.log(`🔑 Authentication: API key via Authorization header (Bearer token)`);
-  console.log(`   Fallback: Legacy env vars supported for backward compatibility`);
-  console.log(`🛠️  Tools: 4 (evaluate_diet, get_diet_recommendation, get_feed_info, search_feeds)`);
-  console.log('=========================================');
-  console.log('📝 Dairy cattle nutrition optimization');
-  console.log('=========================================');
-  console.log('');
+  log.info('Ration Smart MCP Server started', {
+    version: SERVER_VERSION,
+    host: HOST,
+    port: Number(PORT),
+    readiness: `http://localhost:${PORT}/health/ready`,
+    mcp: `http://localhost:${PORT}/mcp`,
+    session_idle_timeout_min: Math.round(SESSION_IDLE_TIMEOUT_MS / 60000),
+    tools: TOOL_NAMES
+  });
 });
 
+/**
+ * Preload the configured countries' feed libraries with the env credentials,
+ * skipping countries whose cached copy is still fresh
+ */
+async function preloadFeedCache(): Promise<void> {
+  const client = createEnvFeedClient();
+  if (!client) {
+    feedCacheLog.warn('FEED_CACHE_PRELOAD_COUNTRIES is set but no env credentials are configured; skipping preload');
+    return;
+  }
+  for (const countryId of FEED_CACHE_PRELOAD_COUNTRIES) {
+    if (feedCache.hasCountry(countryId)) continue;
+    try {
+      const count = await client.preloadCountry(countryId);
+      feedCacheLog.info('Preloaded country feeds', { country_id: countryId, feeds: count });
+    } catch (error) {
+      feedCacheLog.warn('Preload failed', { country_id: countryId, error: error instanceof Error ? error.message : error });
+    }
+  }
+}
+
+if (FEED_CACHE_PRELOAD_COUNTRIES.length > 0) {
+  preloadFeedCache();
+  // Timers overflow above 2^31 - 1 ms
+  setInterval(preloadFeedCache, Math.min(FEED_CACHE_TTL_MS, 2 ** 31 - 1)).unref();
+}
+
 // Graceful shutdown handling
 process.on('SIGTERM', () => {
-  console.log('SIGTERM signal received: closing HTTP server');
-  server.close(() => {
-    console.log('HTTP server closed');
+  log.info('SIGTERM signal received: closing HTTP server');
+  Promise.all([sessions.closeAll(), feedCache.flush()]).finally(() => server.close(() => {
+    log.info('HTTP server closed');
     process.exit(0);
-  });
+  }));
 });
 
 process.on('SIGINT', () => {
-  console.log('SIGINT signal received: closing HTTP server');
-  server.close(() => {
-    console.log('HTTP server closed');
+  log.info('SIGINT signal received: closing HTTP server');
+  Promise.all([sessions.closeAll(), feedCache.flush()]).finally(() => server.close(() => {
+    log.info('HTTP server closed');
     process.exit(0);
-  });
+  }));
 });
 
@@ -0,0 +1,175 @@
+/**
+ * Whole-Lactation Feeding Plan
+ *
+ * Projects milk yield over a calving interval with Wood's lactation curve
+ * (y = a·t^b·e^(-ct)) fitted to the peak yield, and splits the interval into
+ * feeding phases: early, mid and late lactation, then the far-off and
+ * close-up dry period. Each phase is fed as one average animal; the daily
+ * rations of the phases are scaled by their length into season totals.
+ */
+
+import { round } from './utils.js';
+
+export interface LactationPlanInput {
+  /** Peak milk yield, kg/day */
+  peak_milk_kg: number;
+  parity: number;
+  /** Days from calving to the next calving */
+  calving_interval: number;
+  /** Day of lactation with the highest yield (default 70 for first lactation, 50 after) */
+  peak_day?: number;
+  /** Length of the dry period (default 60) */
+  dry_days?: number;
+}
+
+export type PhaseName = 'early_lactation' | 'mid_lactation' | 'late_lactation' | 'far_off_dry' | 'close_up_dry';
+
+export interface PlanPhase {
+  phase: PhaseName;
+  /** First and last day of the phase, counted from calving (day 1) */
+  start_day: number;
+  end_day: number;
+  days: number;
+  lactating: boolean;
+  /** Days in milk at the middle of the phase; 0 when dry */
+  days_in_milk: number;
+  /** Days of pregnancy at the middle of the phase */
+  days_of_pregnancy: number;
+  /** Average projected yield over the phase, kg/day */
+  milk_kg_per_day: number;
+}
+
+export interface LactationSchedule {
+  calving_interval: number;
+  lactation_days: number;
+  dry_days: number;
+  /** Day of the calving interval the cow conceives, from the gestation length */
+  conception_day: number;
+  peak_day: number;
+  peak_milk_kg: number;
+  /** Projected milk over the whole lactation, kg */
+  lactation_milk_kg: number;
+  /** Projected yield every PROJECTION_STEP days and on the last day of lactation */
+  projection: Array<{ day: number; milk_kg_per_day: number }>;
+  phases: PlanPhase[];
+}
+
+/** A phase's daily ration as formulated */
+export interface PhaseRation {
+  days: number;
+  feeds: Array<{ feed_id: string; feed_name: string; feed_type?: string; quantity_as_fed_kg: number; cost: number }>;
+}
+
+export interface FeedTotal {
+  feed_id: string;
+  feed_name: string;
+  feed_type?: string;
+  as_fed_kg: number;
+  cost: number;
+}
+
+export const GESTATION_DAYS = 283;
+export const DEFAULT_DRY_DAYS = 60;
+const CLOSE_UP_DAYS = 21;
+const PROJECTION_STEP = 30;
+/** Last day in milk of early and mid lactation */
+const EARLY_END = 100;
+const MID_END = 200;
+/** Shortest lactation a plan is made for */
+const MIN_LACTATION_DAYS = 100;
+
+/**
+ * Wood's curve through the peak: b sets the rise to the peak, c = b / peak
+ * day the decline after it. First-lactation cows peak later and lower but
+ * decline more slowly, so they get a flatter curve.
+ */
+function woodCurve(peakMilk: number, peakDay: number, parity: number) {
+  const b = parity === 1 ? 0.2 : 0.25;
+  const c = b / peakDay;
+  const a = peakMilk / (peakDay ** b * Math.exp(-b));
+  return (day: number) => a * day ** b * Math.exp(-c * day);
+}
+
+/**
+ * Project the yield across the lactation and split the calving interval into feeding phases
+ */
+export function planLactation(input: LactationPlanInput): LactationSchedule {
+  const dryDays = input.dry_days ?? DEFAULT_DRY_DAYS;
+  const lactationDays = input.calving_interval - dryDays;
+  if (lactationDays < MIN_LACTATION_DAYS) {
+    throw new Error(`A ${input.calving_interval}-day calving interval with ${dryDays} dry days leaves ${lactationDays} days in milk; plans need at least ${MIN_LACTATION_DAYS}`);
+  }
+  const peakDay = input.peak_day ?? (input.parity === 1 ? 70 : 50);
+  if (peakDay >= lactationDays) {
+    throw new Error(`Peak day ${peakDay} must fall within the ${lactationDays}-day lactation`);
+  }
+  const milkOn = woodCurve(input.peak_milk_kg, peakDay, input.parity);
+  const daily = Array.from({ length: lactationDays }, (_, i) => milkOn(i + 1));
+  const conceptionDay = Math.max(1, input.calving_interval - GESTATION_DAYS);
+
+  const phase = (name: PhaseName, start: number, end: number): PlanPhase => {
+    const lactating = start <= lactationDays;
+    const middle = Math.round((start + end) / 2);
+    const yields = lactating ? daily.slice(start - 1, end) : [];
+    return {
+      phase: name,
+      start_day: start,
+      end_day: end,
+      days: end - start + 1,
+      lactating,
+      days_in_milk: lactating ? middle : 0,
+      days_of_pregnancy: Math.max(0, middle - conceptionDay),
+      milk_kg_per_day: lactating ? round(yields.reduce((sum, y) => sum + y, 0) / yields.length) : 0
+    };
+  };
+  const closeUpStart = input.calving_interval - Math.min(CLOSE_UP_DAYS, dryDays) + 1;
+  const phases = [
+    phase('early_lactation', 1, Math.min(EARLY_END, lactationDays)),
+    EARLY_END < lactationDays ? phase('mid_lactation', EARLY_END + 1, Math.min(MID_END, lactationDays)) : undefined,
+    MID_END < lactationDays ? phase('late_lactation', MID_END + 1, lactationDays) : undefined,
+    closeUpStart > lactationDays + 1 ? phase('far_off_dry', lactationDays + 1, closeUpStart - 1) : undefined,
+    phase('close_up_dry', closeUpStart, input.calving_interval)
+  ].filter((p): p is PlanPhase => p !== undefined);
+
+  const projectionDays = Array.from({ length: Math.ceil(lactationDays / PROJECTION_STEP) }, (_, i) => i * PROJECTION_STEP || 1);
+  if (projectionDays[projectionDays.length - 1] !== lactationDays) projectionDays.push(lactationDays);
+
+  return {
+    calving_interval: input.calving_interval,
+    lactation_days: lactationDays,
+    dry_days: dryDays,
+    conception_day: conceptionDay,
+    peak_day: peakDay,
+    peak_milk_kg: input.peak_milk_kg,
+    lactation_milk_kg: round(daily.reduce((sum, y) => sum + y, 0), 0),
+    projection: projectionDays.map(day => ({ day, milk_kg_per_day: round(daily[day - 1]) })),
+    phases
+  };
+}
+
+/**
+ * Feed to buy or store for the season: each phase's daily ration times its
+ * length, summed per feed (largest first) and per feed type
+ */
+export function totalPlanFeeds(rations: PhaseRation[]): { cost: number; feeds: FeedTotal[]; feed_types: Record<string, number> } {
+  const totals = new Map<string, FeedTotal>();
+  for (const ration of rations) {
+    for (const line of ration.feeds) {
+      const total = totals.get(line.feed_id)
+        ?? { feed_id: line.feed_id, feed_name: line.feed_name, feed_type: line.feed_type, as_fed_kg: 0, cost: 0 };
+      total.as_fed_kg += line.quantity_as_fed_kg * ration.days;
+      total.cost += line.cost * ration.days;
+      totals.set(line.feed_id, total);
+    }
+  }
+
+  const feeds = [...totals.values()]
+    .map(total => ({ ...total, as_fed_kg: round(total.as_fed_kg, 1), cost: round(total.cost) }))
+    .sort((a, b) => b.as_fed_kg - a.as_fed_kg);
+  const feedTypes: Record<string, number> = {};
+  for (const feed of feeds) {
+    const type = feed.feed_type ?? 'Unknown';
+    feedTypes[type] = round((feedTypes[type] ?? 0) + feed.as_fed_kg, 1);
+  }
+  return { cost: round(feeds.reduce((sum, feed) => sum + feed.cost, 0)), feeds, feed_types: feedTypes };
+}
@@ -0,0 +1,180 @@
+/**
+ * Linear Program Solver
+ *
+ * Small dense two-phase simplex for minimization problems of the form
+ *   minimize c·x  subject to  a·x (<=, >=, =) b,  x >= 0
+ * Sized for ration formulation (tens of variables and constraints), and uses
+ * Bland's rule so degenerate problems cannot cycle.
+ */
+
+export type ConstraintSense = '<=' | '>=' | '=';
+
+export interface LinearConstraint {
+  coefficients: number[];
+  sense: ConstraintSense;
+  rhs: number;
+  /** Optional name, echoed back for reporting */
+  name?: string;
+}
+
+export interface LinearProgram {
+  objective: number[];
+  constraints: LinearConstraint[];
+}
+
+export type LinearProgramResult =
+  | { status: 'optimal'; x: number[]; objective: number }
+  | { status: 'infeasible' }
+  | { status: 'unbounded' };
+
+const EPSILON = 1e-9;
+const MAX_ITERATIONS = 10_000;
+
+/**
+ * Solve a linear program with the two-phase simplex method
+ */
+export function solveLinearProgram(lp: LinearProgram): LinearProgramResult {
+  const n = lp.objective.length;
+  const rows = lp.constraints.map(c => {
+    if (c.coefficients.length !== n) {
+      throw new Error(`Constraint ${c.name ?? ''} has ${c.coefficients.length} coefficients, expected ${n}`);
+    }
+    // Keep every right-hand side non-negative
+    if (c.rhs < 0) {
+      const flipped: ConstraintSense = c.sense === '<=' ? '>=' : c.sense === '>=' ? '<=' : '=';
+      return { coefficients: c.coefficients.map(v => -v), sense: flipped, rhs: -c.rhs };
+    }
+    return c;
+  });
+  const m = rows.length;
+
+  const slackCount = rows.filter(r => r.sense !== '=').length;
+  const artificialCount = rows.filter(r => r.sense !== '<=').length;
+  const width = n + slackCount + artificialCount;
+  const rhsCol = width;
+  const firstArtificial = n + slackCount;
+
+  const tableau: number[][] = [];
+  const basis: number[] = [];
+  let slack = n;
+  let artificial = firstArtificial;
+  for (const row of rows) {
+    const t = new Array(width + 1).fill(0);
+    row.coefficients.forEach((v, j) => { t[j] = v; });
+    t[rhsCol] = row.rhs;
+    if (row.sense === '<=') {
+      t[slack] = 1;
+      basis.push(slack++);
+    } else {
+      if (row.sense === '>=') {
+        t[slack++] = -1;
+      }
+      t[artificial] = 1;
+      basis.push(artificial++);
+    }
+    tableau.push(t);
+  }
+
+  // Phase 1: minimize the sum of artificial variables
+  const phase1Costs = new Array(width).fill(0);
+  for (let j = firstArtificial; j < width; j++) phase1Costs[j] = 1;
+  let costRow = reducedCosts(tableau, basis, phase1Costs, rhsCol);
+  if (runSimplex(tableau, basis, costRow, rhsCol, width) === 'unbounded') {
+    return { status: 'infeasible' };
+  }
+  if (-costRow[rhsCol] > 1e-7) {
+    return { status: 'infeasible' };
+  }
+
+  // Drive remaining (zero-valued) artificials out of the basis
+  for (let i = 0; i < m; i++) {
+    if (basis[i] < firstArtificial) continue;
+    const entering = tableau[i].findIndex((v, j) => j < firstArtificial && Math.abs(v) > EPSILON);
+    if (entering >= 0) {
+      pivot(tableau, basis, costRow, i, entering);
+    }
+  }
+
+  // Phase 2: minimize the real objective, never letting artificials re-enter
+  const phase2Costs = new Array(width).fill(0);
+  lp.objective.forEach((v, j) => { phase2Costs[j] = v; });
+  costRow = reducedCosts(tableau, basis, phase2Costs, rhsCol);
+  if (runSimplex(tableau, basis, costRow, rhsCol, firstArtificial) === 'unbounded') {
+    return { status: 'unbounded' };
+  }
+
+  const x = new Array(n).fill(0);
+  basis.forEach((col, i) => {
+    if (col < n) x[col] = tableau[i][rhsCol];
+  });
+  const objective = lp.objective.reduce((sum, c, j) => sum + c * x[j], 0);
+  return { status: 'optimal', x, objective };
+}
+
+/**
+ * Build the reduced-cost row for the current basis.
+ * The last entry holds the negated objective value.
+ */
+function reducedCosts(tableau: number[][], basis: number[], costs: number[], rhsCol: number): number[] {
+  const row = [...costs, 0];
+  tableau.forEach((t, i) => {
+    const cb = costs[basis[i]];
+    if (cb === 0) return;
+    for (let j = 0; j <= rhsCol; j++) row[j] -= cb * t[j];
+  });
+  return row;
+}
+
+/**
+ * Pivot until no improving column remains among the first `enterLimit` columns
+ */
+function runSimplex(
+  tableau: number[][],
+  basis: number[],
+  costRow: number[],
+  rhsCol: number,
+  enterLimit: number
+): 'optimal' | 'unbounded' {
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Bland's rule: lowest-index column with a negative reduced cost
+    let entering = -1;
+    for (let j = 0; j < enterLimit; j++) {
+      if (costRow[j] < -EPSILON) {
+        entering = j;
+        break;
+      }
+    }
+    if (entering < 0) return 'optimal';
+
+    let leaving = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < tableau.length; i++) {
+      const a = tableau[i][entering];
+      if (a <= EPSILON) continue;
+      const ratio = tableau[i][rhsCol] / a;
+      if (ratio < bestRatio - EPSILON || (Math.abs(ratio - bestRatio) <= EPSILON && basis[i] < basis[leaving])) {
+        bestRatio = ratio;
+        leaving = i;
+      }
+    }
+    if (leaving < 0) return 'unbounded';
+
+    pivot(tableau, basis, costRow, leaving, entering);
+  }
+  throw new Error('Linear program did not converge');
+}
+
+function pivot(tableau: number[][], basis: number[], costRow: number[], row: number, col: number): void {
+  const pivotRow = tableau[row];
+  const pivotValue = pivotRow[col];
+  for (let j = 0; j < pivotRow.length; j++) pivotRow[j] /= pivotValue;
+
+  const eliminate = (target: number[]) => {
+    const factor = target[col];
+    if (factor === 0) return;
+    for (let j = 0; j < target.length; j++) target[j] -= factor * pivotRow[j];
+  };
+  tableau.forEach((t, i) => { if (i !== row) eliminate(t); });
+  eliminate(costRow);
+  basis[row] = col;
+}
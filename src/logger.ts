@@ -0,0 +1,101 @@
+/**
+ * Structured Logging
+ *
+ * Writes one JSON object per line with the time, level, component and
+ * message, plus the ID of the HTTP request being handled. The request ID is
+ * carried in AsyncLocalStorage, so logs from tools and backend calls deep in
+ * a request are tagged without passing it through every function.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+let minLevel: LogLevel = 'info';
+
+export function setLogLevel(level: LogLevel): void {
+  minLevel = level;
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return value in LEVEL_ORDER;
+}
+
+/**
+ * Run a function with a request ID that logs and outbound backend calls pick up
+ */
+export function withRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+/**
+ * ID of the request being handled, if any
+ */
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Plain-object form of an error for JSON output, keeping fields such as
+ * status and endpoint that error classes add
+ */
+export function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+  return {
+    ...Object.fromEntries(Object.entries(error)),
+    name: error.name,
+    message: error.message,
+    stack: error.stack
+  };
+}
+
+function write(level: LogLevel, component: string, message: string, fields: LogFields = {}): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) return;
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    component,
+    msg: message,
+    request_id: currentRequestId()
+  };
+  for (const [key, value] of Object.entries(fields)) {
+    entry[key] = serializeError(value);
+  }
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    // Circular or otherwise unserializable fields
+    line = JSON.stringify({ ...entry, ...Object.fromEntries(Object.keys(fields).map(key => [key, String(fields[key])])) });
+  }
+  // Warnings and errors go to stderr, like console.warn and console.error
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+/**
+ * Logger for one component, e.g. "FeedCache"
+ */
+export function createLogger(component: string): Logger {
+  return {
+    debug: (message, fields) => write('debug', component, message, fields),
+    info: (message, fields) => write('info', component, message, fields),
+    warn: (message, fields) => write('warn', component, message, fields),
+    error: (message, fields) => write('error', component, message, fields)
+  };
+}
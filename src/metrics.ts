@@ -0,0 +1,138 @@
+/**
+ * Prometheus Metrics
+ *
+ * A small in-process registry of counters, gauges and histograms rendered in
+ * the Prometheus text exposition format for the /metrics endpoint. Metrics
+ * are registered once per process on the shared `metrics` registry.
+ */
+
+export type Labels = Record<string, string>;
+
+/** Default latency buckets, seconds */
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+/** Stable key for a label set, independent of property order */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+interface Metric {
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    const series = this.values.get(key) ?? { labels, value: 0 };
+    series.value += value;
+    this.values.set(key, series);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+    ];
+  }
+}
+
+/**
+ * Gauge read from a callback when metrics are scraped
+ */
+export class Gauge implements Metric {
+  constructor(readonly name: string, readonly help: string, private collect: () => number) {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      `${this.name} ${this.collect()}`
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[] = DEFAULT_BUCKETS) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, new Histogram(name, help, buckets));
+  }
+
+  gauge(name: string, help: string, collect: () => number): Gauge {
+    return this.register(name, new Gauge(name, help, collect));
+  }
+
+  /**
+   * All metrics in the Prometheus text format
+   */
+  render(): string {
+    return [...this.metrics.values()].flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(name: string, metric: T): T {
+    if (this.metrics.has(name)) {
+      throw new Error(`Metric ${name} is already registered`);
+    }
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/** Registry served on /metrics */
+export const metrics = new MetricsRegistry();
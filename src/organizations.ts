@@ -0,0 +1,100 @@
+/**
+ * Organization Directory
+ *
+ * Maps API keys to the partner organizations that hold them, so usage can be
+ * attributed and billed per organization rather than per key. Keys are listed
+ * by their SHA-256 fingerprint (see fingerprintCredential), never in clear.
+ * Keys not in the directory are attributed to the organization the backend
+ * reports for them, else to one named after the start of their fingerprint.
+ * An organization may also name the backend service user, country and
+ * currency its keys run simulations as.
+ */
+
+import { readFile } from 'node:fs/promises';
+import type { ServiceAccount } from './feed-client.js';
+
+export interface Organization {
+  id: string;
+  name: string;
+}
+
+interface OrganizationEntry extends Organization {
+  /** SHA-256 hex digests of the organization's API keys */
+  api_keys: string[];
+  /** Backend user the organization's simulations are recorded under */
+  service_user_id?: string;
+  /** Default country for the organization's requests */
+  country_id?: string;
+  currency?: string;
+}
+
+interface OrganizationFile {
+  organizations: OrganizationEntry[];
+}
+
+/** Organization for requests made with the legacy env credentials or none at all */
+export const DEFAULT_ORGANIZATION: Organization = { id: 'default', name: 'Default' };
+
+export class OrganizationDirectory {
+  private byFingerprint = new Map<string, { organization: Organization; serviceAccount: ServiceAccount }>();
+
+  /**
+   * @param filePath - Optional JSON file listing organizations and their key fingerprints
+   */
+  constructor(private filePath?: string) {}
+
+  /**
+   * Load the directory, if a file is configured and exists
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    this.setOrganizations((JSON.parse(raw) as OrganizationFile).organizations);
+  }
+
+  setOrganizations(entries: OrganizationEntry[]): void {
+    this.byFingerprint.clear();
+    for (const { id, name, api_keys, service_user_id, country_id, currency } of entries) {
+      const organization = { id, name };
+      const serviceAccount = { user_id: service_user_id, country_id, currency };
+      for (const fingerprint of api_keys) {
+        this.byFingerprint.set(fingerprint.toLowerCase(), { organization, serviceAccount });
+      }
+    }
+  }
+
+  /**
+   * Whether a key's organization is listed
+   */
+  has(fingerprint: string | null): boolean {
+    return fingerprint !== null && this.byFingerprint.has(fingerprint);
+  }
+
+  /**
+   * The organization holding a key, by the key's fingerprint
+   *
+   * @param backendOrganizationId - Organization the backend reports for the key, used when it is not listed
+   */
+  resolve(fingerprint: string | null, backendOrganizationId?: string): Organization {
+    if (!fingerprint) return DEFAULT_ORGANIZATION;
+    const entry = this.byFingerprint.get(fingerprint);
+    if (entry) return entry.organization;
+    if (backendOrganizationId) return { id: backendOrganizationId, name: backendOrganizationId };
+    const id = `key-${fingerprint.slice(0, 12)}`;
+    return { id, name: id };
+  }
+
+  /**
+   * The service account configured for a key, or none if its organization is not listed
+   */
+  serviceAccount(fingerprint: string | null): ServiceAccount | undefined {
+    if (!fingerprint) return undefined;
+    return this.byFingerprint.get(fingerprint)?.serviceAccount;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Produces single-page PDF 1.4 documents with text, lines and filled
+ * rectangles using the built-in Helvetica fonts, so no font files or
+ * rendering services are needed. Text is WinAnsi encoded; characters outside
+ * that set are replaced with '?'.
+ */
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  /** Horizontal alignment relative to x */
+  align?: 'left' | 'right' | 'center';
+  /** Grey level 0 (black) to 1 (white) */
+  gray?: number;
+}
+
+/** Helvetica advance widths (1/1000 em) for characters 32-126 */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+/** Helvetica-Bold is slightly wider; a uniform factor is close enough for layout */
+const BOLD_WIDTH_FACTOR = 1.06;
+const DEFAULT_WIDTH = 556;
+
+/** Unicode characters that WinAnsi (cp1252) maps outside Latin-1 */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+  '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+  '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+/**
+ * Width of a string in points when set in Helvetica at the given size
+ */
+export function textWidth(text: string, size: number, bold: boolean = false): number {
+  let units = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH;
+  }
+  return (units * size * (bold ? BOLD_WIDTH_FACTOR : 1)) / 1000;
+}
+
+/**
+ * Split text into lines no wider than maxWidth, breaking on spaces
+ */
+export function wrapText(text: string, maxWidth: number, size: number, bold: boolean = false): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && textWidth(candidate, size, bold) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Shorten text with an ellipsis so it fits within maxWidth
+ */
+export function truncateText(text: string, maxWidth: number, size: number, bold: boolean = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let truncated = text;
+  while (truncated.length > 0 && textWidth(`${truncated}...`, size, bold) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated.trimEnd()}...`;
+}
+
+function encodeWinAnsi(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    const mapped = code < 256 ? code : WIN_ANSI_EXTRAS[ch];
+    const byte = mapped === undefined || (code < 32 && code !== 9) ? 63 : mapped;
+    const char = String.fromCharCode(byte);
+    out += char === '\\' || char === '(' || char === ')' ? `\\${char}` : char;
+  }
+  return out;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Single-page PDF document. Coordinates are in points from the top-left
+ * corner; they are flipped to PDF's bottom-left origin when written.
+ */
+export class PdfPage {
+  private readonly ops: string[] = [];
+
+  constructor(readonly width: number, readonly height: number) {}
+
+  text(x: number, y: number, value: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const width = textWidth(value, size, bold);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    this.ops.push(
+      `${num(options.gray ?? 0)} g`,
+      `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${num(this.height - y)} Td (${encodeWinAnsi(value)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth: number = 0.5, gray: number = 0): void {
+    this.ops.push(
+      `${num(gray)} G ${num(lineWidth)} w`,
+      `${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, gray: number): void {
+    this.ops.push(`${num(gray)} g`, `${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  /**
+   * Serialize the page as a complete PDF file
+   */
+  toBuffer(): Buffer {
+    const content = this.ops.join('\n');
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    ];
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(pdf, 'latin1'));
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(pdf, 'latin1');
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Feed Price Book
+ *
+ * Market prices per feed, region and date, kept per tenant so extension
+ * officers can record the weekly prices once instead of retyping them in
+ * every conversation. Diet tools fill in feed prices that were not passed
+ * from the latest entry on or before the pricing date, so seasonal prices
+ * are simply dated entries. Entries live in memory and are optionally
+ * persisted to a JSON file.
+ */
+
+import { readFile, writeFile, mkdir, rename } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import { createLogger } from './logger.js';
+
+export interface PriceEntry {
+  feed_id: string;
+  /** Market region; empty for a price that applies to every region */
+  region: string;
+  price_per_kg: number;
+  currency?: string;
+  /** Date the price was observed, YYYY-MM-DD */
+  date: string;
+  /** Who or where the price came from, e.g. "Bishoftu market survey" */
+  source?: string;
+  recorded_at: string;
+}
+
+export type PriceInput = Omit<PriceEntry, 'region' | 'date' | 'recorded_at'> & {
+  region?: string;
+  /** Defaults to today */
+  date?: string;
+};
+
+export interface PriceQuery {
+  feed_id?: string;
+  region?: string;
+  /** Only the latest entry per feed and region */
+  latest?: boolean;
+}
+
+export interface PriceLookup {
+  region?: string;
+  /** Pricing date, YYYY-MM-DD (default today) */
+  date?: string;
+}
+
+/** A price filled in from the price book */
+export interface DefaultedPrice {
+  feed_id: string;
+  price_per_kg: number;
+  currency?: string;
+  /** Region of the entry used; empty for an all-regions price */
+  region: string;
+  date: string;
+  source?: string;
+  /** Price as recorded, when it was converted to the diet currency */
+  converted_from?: { price_per_kg: number; currency: string };
+}
+
+type PriceBookFile = Record<string, PriceEntry[]>;
+
+const priceBookFileSchema: z.ZodType<PriceBookFile> = z.record(z.array(z.object({
+  feed_id: z.string(),
+  region: z.string(),
+  price_per_kg: z.number(),
+  currency: z.string().optional(),
+  date: z.string(),
+  source: z.string().optional(),
+  recorded_at: z.string()
+})));
+
+const log = createLogger('PriceBook');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalize a region name for lookups (case and whitespace insensitive)
+ */
+function regionKey(region: string | undefined): string {
+  return (region ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** Newest first */
+function byDateDesc(a: PriceEntry, b: PriceEntry): number {
+  return b.date.localeCompare(a.date) || b.recorded_at.localeCompare(a.recorded_at);
+}
+
+export class PriceBook {
+  private tenants = new Map<string, PriceEntry[]>();
+
+  /**
+   * @param filePath - Optional JSON file to persist prices to
+   */
+  constructor(private filePath?: string) {}
+
+  /**
+   * Load persisted prices, if a file is configured and exists. A corrupt file
+   * is logged and the price book starts empty.
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    let data: PriceBookFile;
+    try {
+      data = priceBookFileSchema.parse(JSON.parse(raw));
+    } catch (error) {
+      log.warn('Ignoring unreadable price book file', { filePath: this.filePath, error });
+      return;
+    }
+    this.tenants = new Map(Object.entries(data));
+  }
+
+  /**
+   * Record prices. An entry for the same feed, region and date replaces the previous one.
+   */
+  async set(tenantId: string, inputs: PriceInput[]): Promise<PriceEntry[]> {
+    const now = new Date().toISOString();
+    const entries = inputs.map((input, index) => {
+      const date = input.date ?? today();
+      if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) {
+        throw new Error(`Price ${index + 1} (${input.feed_id}): date must be YYYY-MM-DD, got "${date}"`);
+      }
+      if (!(input.price_per_kg >= 0)) {
+        throw new Error(`Price ${index + 1} (${input.feed_id}): price_per_kg must be a number of at least 0`);
+      }
+      const entry: PriceEntry = {
+        feed_id: input.feed_id,
+        region: (input.region ?? '').trim(),
+        price_per_kg: input.price_per_kg,
+        date,
+        recorded_at: now
+      };
+      if (input.currency) entry.currency = input.currency.toUpperCase();
+      if (input.source) entry.source = input.source;
+      return entry;
+    });
+
+    const sameSlot = (a: PriceEntry, b: PriceEntry) =>
+      a.feed_id === b.feed_id && regionKey(a.region) === regionKey(b.region) && a.date === b.date;
+    const kept = (this.tenants.get(tenantId) ?? []).filter(existing => !entries.some(entry => sameSlot(existing, entry)));
+    // Within one call, a later row for the same slot wins
+    const added = entries.filter((entry, i) => !entries.slice(i + 1).some(later => sameSlot(entry, later)));
+    this.tenants.set(tenantId, [...kept, ...added]);
+    await this.save();
+    return added;
+  }
+
+  /**
+   * Entries matching the query, newest first
+   */
+  list(tenantId: string, query: PriceQuery = {}): PriceEntry[] {
+    const entries = (this.tenants.get(tenantId) ?? [])
+      .filter(entry => !query.feed_id || entry.feed_id === query.feed_id)
+      .filter(entry => query.region === undefined || regionKey(entry.region) === regionKey(query.region))
+      .sort(byDateDesc);
+    if (!query.latest) return entries;
+    const seen = new Set<string>();
+    return entries.filter(entry => {
+      const key = `${entry.feed_id}\u0000${regionKey(entry.region)}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Latest price of a feed on or before the pricing date. A price for the
+   * region wins over an all-regions price.
+   */
+  lookup(tenantId: string, feedId: string, { region, date = today() }: PriceLookup = {}): PriceEntry | undefined {
+    const candidates = (this.tenants.get(tenantId) ?? [])
+      .filter(entry => entry.feed_id === feedId && entry.date <= date)
+      .sort(byDateDesc);
+    return (region ? candidates.find(entry => regionKey(entry.region) === regionKey(region)) : undefined) ??
+      candidates.find(entry => entry.region === '');
+  }
+
+  /**
+   * Fill in the prices missing from a feed list. Feeds without a price and
+   * without a price book entry are listed in `missing`.
+   */
+  fillPrices<T extends { feed_id: string; price_per_kg?: number }>(
+    tenantId: string,
+    feeds: T[],
+    lookup: PriceLookup = {}
+  ): { feeds: Array<T & { price_per_kg: number }>; defaulted: DefaultedPrice[]; missing: string[] } {
+    const filled: Array<T & { price_per_kg: number }> = [];
+    const defaulted: DefaultedPrice[] = [];
+    const missing: string[] = [];
+    for (const feed of feeds) {
+      if (feed.price_per_kg !== undefined) {
+        filled.push(feed as T & { price_per_kg: number });
+        continue;
+      }
+      const entry = this.lookup(tenantId, feed.feed_id, lookup);
+      if (!entry) {
+        missing.push(feed.feed_id);
+        continue;
+      }
+      filled.push({ ...feed, price_per_kg: entry.price_per_kg });
+      defaulted.push({
+        feed_id: entry.feed_id,
+        price_per_kg: entry.price_per_kg,
+        currency: entry.currency,
+        region: entry.region,
+        date: entry.date,
+        source: entry.source
+      });
+    }
+    return { feeds: filled, defaulted, missing };
+  }
+
+  private async save(): Promise<void> {
+    if (!this.filePath) return;
+    const data: PriceBookFile = {};
+    for (const [tenantId, entries] of this.tenants) {
+      if (entries.length > 0) {
+        data[tenantId] = entries;
+      }
+    }
+    // Write then rename, so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(data, null, 2));
+    await rename(tempPath, this.filePath);
+  }
+}
+
+const CSV_COLUMNS = ['feed_id', 'price_per_kg', 'region', 'date', 'currency', 'source'] as const;
+
+function isBlank(row: string[]): boolean {
+  return row.every(value => value.trim() === '');
+}
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Parse a price CSV with a header row. `feed_id` and `price_per_kg` are
+ * required; `region`, `date`, `currency` and `source` are optional columns.
+ * Every invalid row is reported, with its line number, in one error.
+ */
+export function parsePriceCsv(text: string): PriceInput[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header || isBlank(header)) throw new Error('Price CSV is empty');
+  const columns = header.map(name => name.trim().toLowerCase());
+  for (const required of ['feed_id', 'price_per_kg']) {
+    if (!columns.includes(required)) {
+      throw new Error(`Price CSV needs a "${required}" column (columns: ${CSV_COLUMNS.join(', ')})`);
+    }
+  }
+
+  const prices: PriceInput[] = [];
+  const errors: string[] = [];
+  rows.forEach((row, index) => {
+    if (isBlank(row)) return;
+    const line = index + 2;
+    const value = (column: string) => {
+      const i = columns.indexOf(column);
+      const text = i >= 0 ? row[i]?.trim() : undefined;
+      return text ? text : undefined;
+    };
+    const feedId = value('feed_id');
+    const price = Number(value('price_per_kg'));
+    if (!feedId) {
+      errors.push(`line ${line}: feed_id is empty`);
+      return;
+    }
+    if (value('price_per_kg') === undefined || !Number.isFinite(price) || price < 0) {
+      errors.push(`line ${line}: price_per_kg "${value('price_per_kg') ?? ''}" is not a valid price`);
+      return;
+    }
+    const currency = value('currency');
+    if (currency !== undefined && !/^[A-Za-z]{3}$/.test(currency)) {
+      errors.push(`line ${line}: currency "${currency}" is not a 3-letter code`);
+      return;
+    }
+    prices.push({
+      feed_id: feedId,
+      price_per_kg: price,
+      region: value('region'),
+      date: value('date'),
+      currency,
+      source: value('source')
+    });
+  });
+  if (errors.length > 0) {
+    throw new Error(`Invalid price CSV: ${errors.join('; ')}`);
+  }
+  return prices;
+}
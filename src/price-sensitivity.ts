@@ -0,0 +1,140 @@
+/**
+ * Price Sensitivity of Least-Cost Rations
+ *
+ * Re-solves a ration with the local solver across a range of prices for
+ * chosen feeds. For each feed it reports the amount used, cost per day and
+ * cost per litre at every price, and the break-even price: the price above
+ * which the feed leaves the least-cost diet, found by bisection between the
+ * sampled prices. Every point keeps the other feeds at their given prices.
+ */
+
+import { MILK_DENSITY } from './ration-card.js';
+import { RationConstraints, SolverFeed, solveLeastCostRation } from './ration-solver.js';
+import { round } from './utils.js';
+
+export interface PriceSweep {
+  feed_id: string;
+  /** Lowest price tried (default half the feed's price) */
+  min_price?: number;
+  /** Highest price tried (default one and a half times the feed's price) */
+  max_price?: number;
+}
+
+export interface SensitivityPoint {
+  price_per_kg: number;
+  /** As-fed kg/day of the feed in the least-cost diet */
+  quantity_as_fed_kg: number;
+  total_cost: number;
+  /** Diet cost per litre of milk; null for dry cows */
+  cost_per_litre: number | null;
+}
+
+export interface FeedSensitivity {
+  feed_id: string;
+  feed_name: string;
+  /** Price the ration was formulated with */
+  current_price: number;
+  /**
+   * always: in the diet at every price tried; never: at none;
+   * below_break_even: only at prices below break_even_price
+   */
+  in_diet: 'always' | 'never' | 'below_break_even';
+  /** Price above which the feed leaves the least-cost diet, within the range tried */
+  break_even_price: number | null;
+  points: SensitivityPoint[];
+}
+
+export interface PriceSensitivity {
+  /** Why no analysis was made, e.g. no feasible ration */
+  message?: string;
+  feeds: FeedSensitivity[];
+}
+
+export interface SensitivityOptions {
+  /** Prices tried per feed, including both ends of the range (default 9) */
+  steps?: number;
+  /** Milk yield the ration is costed against, kg/day */
+  milkKgPerDay?: number;
+}
+
+const DEFAULT_STEPS = 9;
+const BISECTION_ITERATIONS = 30;
+
+/**
+ * Re-solve the ration across price ranges for the given feeds
+ */
+export function analyzePriceSensitivity(
+  feeds: SolverFeed[],
+  constraints: RationConstraints,
+  sweeps: PriceSweep[],
+  { steps = DEFAULT_STEPS, milkKgPerDay }: SensitivityOptions = {}
+): PriceSensitivity {
+  if (solveLeastCostRation(feeds, constraints).status !== 'optimal') {
+    return {
+      message: 'No feasible ration from these feeds at any price, so there is no price sensitivity to report',
+      feeds: []
+    };
+  }
+
+  return {
+    feeds: sweeps.map(sweep => {
+      const index = feeds.findIndex(f => f.feed.feed_id === sweep.feed_id);
+      if (index < 0) {
+        throw new Error(`Price sensitivity feed ${sweep.feed_id} is not in the feed selection`);
+      }
+      const current = feeds[index].price_per_kg;
+      const min = sweep.min_price ?? current * 0.5;
+      const max = sweep.max_price ?? current * 1.5;
+      if (!(max > min)) {
+        throw new Error(`Price range for ${sweep.feed_id} is empty; give a max_price above ${round(min, 4)}`);
+      }
+
+      // Quantity of the feed and the diet cost with the feed at a given price
+      const solveAt = (price: number): SensitivityPoint => {
+        const solution = solveLeastCostRation(
+          feeds.map((f, i) => (i === index ? { ...f, price_per_kg: price } : f)),
+          constraints
+        );
+        const line = solution.feeds.find(l => l.feed_id === sweep.feed_id);
+        return {
+          price_per_kg: round(price, 4),
+          quantity_as_fed_kg: line?.quantity_as_fed_kg ?? 0,
+          total_cost: solution.total_cost,
+          cost_per_litre: milkKgPerDay && milkKgPerDay > 0
+            ? round(solution.total_cost / (milkKgPerDay / MILK_DENSITY), 4)
+            : null
+        };
+      };
+
+      const points = Array.from({ length: steps }, (_, i) => solveAt(min + ((max - min) * i) / (steps - 1)));
+      const lastIncluded = points.map(p => p.quantity_as_fed_kg > 0).lastIndexOf(true);
+      if (lastIncluded < 0 || lastIncluded === points.length - 1) {
+        return {
+          feed_id: sweep.feed_id,
+          feed_name: feeds[index].feed.fd_name,
+          current_price: current,
+          in_diet: lastIncluded < 0 ? 'never' as const : 'always' as const,
+          break_even_price: null,
+          points
+        };
+      }
+
+      // The feed leaves the diet somewhere between these two prices
+      let low = points[lastIncluded].price_per_kg;
+      let high = points[lastIncluded + 1].price_per_kg;
+      for (let i = 0; i < BISECTION_ITERATIONS && high - low > 1e-4 * Math.max(1, high); i++) {
+        const mid = (low + high) / 2;
+        if (solveAt(mid).quantity_as_fed_kg > 0) low = mid;
+        else high = mid;
+      }
+      return {
+        feed_id: sweep.feed_id,
+        feed_name: feeds[index].feed.fd_name,
+        current_price: current,
+        in_diet: 'below_break_even' as const,
+        break_even_price: round((low + high) / 2, 3),
+        points
+      };
+    })
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Milk Income Over Feed Cost
+ *
+ * Relates a diet's feed cost to the value of the milk it supports. Milk is
+ * priced per litre, by its fat and protein content, or both (a volume price
+ * plus component payments). Income over feed cost is scaled from one day
+ * to a month and a lactation at the same yield.
+ */
+
+import { MILK_DENSITY } from './ration-card.js';
+import { round } from './utils.js';
+
+export interface MilkPricing {
+  /** Price per litre of milk; the whole price, or the volume part with component pricing */
+  milk_price_per_litre?: number;
+  /** Payment per kg of milk fat */
+  fat_price_per_kg?: number;
+  /** Payment per kg of milk true protein */
+  protein_price_per_kg?: number;
+}
+
+export interface ProfitabilityInput {
+  /** Milk the diet supports, kg/day */
+  milk_kg_per_day: number;
+  /** Milk fat, % */
+  fat_pct: number;
+  /** Milk true protein, % */
+  protein_pct: number;
+  feed_cost_per_day: number;
+  /** Days in milk per lactation (default 305) */
+  lactation_days?: number;
+}
+
+export interface Profitability {
+  milk_kg_per_day: number;
+  milk_litres_per_day: number;
+  milk_income_per_day: number;
+  /** Milk income split by what it pays for */
+  milk_income_breakdown: { volume: number; fat: number; protein: number };
+  feed_cost_per_day: number;
+  income_over_feed_cost: {
+    per_day: number;
+    per_month: number;
+    per_lactation: number;
+  };
+  lactation_days: number;
+  /** Milk price received per litre, components included; null without milk */
+  milk_price_per_litre: number | null;
+  feed_cost_per_litre: number | null;
+  /** Income over feed cost per litre; null without milk */
+  margin_per_litre: number | null;
+  /** Feed cost as % of milk income; null without milk income */
+  feed_cost_pct_of_income: number | null;
+}
+
+export const DEFAULT_LACTATION_DAYS = 305;
+const DAYS_PER_MONTH = 30.4;
+
+/**
+ * Check that milk has a price, before any diet is evaluated for it
+ */
+export function requireMilkPrice(pricing: MilkPricing): void {
+  if (pricing.milk_price_per_litre === undefined && pricing.fat_price_per_kg === undefined && pricing.protein_price_per_kg === undefined) {
+    throw new Error('Give a milk price: milk_price_per_litre, fat_price_per_kg and protein_price_per_kg, or a combination');
+  }
+}
+
+/**
+ * Income over feed cost for one cow from her milk yield, components and feed cost
+ */
+export function calculateProfitability(input: ProfitabilityInput, pricing: MilkPricing): Profitability {
+  requireMilkPrice(pricing);
+  const lactationDays = input.lactation_days ?? DEFAULT_LACTATION_DAYS;
+  const milkKg = Math.max(0, input.milk_kg_per_day);
+  const litres = milkKg / MILK_DENSITY;
+
+  const breakdown = {
+    volume: litres * (pricing.milk_price_per_litre ?? 0),
+    fat: milkKg * (input.fat_pct / 100) * (pricing.fat_price_per_kg ?? 0),
+    protein: milkKg * (input.protein_pct / 100) * (pricing.protein_price_per_kg ?? 0)
+  };
+  const income = breakdown.volume + breakdown.fat + breakdown.protein;
+  const iofc = income - input.feed_cost_per_day;
+  const perLitre = (value: number) => (litres > 0 ? round(value / litres, 4) : null);
+
+  return {
+    milk_kg_per_day: round(milkKg),
+    milk_litres_per_day: round(litres),
+    milk_income_per_day: round(income),
+    milk_income_breakdown: {
+      volume: round(breakdown.volume),
+      fat: round(breakdown.fat),
+      protein: round(breakdown.protein)
+    },
+    feed_cost_per_day: round(input.feed_cost_per_day),
+    income_over_feed_cost: {
+      per_day: round(iofc),
+      per_month: round(iofc * DAYS_PER_MONTH),
+      per_lactation: round(iofc * lactationDays)
+    },
+    lactation_days: lactationDays,
+    milk_price_per_litre: perLitre(income),
+    feed_cost_per_litre: perLitre(input.feed_cost_per_day),
+    margin_per_litre: perLitre(iofc),
+    feed_cost_pct_of_income: income > 0 ? round((input.feed_cost_per_day / income) * 100, 1) : null
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Rate Limiting and Usage Quotas
+ *
+ * Limits how fast and how much each caller can use the MCP endpoint. Callers
+ * are identified by the fingerprint of their API key and by client IP; a
+ * request must pass the limits of every identity it carries. Each request
+ * has a cost in units: tool calls cost what TOOL_COSTS says (an optimizer run
+ * costs more than a feed lookup), other JSON-RPC requests cost 1 and
+ * notifications are free.
+ *
+ * Rates use a token bucket holding one minute's worth of units, so short
+ * bursts are allowed; quotas count units per UTC day. Everything is kept in
+ * memory, so limits are per server instance and reset on restart.
+ */
+
+import { z } from 'zod';
+
+export interface LimitConfig {
+  /** Units per minute, 0 for no rate limit */
+  perMinute: number;
+  /** Units per UTC day, 0 for no quota */
+  perDay: number;
+}
+
+export type LimitScope = 'api_key' | 'ip';
+
+export interface LimitIdentity {
+  scope: LimitScope;
+  id: string;
+}
+
+export type LimitDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'rate' | 'quota'; scope: LimitScope; retryAfterSeconds: number; limit: number };
+
+/** Default tool costs in units; tools not listed cost `default` */
+export const DEFAULT_TOOL_COSTS: Record<string, number> = {
+  default: 1,
+  evaluate_diet: 3,
+  get_diet_recommendation: 10,
+  create_ration_card: 5,
+  find_substitutes: 2,
+  profitability: 5,
+  // Per item
+  batch_evaluate_diet: 3,
+  // Per evaluation: the baseline and each variant
+  compare_diets: 3,
+  // A recommendation for each of up to five phases
+  plan_lactation: 50
+};
+
+const toolCostsSchema = z.record(z.number().min(0));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Usage {
+  tokens: number;
+  refilledAt: number;
+  day: number;
+  usedToday: number;
+  lastSeenAt: number;
+}
+
+/**
+ * Parse the TOOL_COSTS setting, a JSON object of tool names to costs
+ *
+ * @param raw - Value of the TOOL_COSTS environment variable, if set
+ * @returns The default costs with the configured ones applied
+ */
+export function parseToolCosts(raw: string | undefined): Record<string, number> {
+  if (!raw) return { ...DEFAULT_TOOL_COSTS };
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`TOOL_COSTS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const result = toolCostsSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`TOOL_COSTS must be a JSON object of tool names to costs of at least 0 - ${issues}`);
+  }
+  return { ...DEFAULT_TOOL_COSTS, ...result.data };
+}
+
+/**
+ * Cost of a JSON-RPC message or batch
+ */
+export function requestCost(body: unknown, costs: Record<string, number> = DEFAULT_TOOL_COSTS): number {
+  if (Array.isArray(body)) {
+    return body.reduce((sum: number, message) => sum + requestCost(message, costs), 0);
+  }
+  if (!body || typeof body !== 'object') return 0;
+  const message = body as { id?: unknown; method?: unknown; params?: { name?: unknown; arguments?: { items?: unknown; variants?: unknown } } };
+  // Notifications (no id) and responses are free
+  if (message.id === undefined || typeof message.method !== 'string') return 0;
+  if (message.method !== 'tools/call') return 1;
+
+  const name = typeof message.params?.name === 'string' ? message.params.name : '';
+  const cost = costs[name] ?? costs.default ?? 1;
+  const { items, variants } = message.params?.arguments ?? {};
+  if (name === 'batch_evaluate_diet' && Array.isArray(items)) return cost * Math.max(1, items.length);
+  if (name === 'compare_diets' && Array.isArray(variants)) return cost * (1 + variants.length);
+  return cost;
+}
+
+export class RateLimiter {
+  private usage = new Map<string, Usage>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private limits: Record<LimitScope, LimitConfig>) {}
+
+  /**
+   * Check every identity's limits and, if all pass, charge the cost to each
+   */
+  consume(identities: LimitIdentity[], cost: number, now: number = Date.now()): LimitDecision {
+    const day = Math.floor(now / DAY_MS);
+    const entries = identities.map(identity => ({ identity, usage: this.refill(identity, now, day) }));
+
+    for (const { identity, usage } of entries) {
+      const { perMinute, perDay } = this.limits[identity.scope];
+      if (perDay > 0 && usage.usedToday + cost > perDay) {
+        return {
+          allowed: false,
+          reason: 'quota',
+          scope: identity.scope,
+          retryAfterSeconds: Math.ceil(((day + 1) * DAY_MS - now) / 1000),
+          limit: perDay
+        };
+      }
+      // A request costing more than the bucket holds needs a full bucket and leaves a debt
+      const needed = Math.min(cost, perMinute);
+      if (perMinute > 0 && usage.tokens < needed) {
+        return {
+          allowed: false,
+          reason: 'rate',
+          scope: identity.scope,
+          retryAfterSeconds: Math.max(1, Math.ceil((needed - usage.tokens) / perMinute * 60)),
+          limit: perMinute
+        };
+      }
+    }
+
+    for (const { usage } of entries) {
+      usage.tokens -= cost;
+      usage.usedToday += cost;
+      usage.lastSeenAt = now;
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Units used today by an identity
+   */
+  usedToday(identity: LimitIdentity, now: number = Date.now()): number {
+    const usage = this.usage.get(this.key(identity));
+    return usage && usage.day === Math.floor(now / DAY_MS) ? usage.usedToday : 0;
+  }
+
+  /**
+   * Forget identities not seen for a day
+   */
+  sweep(now: number = Date.now()): void {
+    for (const [key, usage] of this.usage) {
+      if (now - usage.lastSeenAt > DAY_MS) this.usage.delete(key);
+    }
+  }
+
+  /**
+   * Start periodic sweeps
+   */
+  start(intervalMs: number = 60 * 60 * 1000): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  private key(identity: LimitIdentity): string {
+    return `${identity.scope}:${identity.id}`;
+  }
+
+  /**
+   * Usage for an identity with the bucket refilled and the daily count rolled over
+   */
+  private refill(identity: LimitIdentity, now: number, day: number): Usage {
+    const { perMinute } = this.limits[identity.scope];
+    const key = this.key(identity);
+    let usage = this.usage.get(key);
+    if (!usage) {
+      usage = { tokens: perMinute, refilledAt: now, day, usedToday: 0, lastSeenAt: now };
+      this.usage.set(key, usage);
+    }
+    usage.tokens = Math.min(perMinute, usage.tokens + (now - usage.refilledAt) * perMinute / 60000);
+    usage.refilledAt = now;
+    if (usage.day !== day) {
+      usage.day = day;
+      usage.usedToday = 0;
+    }
+    return usage;
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * PDF Ration Card
+ *
+ * Lays out a diet report as a one-page A5 card for farmers: the feeds and
+ * daily amounts, cost per day and per litre of milk, and short advice drawn
+ * from nutrient shortfalls and backend warnings. Rendered with the in-process
+ * PDF writer so cards can be shared over WhatsApp and SMS channels.
+ *
+ * The built-in PDF fonts only cover Latin script, so cards for languages
+ * written in another script (Amharic) are produced in English.
+ */
+
+import { PdfPage, truncateText, wrapText } from './pdf.js';
+import { ReportModel, formatNumber } from './report.js';
+import { LANGUAGE_INFO, Language, MessageKey, t } from './i18n.js';
+
+export interface RationCardOptions {
+  /** Date printed on the card, defaults to today */
+  date?: Date;
+  /** Maximum number of advice lines */
+  maxAdvice?: number;
+}
+
+/** A5 portrait, in points */
+const PAGE_WIDTH = 420;
+const PAGE_HEIGHT = 595;
+const MARGIN = 30;
+const ROW_HEIGHT = 16;
+const FOOTER_Y = PAGE_HEIGHT - 20;
+/** Milk density, kg per litre */
+export const MILK_DENSITY = 1.03;
+
+const COLUMNS = {
+  feed: MARGIN + 4,
+  amount: 250,
+  price: 320,
+  cost: PAGE_WIDTH - MARGIN - 4
+};
+
+/**
+ * Language a ration card can be printed in: the requested one if its script
+ * is supported by the PDF fonts, otherwise English
+ */
+export function rationCardLanguage(language: Language): Language {
+  return LANGUAGE_INFO[language].script === 'latin' ? language : 'en';
+}
+
+/**
+ * Cost of the ration per litre of milk, or undefined when the animal is not milking
+ */
+export function costPerLitre(report: ReportModel): number | undefined {
+  const milkKg = report.milk_kg_per_day;
+  if (!milkKg || milkKg <= 0) return undefined;
+  return report.totals.cost / (milkKg / MILK_DENSITY);
+}
+
+/**
+ * Advice lines for the card: nutrient shortfalls first, then report notes
+ */
+export function rationCardAdvice(report: ReportModel, maxAdvice: number = 5): string[] {
+  const advice = [
+    ...report.nutrients
+      .filter(n => n.status !== 'ok')
+      .map(n => {
+        const limit = n.status === 'short' ? n.requirement?.min : n.requirement?.max;
+        const gap = n.balance ?? (n.supply !== undefined && limit !== undefined ? n.supply - limit : 0);
+        return t(report.language, n.status === 'short' ? 'card.short' : 'card.over', {
+          nutrient: n.nutrient,
+          amount: `${formatNumber(Math.abs(gap))} ${n.unit}`.trim()
+        });
+      }),
+    ...report.notes
+  ];
+  return advice.slice(0, maxAdvice);
+}
+
+/**
+ * Render a diet report as a one-page PDF ration card
+ */
+export function renderRationCard(report: ReportModel, options: RationCardOptions = {}): Buffer {
+  const page = new PdfPage(PAGE_WIDTH, PAGE_HEIGHT);
+  const label = (key: MessageKey) => t(report.language, key);
+  const contentWidth = PAGE_WIDTH - 2 * MARGIN;
+  const currency = report.currency ? ` ${report.currency}` : '';
+  const date = (options.date ?? new Date()).toISOString().slice(0, 10);
+
+  // Header
+  page.rect(0, 0, PAGE_WIDTH, 78, 0.9);
+  page.text(MARGIN, 34, label('card.title'), { size: 18, bold: true });
+  page.text(PAGE_WIDTH - MARGIN, 34, date, { size: 9, align: 'right', gray: 0.3 });
+  if (report.subtitle) {
+    page.text(MARGIN, 56, truncateText(report.subtitle, contentWidth, 10), { size: 10 });
+  }
+  page.text(MARGIN, 70, report.title, { size: 8, gray: 0.3 });
+
+  // Feed table
+  let y = 104;
+  page.text(COLUMNS.feed, y, label('report.feed'), { size: 9, bold: true });
+  page.text(COLUMNS.amount, y, label('unit.kg_day'), { size: 9, bold: true, align: 'right' });
+  page.text(COLUMNS.price, y, `${label('report.price_per_kg')}${currency}`, { size: 9, bold: true, align: 'right' });
+  page.text(COLUMNS.cost, y, label('card.cost_day'), { size: 9, bold: true, align: 'right' });
+  page.line(MARGIN, y + 5, PAGE_WIDTH - MARGIN, y + 5, 0.8);
+
+  // Leave room for the totals, cost summary and at least two advice lines
+  const maxRows = Math.floor((PAGE_HEIGHT - 290 - y) / ROW_HEIGHT);
+  const shown = report.feeds.length > maxRows ? report.feeds.slice(0, maxRows - 1) : report.feeds;
+  for (const line of shown) {
+    y += ROW_HEIGHT;
+    page.text(COLUMNS.feed, y, truncateText(line.feed, COLUMNS.amount - COLUMNS.feed - 50, 10), { size: 10 });
+    page.text(COLUMNS.amount, y, formatNumber(line.as_fed_kg, 1), { size: 10, align: 'right' });
+    page.text(COLUMNS.price, y, formatNumber(line.price_per_kg), { size: 10, align: 'right' });
+    page.text(COLUMNS.cost, y, formatNumber(line.cost), { size: 10, align: 'right' });
+  }
+  if (shown.length < report.feeds.length) {
+    y += ROW_HEIGHT;
+    page.text(COLUMNS.feed, y, t(report.language, 'card.more_feeds', { count: report.feeds.length - shown.length }), { size: 9, gray: 0.3 });
+  }
+  page.line(MARGIN, y + 6, PAGE_WIDTH - MARGIN, y + 6, 0.8);
+  y += ROW_HEIGHT + 2;
+  page.text(COLUMNS.feed, y, label('report.total'), { size: 10, bold: true });
+  page.text(COLUMNS.amount, y, formatNumber(report.totals.as_fed_kg, 1), { size: 10, bold: true, align: 'right' });
+  page.text(COLUMNS.cost, y, formatNumber(report.totals.cost), { size: 10, bold: true, align: 'right' });
+
+  // Cost summary
+  y += 30;
+  const perLitre = costPerLitre(report);
+  const summary: Array<[string, string]> = [
+    [label('card.cost_per_day'), `${formatNumber(report.totals.cost)}${currency}`],
+    [label('card.cost_per_litre'), perLitre !== undefined ? `${formatNumber(perLitre)}${currency}` : '-'],
+    [label('card.milk'), report.milk_kg_per_day !== undefined ? `${formatNumber(report.milk_kg_per_day, 1)} ${label('unit.kg_day')}` : '-']
+  ];
+  page.rect(MARGIN, y - 14, contentWidth, summary.length * 18 + 8, 0.95);
+  for (const [name, value] of summary) {
+    page.text(MARGIN + 8, y, name, { size: 11 });
+    page.text(PAGE_WIDTH - MARGIN - 8, y, value, { size: 11, bold: true, align: 'right' });
+    y += 18;
+  }
+
+  // Advice
+  const advice = rationCardAdvice(report, options.maxAdvice);
+  if (advice.length > 0) {
+    y += 20;
+    page.text(MARGIN, y, label('card.advice'), { size: 12, bold: true });
+    y += 4;
+    for (const item of advice) {
+      const lines = wrapText(item, contentWidth - 12, 9.5);
+      if (y + lines.length * 13 > FOOTER_Y - 14) break;
+      lines.forEach((text, i) => {
+        y += 13;
+        if (i === 0) page.text(MARGIN, y, '-', { size: 9.5 });
+        page.text(MARGIN + 10, y, text, { size: 9.5 });
+      });
+      y += 3;
+    }
+  }
+
+  page.line(MARGIN, FOOTER_Y - 10, PAGE_WIDTH - MARGIN, FOOTER_Y - 10, 0.3, 0.6);
+  page.text(PAGE_WIDTH / 2, FOOTER_Y, label('card.footer'), { size: 7, gray: 0.4, align: 'center' });
+  return page.toBuffer();
+}
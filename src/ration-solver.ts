@@ -0,0 +1,286 @@
+/**
+ * Local Least-Cost Ration Solver
+ *
+ * In-process formulation engine used when the remote diet recommendation
+ * endpoint is unavailable (or explicitly not wanted). Feeds are described by
+ * their FeedDetails nutrient columns and as-fed price; the solver finds the
+ * cheapest daily ration meeting the requirement constraints.
+ *
+ * Decision variables are kg of dry matter per day for each feed. Nutrient
+ * columns in FeedDetails are % of DM, except fd_dm which is % of as-fed.
+ */
+
+import { CattleInfo, FeedDetails } from './feed-client.js';
+import { LinearConstraint, solveLinearProgram } from './linear-program.js';
+import { calculateRequirements } from './requirements.js';
+import { round } from './utils.js';
+
+export interface Bound {
+  min?: number;
+  max?: number;
+}
+
+/** Nutrients that can be constrained as a percentage of diet DM */
+export type NutrientKey = 'cp' | 'ndf' | 'adf' | 'ee' | 'st' | 'ca' | 'p';
+
+export interface RationConstraints {
+  /** Dry matter intake, kg/day */
+  dm_intake_kg: Bound;
+  /** Net energy for lactation supplied, Mcal/day */
+  nel_mcal?: Bound;
+  /** Nutrient concentrations, % of diet DM */
+  nutrients_pct_dm?: Partial<Record<NutrientKey, Bound>>;
+  /** Share of diet DM from feeds typed as Forage, % */
+  forage_pct_dm?: Bound;
+}
+
+export interface SolverFeed {
+  feed: FeedDetails;
+  price_per_kg: number;
+  /** Optional as-fed limits for this feed, kg/day */
+  min_kg?: number;
+  max_kg?: number;
+}
+
+export interface RationLine {
+  feed_id: string;
+  feed_name: string;
+  feed_type: string;
+  quantity_as_fed_kg: number;
+  quantity_dm_kg: number;
+  price_per_kg: number;
+  cost: number;
+}
+
+export interface ConstraintCheck {
+  constraint: string;
+  value: number;
+  min?: number;
+  max?: number;
+  binding: boolean;
+}
+
+export interface RationSolution {
+  status: 'optimal' | 'infeasible';
+  message?: string;
+  feeds: RationLine[];
+  total_cost: number;
+  total_as_fed_kg: number;
+  total_dm_kg: number;
+  supply: {
+    nel_mcal: number;
+    nutrients_pct_dm: Record<NutrientKey, number>;
+    forage_pct_dm: number;
+  };
+  constraints: ConstraintCheck[];
+}
+
+const NUTRIENT_COLUMNS: Record<NutrientKey, keyof FeedDetails> = {
+  cp: 'fd_cp',
+  ndf: 'fd_ndf',
+  adf: 'fd_adf',
+  ee: 'fd_ee',
+  st: 'fd_st',
+  ca: 'fd_ca',
+  p: 'fd_p'
+};
+
+function nutrient(feed: FeedDetails, column: keyof FeedDetails): number {
+  const value = Number(feed[column]);
+  return Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Estimate NEL (Mcal/kg DM) from the proximate composition using the
+ * NRC (2001) summative TDN equation at maintenance and the NRC (1989)
+ * TDN to NEL conversion.
+ */
+export function estimateNelMcalPerKgDm(feed: FeedDetails): number {
+  const cp = nutrient(feed, 'fd_cp');
+  const ee = nutrient(feed, 'fd_ee');
+  const ndf = nutrient(feed, 'fd_ndf');
+  const ash = nutrient(feed, 'fd_ash');
+  const lignin = Math.min(nutrient(feed, 'fd_lg'), ndf);
+
+  const nfc = Math.max(0, 100 - (ndf + cp + ee + ash));
+  const fattyAcids = Math.max(0, ee - 1);
+  const tdNfc = 0.98 * nfc;
+  const tdCp = 0.93 * cp;
+  const tdNdf = ndf > 0 ? 0.75 * (ndf - lignin) * (1 - Math.pow(lignin / ndf, 0.667)) : 0;
+  const tdn = Math.max(0, tdNfc + tdCp + 2.25 * fattyAcids + tdNdf - 7);
+
+  return Math.max(0, 0.0245 * tdn - 0.12);
+}
+
+/**
+ * Default constraints for an animal: intake within ±10% of the estimate,
+ * energy, protein and mineral minimums from the requirement calculator,
+ * and typical dairy fibre and fat ranges
+ */
+export function defaultRationConstraints(cattle: CattleInfo): RationConstraints {
+  const requirements = calculateRequirements(cattle);
+  const dmi = requirements.dm_intake_kg;
+  // Metabolizable protein expressed as crude protein assuming ~64% conversion
+  const cpMin = Math.min(19, Math.max(10, requirements.mp_g.total / 0.64 / (dmi * 10)));
+
+  return {
+    dm_intake_kg: { min: round(dmi * 0.9), max: round(dmi * 1.1) },
+    nel_mcal: { min: requirements.nel_mcal.total },
+    nutrients_pct_dm: {
+      cp: { min: round(cpMin) },
+      ndf: { min: 28, max: 55 },
+      ee: { max: 7 },
+      ca: { min: requirements.diet_density.ca_pct_dm, max: Math.max(1, requirements.diet_density.ca_pct_dm) },
+      p: { min: requirements.diet_density.p_pct_dm }
+    },
+    forage_pct_dm: { min: 40 }
+  };
+}
+
+/**
+ * Merge caller-supplied constraints over the defaults, bound by bound
+ */
+export function mergeRationConstraints(
+  defaults: RationConstraints,
+  overrides: Partial<RationConstraints> = {}
+): RationConstraints {
+  const nutrients: Partial<Record<NutrientKey, Bound>> = { ...defaults.nutrients_pct_dm };
+  for (const [key, bound] of Object.entries(overrides.nutrients_pct_dm || {}) as [NutrientKey, Bound][]) {
+    nutrients[key] = { ...nutrients[key], ...bound };
+  }
+  return {
+    dm_intake_kg: { ...defaults.dm_intake_kg, ...overrides.dm_intake_kg },
+    nel_mcal: { ...defaults.nel_mcal, ...overrides.nel_mcal },
+    nutrients_pct_dm: nutrients,
+    forage_pct_dm: { ...defaults.forage_pct_dm, ...overrides.forage_pct_dm }
+  };
+}
+
+/**
+ * Find the least-cost ration that meets the constraints
+ */
+export function solveLeastCostRation(feeds: SolverFeed[], constraints: RationConstraints): RationSolution {
+  if (feeds.length === 0) {
+    throw new Error('At least one feed is required for formulation');
+  }
+  for (const { feed } of feeds) {
+    if (!(nutrient(feed, 'fd_dm') > 0)) {
+      throw new Error(`Feed ${feed.fd_name || feed.feed_id} has no dry matter content (fd_dm)`);
+    }
+  }
+
+  const dmFraction = feeds.map(f => nutrient(f.feed, 'fd_dm') / 100);
+  const nel = feeds.map(f => estimateNelMcalPerKgDm(f.feed));
+  const isForage = feeds.map(f => (f.feed.fd_type === 'Forage' ? 1 : 0));
+  const lpConstraints: LinearConstraint[] = [];
+
+  const addBound = (name: string, coefficients: number[], bound: Bound | undefined) => {
+    if (bound?.min !== undefined) lpConstraints.push({ name, coefficients, sense: '>=', rhs: bound.min });
+    if (bound?.max !== undefined) lpConstraints.push({ name, coefficients, sense: '<=', rhs: bound.max });
+  };
+  // Concentration bounds are linear once multiplied through by total DM: Σ x·(n - limit) ≷ 0
+  const addPercentBound = (name: string, values: number[], bound: Bound | undefined) => {
+    if (bound?.min !== undefined) {
+      lpConstraints.push({ name, coefficients: values.map(v => v - bound.min!), sense: '>=', rhs: 0 });
+    }
+    if (bound?.max !== undefined) {
+      lpConstraints.push({ name, coefficients: values.map(v => v - bound.max!), sense: '<=', rhs: 0 });
+    }
+  };
+
+  addBound('dm_intake_kg', feeds.map(() => 1), constraints.dm_intake_kg);
+  addBound('nel_mcal', nel, constraints.nel_mcal);
+  for (const [key, bound] of Object.entries(constraints.nutrients_pct_dm || {}) as [NutrientKey, Bound][]) {
+    addPercentBound(`${key}_pct_dm`, feeds.map(f => nutrient(f.feed, NUTRIENT_COLUMNS[key])), bound);
+  }
+  addPercentBound('forage_pct_dm', isForage.map(v => v * 100), constraints.forage_pct_dm);
+
+  // Per-feed as-fed limits, converted to DM
+  feeds.forEach((f, i) => {
+    const coefficients = feeds.map((_, j) => (j === i ? 1 : 0));
+    addBound(`feed:${f.feed.feed_id}`, coefficients, {
+      min: f.min_kg !== undefined ? f.min_kg * dmFraction[i] : undefined,
+      max: f.max_kg !== undefined ? f.max_kg * dmFraction[i] : undefined
+    });
+  });
+
+  const costPerKgDm = feeds.map((f, i) => f.price_per_kg / dmFraction[i]);
+  const result = solveLinearProgram({ objective: costPerKgDm, constraints: lpConstraints });
+
+  if (result.status !== 'optimal') {
+    return buildSolution(feeds, feeds.map(() => 0), nel, constraints, 'infeasible',
+      'No combination of the selected feeds meets the requirement constraints. Add feeds with more of the limiting nutrients or relax the constraints.');
+  }
+  return buildSolution(feeds, result.x, nel, constraints, 'optimal');
+}
+
+function buildSolution(
+  feeds: SolverFeed[],
+  dmKg: number[],
+  nel: number[],
+  constraints: RationConstraints,
+  status: RationSolution['status'],
+  message?: string
+): RationSolution {
+  const totalDm = dmKg.reduce((sum, x) => sum + x, 0);
+  const lines: RationLine[] = feeds
+    .map((f, i) => {
+      const asFed = dmKg[i] / (nutrient(f.feed, 'fd_dm') / 100);
+      return {
+        feed_id: f.feed.feed_id,
+        feed_name: f.feed.fd_name,
+        feed_type: f.feed.fd_type,
+        quantity_as_fed_kg: round(asFed, 3),
+        quantity_dm_kg: round(dmKg[i], 3),
+        price_per_kg: f.price_per_kg,
+        cost: round(asFed * f.price_per_kg)
+      };
+    })
+    .filter(line => line.quantity_dm_kg > 0.0005);
+
+  const percentOfDm = (values: number[]) =>
+    totalDm > 0 ? round(values.reduce((sum, v, i) => sum + v * dmKg[i], 0) / totalDm) : 0;
+  const nutrientsPct = Object.fromEntries(
+    (Object.keys(NUTRIENT_COLUMNS) as NutrientKey[]).map(key => [
+      key,
+      percentOfDm(feeds.map(f => nutrient(f.feed, NUTRIENT_COLUMNS[key])))
+    ])
+  ) as Record<NutrientKey, number>;
+  const nelSupply = round(nel.reduce((sum, v, i) => sum + v * dmKg[i], 0));
+  const foragePct = percentOfDm(feeds.map(f => (f.feed.fd_type === 'Forage' ? 100 : 0)));
+
+  const checks: ConstraintCheck[] = [];
+  const check = (name: string, value: number, bound: Bound | undefined) => {
+    if (bound?.min === undefined && bound?.max === undefined) return;
+    const tolerance = 1e-3 * Math.max(1, Math.abs(value));
+    checks.push({
+      constraint: name,
+      value,
+      min: bound.min,
+      max: bound.max,
+      binding: (bound.min !== undefined && Math.abs(value - bound.min) <= tolerance) ||
+        (bound.max !== undefined && Math.abs(value - bound.max) <= tolerance)
+    });
+  };
+  check('dm_intake_kg', round(totalDm), constraints.dm_intake_kg);
+  check('nel_mcal', nelSupply, constraints.nel_mcal);
+  for (const [key, bound] of Object.entries(constraints.nutrients_pct_dm || {}) as [NutrientKey, Bound][]) {
+    check(`${key}_pct_dm`, nutrientsPct[key], bound);
+  }
+  check('forage_pct_dm', foragePct, constraints.forage_pct_dm);
+
+  return {
+    status,
+    message,
+    feeds: lines,
+    total_cost: round(lines.reduce((sum, l) => sum + l.cost, 0)),
+    total_as_fed_kg: round(lines.reduce((sum, l) => sum + l.quantity_as_fed_kg, 0)),
+    total_dm_kg: round(totalDm),
+    supply: {
+      nel_mcal: nelSupply,
+      nutrients_pct_dm: nutrientsPct,
+      forage_pct_dm: foragePct
+    },
+    constraints: checks
+  };
+}
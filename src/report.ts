@@ -0,0 +1,631 @@
+/**
+ * Diet Report Rendering
+ *
+ * Turns diet evaluation and recommendation results into a printable ration
+ * sheet: feed table (as-fed and DM kg, cost), nutrient supply against
+ * requirement with shortfalls flagged, and methane. Results are first mapped
+ * to a format-neutral ReportModel, which the Markdown and HTML renderers share.
+ */
+
+import { CattleInfo } from './feed-client.js';
+import { DietEvaluationResponse } from './api-schemas.js';
+import { Bound, ConstraintCheck } from './ration-solver.js';
+import { DietRecommendationOutput } from './tool-schemas.js';
+import { PriceSensitivity } from './price-sensitivity.js';
+import { FeedNameCatalogue } from './feed-names.js';
+import { ConvertedCosts } from './currency.js';
+import { DefaultedPrice } from './price-book.js';
+import { Language, MessageKey, t } from './i18n.js';
+import { round } from './utils.js';
+
+export type ReportFormat = 'json' | 'markdown' | 'html';
+
+export interface ReportFeedLine {
+  feed: string;
+  as_fed_kg: number;
+  dm_kg?: number;
+  price_per_kg?: number;
+  cost?: number;
+}
+
+export type NutrientStatus = 'ok' | 'short' | 'over';
+
+export interface ReportNutrientLine {
+  nutrient: string;
+  unit: string;
+  supply?: number;
+  requirement?: Bound;
+  /** Supply minus requirement, when known */
+  balance?: number;
+  status: NutrientStatus;
+}
+
+/** Diet cost at a range of prices for one feed */
+export interface ReportSensitivity {
+  /** Summary line, e.g. the break-even price */
+  summary: string;
+  points: Array<{ price_per_kg: number; quantity_as_fed_kg: number; cost: number; cost_per_litre: number | null }>;
+}
+
+export interface ReportModel {
+  /** Language of the labels; renderers use it for headings */
+  language: Language;
+  title: string;
+  /** Animal description, e.g. group name and profile */
+  subtitle?: string;
+  currency?: string;
+  feeds: ReportFeedLine[];
+  totals: {
+    as_fed_kg: number;
+    dm_kg?: number;
+    cost: number;
+  };
+  /** Milk yield the ration is costed against, kg/day */
+  milk_kg_per_day?: number;
+  nutrients: ReportNutrientLine[];
+  methane?: {
+    g_per_day: number;
+    yield_g_per_kg_dmi?: number;
+    intensity_g_per_kg_ecm?: number;
+  };
+  /** Price sensitivity tables, one per feed */
+  sensitivity?: ReportSensitivity[];
+  notes: string[];
+}
+
+export interface ReportSubject {
+  cattle: CattleInfo;
+  /** Animal group the result was computed for */
+  group?: { name: string; head_count: number };
+  currency?: string;
+  /** Total cost converted to the reference currency, noted below the ration */
+  costs?: ConvertedCosts;
+  /** Prices filled in from the price book, noted below the ration */
+  defaultedPrices?: DefaultedPrice[];
+  /** Output language, English by default */
+  language?: Language;
+  /** Translations for feed display names */
+  feedNames?: FeedNameCatalogue;
+}
+
+/** Relative tolerance before a value counts as outside its bound */
+const TOLERANCE = 1e-3;
+
+const CONSTRAINT_LABELS: Record<string, { nutrient: MessageKey; unit: MessageKey }> = {
+  dm_intake_kg: { nutrient: 'nutrient.dm_intake', unit: 'unit.kg_day' },
+  nel_mcal: { nutrient: 'nutrient.nel', unit: 'unit.mcal_day' },
+  cp_pct_dm: { nutrient: 'nutrient.cp', unit: 'unit.pct_dm' },
+  ndf_pct_dm: { nutrient: 'nutrient.ndf', unit: 'unit.pct_dm' },
+  adf_pct_dm: { nutrient: 'nutrient.adf', unit: 'unit.pct_dm' },
+  ee_pct_dm: { nutrient: 'nutrient.ee', unit: 'unit.pct_dm' },
+  st_pct_dm: { nutrient: 'nutrient.st', unit: 'unit.pct_dm' },
+  ca_pct_dm: { nutrient: 'nutrient.ca', unit: 'unit.pct_dm' },
+  p_pct_dm: { nutrient: 'nutrient.p', unit: 'unit.pct_dm' },
+  forage_pct_dm: { nutrient: 'nutrient.forage', unit: 'unit.pct_dm' }
+};
+
+function statusFor(value: number, bound: Bound): NutrientStatus {
+  const tolerance = TOLERANCE * Math.max(1, Math.abs(value));
+  if (bound.min !== undefined && value < bound.min - tolerance) return 'short';
+  if (bound.max !== undefined && value > bound.max + tolerance) return 'over';
+  return 'ok';
+}
+
+function balanceLine(
+  language: Language,
+  nutrient: MessageKey,
+  unit: MessageKey,
+  balance: number | undefined
+): ReportNutrientLine[] {
+  if (balance === undefined) return [];
+  return [{
+    nutrient: t(language, nutrient),
+    unit: t(language, unit),
+    balance,
+    status: balance < -TOLERANCE ? 'short' : 'ok'
+  }];
+}
+
+/** Supply against a minimum, left out when the backend did not report the supply */
+function supplyLine(
+  language: Language,
+  nutrient: MessageKey,
+  supply: number | undefined,
+  target: number | undefined
+): ReportNutrientLine[] {
+  if (supply === undefined) return [];
+  const requirement = target === undefined ? undefined : { min: target };
+  return [{
+    nutrient: t(language, nutrient),
+    unit: t(language, 'unit.kg_day'),
+    supply,
+    requirement,
+    balance: target === undefined ? undefined : supply - target,
+    status: requirement ? statusFor(supply, requirement) : 'ok'
+  }];
+}
+
+function balanceLines(
+  language: Language,
+  balance: { energy_balance_mcal?: number; protein_balance_kg?: number; calcium_balance_kg?: number; phosphorus_balance_kg?: number } | undefined
+): ReportNutrientLine[] {
+  return [
+    ...balanceLine(language, 'nutrient.energy_balance', 'unit.mcal_day', balance?.energy_balance_mcal),
+    ...balanceLine(language, 'nutrient.protein_balance', 'unit.kg_day', balance?.protein_balance_kg),
+    ...balanceLine(language, 'nutrient.calcium_balance', 'unit.kg_day', balance?.calcium_balance_kg),
+    ...balanceLine(language, 'nutrient.phosphorus_balance', 'unit.kg_day', balance?.phosphorus_balance_kg)
+  ];
+}
+
+function describeSubject({ cattle, group, language = 'en' }: ReportSubject): string {
+  const profile = [
+    cattle.breed,
+    `${cattle.body_weight} kg`,
+    ...(cattle.lactating
+      ? [t(language, 'report.milk_per_day', { milk: cattle.milk_production }), t(language, 'report.days_in_milk', { days: cattle.days_in_milk })]
+      : [t(language, 'report.not_lactating')])
+  ].join(', ');
+  return group ? `${group.name} (${t(language, 'report.head', { count: group.head_count })}) - ${profile}` : profile;
+}
+
+function feedName({ feedNames, language = 'en' }: ReportSubject, feedId: string | undefined, name: string): string {
+  return feedNames ? feedNames.displayName({ feed_id: feedId, name }, language) : name;
+}
+
+/**
+ * Build a report model from a diet evaluation
+ *
+ * @param evaluation - Validated backend evaluation response
+ * @param subject - Animal the diet was evaluated for
+ * @param feeds - Evaluated feeds, used when the backend returns no usable feed breakdown
+ */
+export function buildEvaluationReport(
+  evaluation: DietEvaluationResponse,
+  subject: ReportSubject,
+  feeds: Array<{ feed_id: string; quantity_as_fed: number; price_per_kg: number }> = []
+): ReportModel {
+  const language = subject.language ?? 'en';
+  const breakdown = evaluation.feed_breakdown?.every(f => f.feed_name !== undefined && f.quantity_as_fed_kg_day !== undefined)
+    ? evaluation.feed_breakdown
+    : undefined;
+  const lines: ReportFeedLine[] = breakdown
+    ? breakdown.map(f => ({
+        feed: feedName(subject, f.feed_id, f.feed_name!),
+        as_fed_kg: f.quantity_as_fed_kg_day!,
+        dm_kg: f.quantity_dm_kg_day,
+        price_per_kg: f.price_per_kg,
+        cost: f.total_cost ?? (f.price_per_kg !== undefined ? f.quantity_as_fed_kg_day! * f.price_per_kg : undefined)
+      }))
+    : feeds.map(f => ({
+        feed: feedName(subject, f.feed_id, f.feed_id),
+        as_fed_kg: f.quantity_as_fed,
+        price_per_kg: f.price_per_kg,
+        cost: f.quantity_as_fed * f.price_per_kg
+      }));
+
+  const intake = evaluation.intake_evaluation;
+  const milk = evaluation.milk_production_analysis;
+  const methane = evaluation.methane_analysis;
+  const nutrients: ReportNutrientLine[] = [
+    ...supplyLine(language, 'nutrient.dm_intake', intake?.actual_intake_kg_day, intake?.target_intake_kg_day),
+    ...supplyLine(language, 'nutrient.milk_supported', milk?.actual_milk_supported_kg_day, milk?.target_production_kg_day),
+    ...balanceLines(language, evaluation.nutrient_balance)
+  ];
+
+  const notes = [...(evaluation.warnings ?? []), ...(evaluation.recommendations ?? [])];
+  if (milk?.limiting_nutrient) {
+    notes.unshift(t(language, 'report.limiting_nutrient', { nutrient: milk.limiting_nutrient }));
+  }
+  notes.push(...referenceCostNote(language, subject.costs));
+  notes.push(...priceBookNote(subject, evaluation.feed_breakdown ?? []));
+
+  return {
+    language,
+    title: t(language, 'report.evaluation_title'),
+    subtitle: describeSubject(subject),
+    currency: subject.currency ?? evaluation.cost_analysis?.currency ?? evaluation.currency,
+    feeds: lines,
+    totals: {
+      as_fed_kg: sum(lines.map(l => l.as_fed_kg)),
+      dm_kg: lines.every(l => l.dm_kg !== undefined) ? sum(lines.map(l => l.dm_kg!)) : undefined,
+      cost: evaluation.cost_analysis?.total_diet_cost_as_fed ?? sum(lines.map(l => l.cost ?? 0))
+    },
+    milk_kg_per_day: milk?.actual_milk_supported_kg_day,
+    nutrients,
+    methane: methane?.methane_production_g_per_day !== undefined
+      ? {
+          g_per_day: methane.methane_production_g_per_day,
+          yield_g_per_kg_dmi: methane.methane_yield_g_per_kg_dmi,
+          intensity_g_per_kg_ecm: methane.methane_intensity_g_per_kg_ecm
+        }
+      : undefined,
+    notes
+  };
+}
+
+function constraintLine(language: Language, check: ConstraintCheck): ReportNutrientLine {
+  const label = CONSTRAINT_LABELS[check.constraint];
+  const bound = { min: check.min, max: check.max };
+  return {
+    nutrient: label ? t(language, label.nutrient) : check.constraint,
+    unit: label ? t(language, label.unit) : '',
+    supply: check.value,
+    requirement: bound,
+    status: statusFor(check.value, bound)
+  };
+}
+
+/**
+ * Build a report model from a diet recommendation, remote or local
+ */
+export function buildRecommendationReport(output: DietRecommendationOutput, subject: ReportSubject): ReportModel {
+  const language = subject.language ?? 'en';
+  const title = t(language, 'report.recommendation_title');
+  const notes: string[] = [];
+  if (output.fallback_reason) {
+    notes.push(t(language, 'report.fallback', { reason: output.fallback_reason }));
+  }
+  notes.push(...referenceCostNote(language, subject.costs));
+  if (output.sensitivity?.message) notes.push(output.sensitivity.message);
+  const sensitivity = sensitivityTables(subject, output.sensitivity);
+
+  if (output.local_solution) {
+    const solution = output.local_solution;
+    if (solution.message) notes.push(solution.message);
+    notes.push(...priceBookNote(subject, solution.feeds));
+    return {
+      language,
+      title,
+      subtitle: describeSubject(subject),
+      currency: subject.currency,
+      feeds: solution.feeds.map(l => ({
+        feed: feedName(subject, l.feed_id, l.feed_name),
+        as_fed_kg: l.quantity_as_fed_kg,
+        dm_kg: l.quantity_dm_kg,
+        price_per_kg: l.price_per_kg,
+        cost: l.cost
+      })),
+      totals: {
+        as_fed_kg: solution.total_as_fed_kg,
+        dm_kg: solution.total_dm_kg,
+        cost: solution.total_cost
+      },
+      milk_kg_per_day: subject.cattle.lactating ? subject.cattle.milk_production : undefined,
+      nutrients: solution.status === 'optimal' ? solution.constraints.map(check => constraintLine(language, check)) : [],
+      sensitivity,
+      notes
+    };
+  }
+
+  const recommendation = output.recommendation!;
+  const diet = recommendation.least_cost_diet ?? [];
+  const lines: ReportFeedLine[] = diet.map(d => ({
+    feed: feedName(subject, d.feed_id, d.feed_name ?? d.feed_id ?? '-'),
+    as_fed_kg: d.quantity_kg_per_day ?? 0,
+    dm_kg: d.dm_kg_per_day,
+    price_per_kg: d.price_per_kg,
+    cost: d.daily_cost
+  }));
+  const methane = recommendation.methane_analysis?.methane_production_g_per_day;
+  notes.push(...priceBookNote(subject, diet));
+  notes.push(...(recommendation.warnings ?? []));
+
+  return {
+    language,
+    title,
+    subtitle: describeSubject(subject),
+    currency: subject.currency ?? recommendation.currency,
+    feeds: lines,
+    totals: {
+      as_fed_kg: sum(lines.map(l => l.as_fed_kg)),
+      dm_kg: recommendation.dry_matter_intake_kg ??
+        (lines.every(l => l.dm_kg !== undefined) ? sum(lines.map(l => l.dm_kg!)) : undefined),
+      cost: recommendation.total_diet_cost ?? sum(lines.map(l => l.cost ?? 0))
+    },
+    milk_kg_per_day: recommendation.milk_production_kg_day ??
+      (subject.cattle.lactating ? subject.cattle.milk_production : undefined),
+    nutrients: balanceLines(language, recommendation.nutrient_balance),
+    methane: methane !== undefined
+      ? {
+          g_per_day: methane,
+          intensity_g_per_kg_ecm: recommendation.methane_analysis?.methane_intensity_g_per_kg_ecm
+        }
+      : undefined,
+    sensitivity,
+    notes
+  };
+}
+
+/**
+ * Note giving the daily cost in the reference currency, when it differs
+ * from the local one and a rate is known, or why the costs have no currency
+ */
+function referenceCostNote(language: Language, costs: ConvertedCosts | undefined): string[] {
+  if (costs?.warning) return [costs.warning];
+  const cost = costs?.reference?.total_diet_cost;
+  if (!costs?.currency || cost === undefined || costs.currency === costs.reference_currency) return [];
+  return [t(language, 'report.reference_cost', {
+    cost: formatNumber(cost),
+    currency: costs.reference_currency,
+    rate: formatNumber(costs.exchange_rate!, 6),
+    local: costs.currency,
+    as_of: costs.rates_as_of ?? '-'
+  })];
+}
+
+/**
+ * One table per feed of the diet cost across the prices tried
+ */
+function sensitivityTables(subject: ReportSubject, sensitivity: PriceSensitivity | undefined): ReportSensitivity[] | undefined {
+  if (!sensitivity || sensitivity.feeds.length === 0) return undefined;
+  const language = subject.language ?? 'en';
+  return sensitivity.feeds.map(feed => {
+    const name = feedName(subject, feed.feed_id, feed.feed_name);
+    return {
+      summary: feed.in_diet === 'below_break_even'
+        ? t(language, 'report.break_even', { feed: name, price: formatNumber(feed.break_even_price!, 3) })
+        : t(language, feed.in_diet === 'always' ? 'report.always_in_diet' : 'report.never_in_diet', { feed: name }),
+      points: feed.points.map(point => ({
+        price_per_kg: point.price_per_kg,
+        quantity_as_fed_kg: point.quantity_as_fed_kg,
+        cost: point.total_cost,
+        cost_per_litre: point.cost_per_litre
+      }))
+    };
+  });
+}
+
+/**
+ * Note listing the feed prices taken from the price book
+ */
+function priceBookNote(subject: ReportSubject, feeds: Array<{ feed_id?: string; feed_name?: string }>): string[] {
+  const prices = subject.defaultedPrices ?? [];
+  if (prices.length === 0) return [];
+  const list = prices.map(price => {
+    const name = feeds.find(f => f.feed_id === price.feed_id)?.feed_name ?? price.feed_id;
+    return `${feedName(subject, price.feed_id, name)} ${formatNumber(price.price_per_kg)} (${price.date})`;
+  });
+  return [t(subject.language ?? 'en', 'report.price_book', { prices: list.join(', ') })];
+}
+
+function sum(values: number[]): number {
+  return round(values.reduce((total, v) => total + v, 0));
+}
+
+export function formatNumber(value: number | undefined, digits: number = 2): string {
+  if (value === undefined) return '-';
+  return value.toLocaleString('en-US', { maximumFractionDigits: digits });
+}
+
+function formatBound(bound: Bound | undefined): string {
+  if (!bound || (bound.min === undefined && bound.max === undefined)) return '-';
+  if (bound.min !== undefined && bound.max !== undefined) {
+    return `${formatNumber(bound.min)} - ${formatNumber(bound.max)}`;
+  }
+  return bound.min !== undefined ? `≥ ${formatNumber(bound.min)}` : `≤ ${formatNumber(bound.max)}`;
+}
+
+function formatBalance(balance: number | undefined): string {
+  if (balance === undefined) return '-';
+  const text = formatNumber(balance);
+  return balance > 0 && text !== '0' ? `+${text}` : text;
+}
+
+const STATUS_KEYS: Record<NutrientStatus, MessageKey> = {
+  ok: 'report.status_ok',
+  short: 'report.status_short',
+  over: 'report.status_over'
+};
+
+function costHeader(language: Language, currency: string | undefined): string {
+  const cost = t(language, 'report.cost');
+  return currency ? `${cost} (${currency})` : cost;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+/**
+ * Render a report model as a Markdown ration sheet
+ */
+export function renderMarkdown(report: ReportModel): string {
+  const label = (key: MessageKey) => t(report.language, key);
+  const out: string[] = [`# ${report.title}`];
+  if (report.subtitle) out.push('', `**${label('report.animal')}:** ${report.subtitle}`);
+
+  out.push(
+    '',
+    `## ${label('report.ration')}`,
+    '',
+    `| ${label('report.feed')} | ${label('report.as_fed')} | ${label('report.dm')} | ${label('report.price_per_kg')} | ${costHeader(report.language, report.currency)} |`,
+    '|---|---:|---:|---:|---:|'
+  );
+  for (const line of report.feeds) {
+    out.push(`| ${escapeMarkdown(line.feed)} | ${formatNumber(line.as_fed_kg)} | ${formatNumber(line.dm_kg)} | ${formatNumber(line.price_per_kg)} | ${formatNumber(line.cost)} |`);
+  }
+  out.push(`| **${label('report.total')}** | **${formatNumber(report.totals.as_fed_kg)}** | **${formatNumber(report.totals.dm_kg)}** | | **${formatNumber(report.totals.cost)}** |`);
+
+  if (report.nutrients.length > 0) {
+    out.push(
+      '',
+      `## ${label('report.nutrients')}`,
+      '',
+      `| ${label('report.nutrient')} | ${label('report.supply')} | ${label('report.requirement')} | ${label('report.balance')} | ${label('report.status')} |`,
+      '|---|---:|---:|---:|---|'
+    );
+    for (const n of report.nutrients) {
+      const unit = n.unit ? ` (${n.unit})` : '';
+      const status = n.status === 'ok' ? label(STATUS_KEYS.ok) : `⚠️ **${label(STATUS_KEYS[n.status])}**`;
+      out.push(`| ${n.nutrient}${unit} | ${formatNumber(n.supply)} | ${formatBound(n.requirement)} | ${formatBalance(n.balance)} | ${status} |`);
+    }
+  }
+
+  if (report.methane) {
+    out.push('', `## ${label('report.methane')}`, '', ...methaneLines(report).map(line => `- ${line}`));
+  }
+
+  if (report.sensitivity) {
+    out.push('', `## ${label('report.sensitivity')}`);
+    for (const table of report.sensitivity) {
+      out.push(
+        '',
+        `**${escapeMarkdown(table.summary)}**`,
+        '',
+        `| ${label('report.price_per_kg')} | ${label('report.in_diet')} | ${costHeader(report.language, report.currency)} | ${label('report.cost_per_litre')} |`,
+        '|---:|---:|---:|---:|',
+        ...table.points.map(p => `| ${formatNumber(p.price_per_kg, 3)} | ${formatNumber(p.quantity_as_fed_kg)} | ${formatNumber(p.cost)} | ${formatNumber(p.cost_per_litre ?? undefined)} |`)
+      );
+    }
+  }
+
+  if (report.notes.length > 0) {
+    out.push('', `## ${label('report.notes')}`, '', ...report.notes.map(note => `- ${note}`));
+  }
+  return out.join('\n') + '\n';
+}
+
+function methaneLines(report: ReportModel): string[] {
+  const methane = report.methane;
+  if (!methane) return [];
+  const label = (key: MessageKey) => t(report.language, key);
+  const lines = [`${label('report.methane_production')}: ${formatNumber(methane.g_per_day, 0)} ${label('unit.g_day')}`];
+  if (methane.yield_g_per_kg_dmi !== undefined) {
+    lines.push(`${label('report.methane_yield')}: ${formatNumber(methane.yield_g_per_kg_dmi, 1)} g/kg DMI`);
+  }
+  if (methane.intensity_g_per_kg_ecm !== undefined) {
+    lines.push(`${label('report.methane_intensity')}: ${formatNumber(methane.intensity_g_per_kg_ecm, 1)} g/kg ECM`);
+  }
+  return lines;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `body { font-family: Arial, Helvetica, sans-serif; margin: 24px; color: #222; }
+h1 { font-size: 20px; margin-bottom: 4px; }
+h2 { font-size: 16px; margin-top: 20px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #999; padding: 4px 8px; }
+th { background: #eee; text-align: left; }
+td.num { text-align: right; }
+tr.total td { font-weight: bold; }
+tr.short td { background: #fde2e2; }
+tr.over td { background: #fff3cd; }
+td.status { font-weight: bold; }
+@media print { body { margin: 0; } }`;
+
+/**
+ * Render a report model as a standalone, printable HTML document
+ */
+export function renderHtml(report: ReportModel): string {
+  const e = escapeHtml;
+  const label = (key: MessageKey) => t(report.language, key);
+  const cell = (value: string, className?: string) =>
+    `<td${className ? ` class="${className}"` : ''}>${e(value)}</td>`;
+  const header = (labels: string[]) => `<tr>${labels.map(l => `<th>${e(l)}</th>`).join('')}</tr>`;
+  const out: string[] = [
+    '<!DOCTYPE html>',
+    `<html lang="${report.language}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${e(report.title)}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${e(report.title)}</h1>`
+  ];
+  if (report.subtitle) out.push(`<p><strong>${e(label('report.animal'))}:</strong> ${e(report.subtitle)}</p>`);
+
+  out.push(
+    `<h2>${e(label('report.ration'))}</h2>`,
+    '<table>',
+    header([
+      label('report.feed'),
+      label('report.as_fed'),
+      label('report.dm'),
+      label('report.price_per_kg'),
+      costHeader(report.language, report.currency)
+    ])
+  );
+  for (const line of report.feeds) {
+    out.push('<tr>' + [
+      cell(line.feed),
+      cell(formatNumber(line.as_fed_kg), 'num'),
+      cell(formatNumber(line.dm_kg), 'num'),
+      cell(formatNumber(line.price_per_kg), 'num'),
+      cell(formatNumber(line.cost), 'num')
+    ].join('') + '</tr>');
+  }
+  out.push('<tr class="total">' + [
+    cell(label('report.total')),
+    cell(formatNumber(report.totals.as_fed_kg), 'num'),
+    cell(formatNumber(report.totals.dm_kg), 'num'),
+    cell(''),
+    cell(formatNumber(report.totals.cost), 'num')
+  ].join('') + '</tr>', '</table>');
+
+  if (report.nutrients.length > 0) {
+    out.push(
+      `<h2>${e(label('report.nutrients'))}</h2>`,
+      '<table>',
+      header([
+        label('report.nutrient'),
+        label('report.supply'),
+        label('report.requirement'),
+        label('report.balance'),
+        label('report.status')
+      ])
+    );
+    for (const n of report.nutrients) {
+      out.push(`<tr class="${n.status}">` + [
+        cell(n.unit ? `${n.nutrient} (${n.unit})` : n.nutrient),
+        cell(formatNumber(n.supply), 'num'),
+        cell(formatBound(n.requirement), 'num'),
+        cell(formatBalance(n.balance), 'num'),
+        cell(label(STATUS_KEYS[n.status]), 'status')
+      ].join('') + '</tr>');
+    }
+    out.push('</table>');
+  }
+
+  if (report.methane) {
+    out.push(`<h2>${e(label('report.methane'))}</h2>`, '<ul>', ...methaneLines(report).map(line => `<li>${e(line)}</li>`), '</ul>');
+  }
+
+  if (report.sensitivity) {
+    out.push(`<h2>${e(label('report.sensitivity'))}</h2>`);
+    for (const table of report.sensitivity) {
+      out.push(
+        `<p><strong>${e(table.summary)}</strong></p>`,
+        '<table>',
+        header([label('report.price_per_kg'), label('report.in_diet'), costHeader(report.language, report.currency), label('report.cost_per_litre')]),
+        ...table.points.map(p => '<tr>' + [
+          cell(formatNumber(p.price_per_kg, 3), 'num'),
+          cell(formatNumber(p.quantity_as_fed_kg), 'num'),
+          cell(formatNumber(p.cost), 'num'),
+          cell(formatNumber(p.cost_per_litre ?? undefined), 'num')
+        ].join('') + '</tr>'),
+        '</table>'
+      );
+    }
+  }
+
+  if (report.notes.length > 0) {
+    out.push(`<h2>${e(label('report.notes'))}</h2>`, '<ul>', ...report.notes.map(note => `<li>${e(note)}</li>`), '</ul>');
+  }
+  out.push('</body>', '</html>');
+  return out.join('\n') + '\n';
+}
+
+/**
+ * Render a report model in the requested text format
+ */
+export function renderReport(report: ReportModel, format: Exclude<ReportFormat, 'json'>): string {
+  return format === 'html' ? renderHtml(report) : renderMarkdown(report);
+}
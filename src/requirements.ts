@@ -0,0 +1,178 @@
+/**
+ * Dairy Nutrient Requirement Calculator
+ *
+ * Computes daily dry matter intake, net energy (NEL), metabolizable protein,
+ * calcium and phosphorus requirements from a CattleInfo without calling the
+ * backend. Equations follow NRC (2001) Nutrient Requirements of Dairy Cattle,
+ * simplified where the model needs inputs CattleInfo does not carry.
+ */
+
+import { CattleInfo } from './feed-client.js';
+import { round } from './utils.js';
+
+export interface RequirementBreakdown {
+  maintenance: number;
+  activity: number;
+  lactation: number;
+  pregnancy: number;
+  growth: number;
+  total: number;
+}
+
+export interface NutrientRequirements {
+  /** Dry matter intake, kg/day */
+  dm_intake_kg: number;
+  /** Net energy for lactation, Mcal/day */
+  nel_mcal: RequirementBreakdown;
+  /** Metabolizable protein, g/day */
+  mp_g: RequirementBreakdown;
+  /** Dietary calcium, g/day */
+  ca_g: RequirementBreakdown;
+  /** Dietary phosphorus, g/day */
+  p_g: RequirementBreakdown;
+  /** Required dietary concentrations at the estimated intake */
+  diet_density: {
+    nel_mcal_per_kg_dm: number;
+    mp_g_per_kg_dm: number;
+    ca_pct_dm: number;
+    p_pct_dm: number;
+  };
+  assumptions: string[];
+}
+
+/** Days of pregnancy before which fetal requirements are ignored (NRC 2001) */
+const PREGNANCY_THRESHOLD_DAYS = 190;
+const LACTOSE_PCT = 4.85;
+const CA_ABSORPTION = 0.38;
+const P_ABSORPTION = 0.64;
+/** NEL needed per kg of body weight gained, and supplied per kg lost (NRC 2001) */
+const NEL_PER_KG_GAIN = 5.12;
+const NEL_PER_KG_LOSS = 4.92;
+
+/**
+ * Daily dry matter intake estimate (kg/day).
+ * Lactating cows use the NRC (2001) equation; other animals 2% of body weight.
+ */
+export function estimateDmIntakeKg(cattle: CattleInfo): number {
+  if (!cattle.lactating || cattle.milk_production <= 0) {
+    return 0.02 * cattle.body_weight;
+  }
+  const fcm = 0.4 * cattle.milk_production + 15 * cattle.milk_production * (cattle.fat_milk / 100);
+  const weekOfLactation = cattle.days_in_milk / 7;
+  return (0.372 * fcm + 0.0968 * Math.pow(cattle.body_weight, 0.75)) *
+    (1 - Math.exp(-0.192 * (weekOfLactation + 3.67)));
+}
+
+function breakdown(parts: Omit<RequirementBreakdown, 'total'>, digits: number = 2): RequirementBreakdown {
+  const total = parts.maintenance + parts.activity + parts.lactation + parts.pregnancy + parts.growth;
+  return {
+    maintenance: round(parts.maintenance, digits),
+    activity: round(parts.activity, digits),
+    lactation: round(parts.lactation, digits),
+    pregnancy: round(parts.pregnancy, digits),
+    growth: round(parts.growth, digits),
+    total: round(total, digits)
+  };
+}
+
+/**
+ * Calculate daily nutrient requirements for one animal
+ */
+export function calculateRequirements(cattle: CattleInfo): NutrientRequirements {
+  const bw = cattle.body_weight;
+  const milk = cattle.lactating ? cattle.milk_production : 0;
+  const crudeProteinMilk = cattle.tp_milk / 0.93;
+  const dmi = estimateDmIntakeKg(cattle);
+  const gain = cattle.bw_gain ?? 0;
+  const daysPregnant = cattle.days_of_pregnancy;
+  const pregnant = daysPregnant >= PREGNANCY_THRESHOLD_DAYS;
+  // Calf birth weight estimated from the dam's weight (NRC 2001)
+  const calfBirthWeight = 0.06275 * bw;
+  const assumptions: string[] = [];
+
+  // Energy (Mcal NEL/day)
+  const nel = breakdown({
+    maintenance: 0.08 * Math.pow(bw, 0.75),
+    activity: 0.00045 * bw * cattle.distance + (cattle.topography === 'Hilly' ? 0.0012 * bw : 0),
+    lactation: milk * (0.0929 * cattle.fat_milk + 0.0547 * crudeProteinMilk + 0.0395 * LACTOSE_PCT),
+    pregnancy: pregnant
+      ? (0.00318 * daysPregnant - 0.0352) * (calfBirthWeight / 45) / 0.218
+      : 0,
+    growth: gain >= 0 ? gain * NEL_PER_KG_GAIN : gain * NEL_PER_KG_LOSS
+  });
+
+  // Metabolizable protein (g/day)
+  const mp = breakdown({
+    // Endogenous urinary + scurf + metabolic fecal protein; metabolic fecal protein is
+    // approximated as 15 g/kg DMI in place of the NRC 30 g/kg DMI less bacterial and
+    // endogenous corrections
+    maintenance: 4.1 * Math.pow(bw, 0.5) + 0.3 * Math.pow(bw, 0.6) + 15 * dmi,
+    activity: 0,
+    lactation: (milk * (cattle.tp_milk / 100) * 1000) / 0.67,
+    pregnancy: pregnant
+      ? ((0.69 * daysPregnant - 69.2) * (calfBirthWeight / 45)) / 0.33
+      : 0,
+    // Net protein in gain ~150 g/kg, used at 49% efficiency
+    growth: gain > 0 ? (gain * 0.956 * 150) / 0.492 : 0
+  }, 0);
+
+  // Fetal mineral accretion is the day-on-day difference of the NRC accretion curves
+  const fetalCa = (d: number) => 0.02456 * Math.exp((0.05581 - 0.00007 * d) * d);
+  const fetalP = (d: number) => 0.02743 * Math.exp((0.05527 - 0.000075 * d) * d);
+  // NRC scales growth minerals by (mature weight / body weight)^0.22; mature
+  // weight is taken as current weight, so the factor is 1
+  const matureWeightFactor = 1;
+  const mineralGain = gain > 0 ? gain : 0;
+
+  // Calcium (absorbed g/day converted to dietary)
+  const ca = breakdown({
+    maintenance: ((cattle.lactating ? 0.031 : 0.0154) * bw + 0.08 * (bw / 100)) / CA_ABSORPTION,
+    activity: 0,
+    lactation: (milk * 1.22) / CA_ABSORPTION,
+    pregnancy: pregnant ? (fetalCa(daysPregnant) - fetalCa(daysPregnant - 1)) / CA_ABSORPTION : 0,
+    growth: (9.83 * matureWeightFactor * mineralGain) / CA_ABSORPTION
+  }, 1);
+
+  // Phosphorus (absorbed g/day converted to dietary)
+  const p = breakdown({
+    maintenance: (1.0 * dmi + 0.002 * bw) / P_ABSORPTION,
+    activity: 0,
+    lactation: (milk * 0.9) / P_ABSORPTION,
+    pregnancy: pregnant ? (fetalP(daysPregnant) - fetalP(daysPregnant - 1)) / P_ABSORPTION : 0,
+    growth: ((1.2 + 4.635 * matureWeightFactor) * mineralGain) / P_ABSORPTION
+  }, 1);
+
+  assumptions.push(
+    cattle.lactating && milk > 0
+      ? 'Dry matter intake from the NRC (2001) lactating cow equation'
+      : 'Dry matter intake estimated at 2% of body weight',
+    `Milk lactose assumed ${LACTOSE_PCT}%; milk crude protein = true protein / 0.93`,
+    'MP maintenance approximates metabolic fecal protein as 15 g/kg DMI (NRC 2001: 30 g/kg DMI less bacterial and endogenous corrections)',
+    `Dietary Ca and P assume absorption coefficients of ${CA_ABSORPTION} and ${P_ABSORPTION}`,
+    'Temperature and body condition score are not used in these requirements'
+  );
+  if (!pregnant && daysPregnant > 0) {
+    assumptions.push(`Pregnancy requirements start at day ${PREGNANCY_THRESHOLD_DAYS} of gestation`);
+  }
+  if (gain > 0) {
+    assumptions.push('Growth Ca and P take mature weight as current body weight');
+  }
+  if (gain < 0) {
+    assumptions.push(`Body weight loss supplies ${NEL_PER_KG_LOSS} Mcal NEL per kg lost`);
+  }
+
+  return {
+    dm_intake_kg: round(dmi),
+    nel_mcal: nel,
+    mp_g: mp,
+    ca_g: ca,
+    p_g: p,
+    diet_density: {
+      nel_mcal_per_kg_dm: dmi > 0 ? round(nel.total / dmi) : 0,
+      mp_g_per_kg_dm: dmi > 0 ? round(mp.total / dmi, 1) : 0,
+      ca_pct_dm: dmi > 0 ? round(ca.total / (dmi * 10)) : 0,
+      p_pct_dm: dmi > 0 ? round(p.total / (dmi * 10)) : 0
+    },
+    assumptions
+  };
+}
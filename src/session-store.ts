@@ -0,0 +1,120 @@
+/**
+ * MCP Session Store
+ *
+ * Keeps stateful MCP sessions (transport, server and farm context) in memory
+ * and closes sessions that have been idle longer than the configured timeout.
+ */
+
+import { createHash } from 'node:crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { FarmContext } from './farm-context.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Sessions');
+
+export interface McpSession {
+  id: string;
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  context: FarmContext;
+  credentialFingerprint: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+/**
+ * Fingerprint a credential so sessions can be bound to the key that
+ * created them without keeping the raw key around
+ */
+export function fingerprintCredential(credential: string | null): string | null {
+  if (!credential) {
+    return null;
+  }
+  return createHash('sha256').update(credential).digest('hex');
+}
+
+export class SessionStore {
+  private sessions = new Map<string, McpSession>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param idleTimeoutMs - Sessions idle longer than this are closed
+   */
+  constructor(private idleTimeoutMs: number) {}
+
+  add(session: McpSession): void {
+    this.sessions.set(session.id, session);
+  }
+
+  /**
+   * Get a session and mark it as recently used
+   */
+  get(id: string): McpSession | undefined {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastSeenAt = Date.now();
+    }
+    return session;
+  }
+
+  has(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  delete(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close and remove every session idle longer than the timeout
+   * @returns IDs of the expired sessions
+   */
+  async sweep(now: number = Date.now()): Promise<string[]> {
+    const expired = [...this.sessions.values()].filter(s => now - s.lastSeenAt > this.idleTimeoutMs);
+    for (const session of expired) {
+      this.sessions.delete(session.id);
+      await this.closeSession(session);
+    }
+    return expired.map(s => s.id);
+  }
+
+  /**
+   * Start periodic idle sweeps
+   */
+  start(intervalMs: number = Math.min(this.idleTimeoutMs, 60_000)): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(error => log.error('Error sweeping idle sessions', { error }));
+    }, intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stop sweeping and close every open session
+   */
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    for (const session of sessions) {
+      await this.closeSession(session);
+    }
+  }
+
+  private async closeSession(session: McpSession): Promise<void> {
+    try {
+      // Closing the server also closes its transport
+      await session.server.close();
+    } catch (error) {
+      log.warn('Error closing session', { session_id: session.id, error });
+    }
+  }
+}
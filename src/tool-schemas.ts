@@ -0,0 +1,203 @@
+/**
+ * MCP Tool Schemas
+ *
+ * Zod shapes shared by several tools: animal profile inputs, local solver
+ * constraints, and the structured output schemas advertised to clients.
+ */
+
+import { z } from 'zod';
+import { dietEvaluationResponseSchema, dietRecommendationResponseSchema } from './api-schemas.js';
+import { SUPPORTED_LANGUAGES } from './i18n.js';
+
+/**
+ * Animal profile parameters shared by the diet tools.
+ * Tools use the optional variant - anything not passed is taken from the
+ * animal group or the session's farm context.
+ */
+export const cattleInfoShape = {
+  body_weight: z.number().min(100).max(1000).describe('Body weight in kg'),
+  breed: z.string().describe('Cattle breed (e.g., "Holstein cross")'),
+  lactating: z.boolean().describe('Whether the cow is lactating'),
+  milk_production: z.number().min(0).max(100).describe('Milk production in liters per day'),
+  days_in_milk: z.number().int().min(0).max(400).describe('Days in milk'),
+  parity: z.number().int().min(1).max(10).describe('Parity number'),
+  days_of_pregnancy: z.number().int().min(0).max(300).describe('Days of pregnancy'),
+  tp_milk: z.number().min(2).max(5).describe('True protein percentage in milk'),
+  fat_milk: z.number().min(2).max(6).describe('Fat percentage in milk'),
+  temperature: z.number().min(-10).max(50).describe('Environmental temperature in Celsius'),
+  topography: z.enum(['Flat', 'Hilly']).describe('Topography'),
+  distance: z.number().min(0).max(10).describe('Distance in km'),
+  calving_interval: z.number().int().min(300).max(500).describe('Calving interval in days'),
+  bw_gain: z.number().min(-2).max(2).optional().describe('Body weight change in kg/day (negative for weight loss)'),
+  bc_score: z.number().min(1).max(5).optional().describe('Body condition score (1-5)')
+};
+
+export const optionalCattleInfoShape = z.object(cattleInfoShape).partial().shape;
+
+export const boundSchema = z.object({
+  min: z.number().optional().describe('Lower limit'),
+  max: z.number().optional().describe('Upper limit')
+});
+
+export const rationConstraintsSchema = z.object({
+  dm_intake_kg: boundSchema.optional().describe('Dry matter intake, kg/day'),
+  nel_mcal: boundSchema.optional().describe('Net energy for lactation, Mcal/day'),
+  nutrients_pct_dm: z.object({
+    cp: boundSchema.optional().describe('Crude protein, % of DM'),
+    ndf: boundSchema.optional().describe('Neutral detergent fibre, % of DM'),
+    adf: boundSchema.optional().describe('Acid detergent fibre, % of DM'),
+    ee: boundSchema.optional().describe('Ether extract (fat), % of DM'),
+    st: boundSchema.optional().describe('Starch, % of DM'),
+    ca: boundSchema.optional().describe('Calcium, % of DM'),
+    p: boundSchema.optional().describe('Phosphorus, % of DM')
+  }).optional(),
+  forage_pct_dm: boundSchema.optional().describe('Forage share of diet DM, %')
+});
+
+/** Nutrient ranges for feed search: DM as % as fed, nutrients as % of DM */
+export const nutrientRangesSchema = z.object({
+  dm: boundSchema.optional().describe('Dry matter, % as fed'),
+  cp: boundSchema.optional().describe('Crude protein, % of DM'),
+  ndf: boundSchema.optional().describe('Neutral detergent fibre, % of DM'),
+  adf: boundSchema.optional().describe('Acid detergent fibre, % of DM'),
+  ee: boundSchema.optional().describe('Ether extract (fat), % of DM'),
+  st: boundSchema.optional().describe('Starch, % of DM'),
+  ca: boundSchema.optional().describe('Calcium, % of DM'),
+  p: boundSchema.optional().describe('Phosphorus, % of DM')
+});
+
+const animalGroupRefSchema = z.object({
+  name: z.string(),
+  head_count: z.number()
+});
+
+export const rationSolutionSchema = z.object({
+  status: z.enum(['optimal', 'infeasible']),
+  message: z.string().optional(),
+  feeds: z.array(z.object({
+    feed_id: z.string(),
+    feed_name: z.string(),
+    feed_type: z.string(),
+    quantity_as_fed_kg: z.number(),
+    quantity_dm_kg: z.number(),
+    price_per_kg: z.number(),
+    cost: z.number()
+  })),
+  total_cost: z.number(),
+  total_as_fed_kg: z.number(),
+  total_dm_kg: z.number(),
+  supply: z.object({
+    nel_mcal: z.number(),
+    nutrients_pct_dm: z.record(z.number()),
+    forage_pct_dm: z.number()
+  }),
+  constraints: z.array(z.object({
+    constraint: z.string(),
+    value: z.number(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    binding: z.boolean()
+  }))
+});
+
+/** Text format of the diet tools' result: raw JSON, or a printable ration sheet */
+export const reportFormatSchema = z.enum(['json', 'markdown', 'html'])
+  .describe('Text output format: json (default), markdown or html ration sheet for printing');
+
+/** Output language for suggestions, report labels and feed names */
+export const languageSchema = z.enum(SUPPORTED_LANGUAGES)
+  .describe('Output language: en (English), am (Amharic), om (Afaan Oromo) or sw (Swahili). Defaults to the farm context language, then English');
+
+/** End user of the calling agent that a simulation is recorded for */
+export const endUserIdSchema = z.string().min(1).max(100)
+  .describe('Backend user ID of the farmer or advisor this call is for. Defaults to the farm context user, then the API key\'s service account');
+
+/** Currency feed prices are given in */
+export const currencySchema = z.string().regex(/^[A-Za-z]{3}$/)
+  .describe('ISO 4217 code of the currency prices are in (e.g., "ETB"). Defaults to the farm context currency, then the currency of the feeds\' country');
+
+/** Diet costs in their own currency and in the reference currency */
+export const convertedCostsSchema = z.object({
+  currency: z.string().optional().describe('Currency the prices and costs are in; missing when it could not be determined (see warning)'),
+  reference_currency: z.string(),
+  exchange_rate: z.number().nullable().describe('Reference currency units per unit of the local currency; null when the rate table has no rate'),
+  rates_as_of: z.string().optional().describe('Date of the exchange rate'),
+  local: z.record(z.number()).describe('Costs in the local currency'),
+  reference: z.record(z.number()).nullable().describe('The same costs in the reference currency'),
+  warning: z.string().optional().describe('Why the costs have no currency')
+});
+
+/** Market region and pricing date used to fill prices from the price book */
+export const priceLookupShape = {
+  region: z.string().min(1).max(100).optional().describe('Market region for price book prices. Defaults to the farm context region; prices recorded for all regions are used otherwise'),
+  price_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Date to price feeds at, YYYY-MM-DD (default today). The latest price book entry on or before it is used')
+};
+
+/** A feed price taken from the price book because none was passed */
+export const defaultedPriceSchema = z.object({
+  feed_id: z.string(),
+  price_per_kg: z.number().describe('Price used, in the diet currency'),
+  currency: z.string().optional(),
+  region: z.string().describe('Region of the price book entry; empty for an all-regions price'),
+  date: z.string().describe('Date the price was recorded for'),
+  source: z.string().optional(),
+  converted_from: z.object({ price_per_kg: z.number(), currency: z.string() }).optional().describe('Price as recorded, when it was in another currency')
+});
+
+/** Feeds and price ranges to re-solve a ration over */
+export const priceSensitivityInputSchema = z.object({
+  feeds: z.array(z.object({
+    feed_id: z.string().describe('Feed UUID from the feed selection'),
+    min_price: z.number().min(0).optional().describe('Lowest price per kg to try (default half the feed\'s price)'),
+    max_price: z.number().min(0).optional().describe('Highest price per kg to try (default one and a half times the feed\'s price)')
+  })).min(1).max(5).describe('Feeds whose price to vary, one at a time'),
+  steps: z.number().int().min(3).max(25).optional().describe('Prices tried per feed, including both ends of the range (default 9)')
+});
+
+/** Price sensitivity of a least-cost ration */
+export const priceSensitivitySchema = z.object({
+  solver: z.literal('local').describe('Solver the points come from: always local, also when the recommendation came from the remote optimizer'),
+  message: z.string().optional(),
+  feeds: z.array(z.object({
+    feed_id: z.string(),
+    feed_name: z.string(),
+    current_price: z.number(),
+    in_diet: z.enum(['always', 'never', 'below_break_even']).describe('Whether the feed is in the least-cost diet across the price range'),
+    break_even_price: z.number().nullable().describe('Price above which the feed leaves the least-cost diet'),
+    points: z.array(z.object({
+      price_per_kg: z.number(),
+      quantity_as_fed_kg: z.number(),
+      total_cost: z.number(),
+      cost_per_litre: z.number().nullable()
+    }))
+  }))
+});
+
+/** Structured output of evaluate_diet */
+export const evaluateDietOutputShape = {
+  animal_group: animalGroupRefSchema.optional().describe('Animal group the evaluation was run for'),
+  evaluation: dietEvaluationResponseSchema.describe('Diet evaluation for one animal'),
+  costs: convertedCostsSchema.optional().describe('Diet cost per day and per kg of milk, in local and reference currency'),
+  defaulted_prices: z.array(defaultedPriceSchema).optional().describe('Feed prices filled in from the price book')
+};
+
+/** Structured output of get_diet_recommendation */
+export const dietRecommendationOutputShape = {
+  animal_group: animalGroupRefSchema.optional().describe('Animal group the recommendation was made for'),
+  solver: z.enum(['remote', 'local']).describe('Which optimizer produced the result'),
+  fallback_reason: z.string().optional().describe('Why the remote optimizer was not used (solver "auto")'),
+  recommendation: dietRecommendationResponseSchema.optional().describe('Remote optimizer result'),
+  local_solution: rationSolutionSchema.optional().describe('Local solver result'),
+  requirements: rationConstraintsSchema.optional().describe('Constraints used by the local solver'),
+  costs: convertedCostsSchema.optional().describe('Diet cost per day, in local and reference currency'),
+  sensitivity: priceSensitivitySchema.optional().describe('Local solver re-solves across the requested price ranges'),
+  defaulted_prices: z.array(defaultedPriceSchema).optional().describe('Feed prices filled in from the price book'),
+  stock_limits: z.array(z.object({
+    feed_id: z.string(),
+    on_hand_kg: z.number(),
+    reserved_kg: z.number().optional().describe('Stock set aside for the other animal groups\' stored rations over stock_days'),
+    max_kg_per_day: z.number().describe('As-fed kg/day per head that makes the stock last stock_days')
+  })).optional().describe('Feed stock caps applied with stock_days')
+};
+
+export type DietRecommendationOutput = z.infer<z.ZodObject<typeof dietRecommendationOutputShape>>;
@@ -0,0 +1,260 @@
+/**
+ * Usage Metering
+ *
+ * Records one event per tool call (organization, tool, latency, outcome,
+ * country, feeds and animals) for partner billing and adoption reporting.
+ * Events go to a UsageStore: in memory by default, or appended to a JSON
+ * Lines file; other backends (a database, a queue) only need to implement
+ * record() and query().
+ */
+
+import { appendFile, readFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Usage');
+
+export interface UsageEvent {
+  /** ISO time the call started */
+  timestamp: string;
+  organization_id: string;
+  organization_name: string;
+  tool: string;
+  latency_ms: number;
+  success: boolean;
+  /** Error message of a failed call */
+  error?: string;
+  country_id?: string;
+  /** Distinct feeds the call used */
+  feed_count?: number;
+  /** Animals the call covered (head count of groups and batch items) */
+  animals?: number;
+}
+
+export interface UsageQuery {
+  organization_id?: string;
+  tool?: string;
+  country_id?: string;
+  /** Inclusive start, ISO time */
+  from?: string;
+  /** Exclusive end, ISO time */
+  to?: string;
+}
+
+export interface UsageStore {
+  record(event: UsageEvent): Promise<void>;
+  /** Events matching the query, oldest first */
+  query(query?: UsageQuery): Promise<UsageEvent[]>;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failed: number;
+  animals: number;
+  avg_latency_ms: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  by_organization: Record<string, UsageTotals & { name: string }>;
+  by_tool: Record<string, UsageTotals>;
+  by_country: Record<string, UsageTotals>;
+}
+
+function matchesQuery(event: UsageEvent, query: UsageQuery): boolean {
+  return (!query.organization_id || event.organization_id === query.organization_id) &&
+    (!query.tool || event.tool === query.tool) &&
+    (!query.country_id || event.country_id === query.country_id) &&
+    (!query.from || event.timestamp >= new Date(query.from).toISOString()) &&
+    (!query.to || event.timestamp < new Date(query.to).toISOString());
+}
+
+/**
+ * Keeps the most recent events in memory; they are lost on restart
+ */
+export class MemoryUsageStore implements UsageStore {
+  private events: UsageEvent[] = [];
+
+  /**
+   * @param maxEvents - Oldest events are dropped beyond this
+   */
+  constructor(private maxEvents: number = 100000) {}
+
+  async record(event: UsageEvent): Promise<void> {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+  }
+
+  async query(query: UsageQuery = {}): Promise<UsageEvent[]> {
+    return this.events.filter(event => matchesQuery(event, query));
+  }
+}
+
+/**
+ * Appends events to a JSON Lines file, one event per line
+ */
+export class JsonlUsageStore implements UsageStore {
+  /** Writes are chained so lines are never interleaved */
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  record(event: UsageEvent): Promise<void> {
+    this.pending = this.pending
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await appendFile(this.filePath, JSON.stringify(event) + '\n');
+      })
+      .catch(error => log.error('Failed to record usage event', { error }));
+    return this.pending;
+  }
+
+  async query(query: UsageQuery = {}): Promise<UsageEvent[]> {
+    await this.pending;
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    return raw
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as UsageEvent)
+      .filter(event => matchesQuery(event, query));
+  }
+}
+
+function emptyTotals(): UsageTotals & { latency_sum: number } {
+  return { calls: 0, failed: 0, animals: 0, avg_latency_ms: 0, latency_sum: 0 };
+}
+
+/**
+ * Totals over all events and per organization, tool and country
+ */
+export function summarizeUsage(events: UsageEvent[]): UsageSummary {
+  type Bucket = ReturnType<typeof emptyTotals>;
+  const total = emptyTotals();
+  const groups = {
+    by_organization: new Map<string, Bucket & { name: string }>(),
+    by_tool: new Map<string, Bucket>(),
+    by_country: new Map<string, Bucket>()
+  };
+
+  const add = (bucket: Bucket, event: UsageEvent) => {
+    bucket.calls++;
+    if (!event.success) bucket.failed++;
+    bucket.animals += event.animals ?? 0;
+    bucket.latency_sum += event.latency_ms;
+  };
+
+  for (const event of events) {
+    add(total, event);
+    let organization = groups.by_organization.get(event.organization_id);
+    if (!organization) {
+      organization = { ...emptyTotals(), name: event.organization_name };
+      groups.by_organization.set(event.organization_id, organization);
+    }
+    add(organization, event);
+    for (const [group, key] of [[groups.by_tool, event.tool], [groups.by_country, event.country_id ?? 'unknown']] as const) {
+      if (!group.has(key)) group.set(key, emptyTotals());
+      add(group.get(key)!, event);
+    }
+  }
+
+  const finish = <T extends Bucket>({ latency_sum, ...bucket }: T) => ({
+    ...bucket,
+    avg_latency_ms: bucket.calls > 0 ? Math.round(latency_sum / bucket.calls) : 0
+  });
+  return {
+    ...finish(total),
+    by_organization: Object.fromEntries([...groups.by_organization].map(([id, bucket]) => [id, finish(bucket)])),
+    by_tool: Object.fromEntries([...groups.by_tool].map(([tool, bucket]) => [tool, finish(bucket)])),
+    by_country: Object.fromEntries([...groups.by_country].map(([country, bucket]) => [country, finish(bucket)]))
+  };
+}
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'organization_id',
+  'organization_name',
+  'tool',
+  'latency_ms',
+  'success',
+  'error',
+  'country_id',
+  'feed_count',
+  'animals'
+] as const satisfies readonly (keyof UsageEvent)[];
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render events as CSV with a header row
+ */
+export function usageToCsv(events: UsageEvent[]): string {
+  const rows = events.map(event => CSV_COLUMNS.map(column => csvField(event[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export interface ToolCall {
+  tool: string;
+  /** Validated tool arguments ({} for tools without parameters) */
+  args: Record<string, unknown>;
+  startedAt: Date;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+}
+
+type ToolResult = { isError?: boolean; content?: Array<{ type: string; text?: string }> };
+
+/**
+ * Error message of a tool result with isError set: the `message` of a JSON
+ * error body, else the start of the text
+ */
+function resultError(result: ToolResult): string {
+  const text = result.content?.find(item => item.type === 'text')?.text ?? '';
+  try {
+    const body = JSON.parse(text);
+    if (typeof body?.message === 'string') return body.message;
+  } catch {
+    // Plain text error
+  }
+  return text.slice(0, 200);
+}
+
+/**
+ * Create a wrapper for tool handlers that reports every call to an observer.
+ * Wrap each handler where the tool is registered; calls rejected by input
+ * validation never reach a handler and are not reported.
+ */
+export function createToolMeter(observe: (call: ToolCall) => void) {
+  return <A extends unknown[], R extends ToolResult>(tool: string, handler: (...callArgs: A) => R | Promise<R>) =>
+    async (...callArgs: A): Promise<R> => {
+      const startedAt = new Date();
+      // Handlers of tools with parameters get (args, extra), others just (extra)
+      const args = (callArgs.length > 1 ? callArgs[0] : {}) as Record<string, unknown>;
+      const report = (success: boolean, error?: string) => {
+        try {
+          observe({ tool, args, startedAt, latencyMs: Date.now() - startedAt.getTime(), success, error });
+        } catch (observerError) {
+          log.error('Failed to meter tool call', { tool, error: observerError });
+        }
+      };
+      try {
+        const result = await handler(...callArgs);
+        report(!result?.isError, result?.isError ? resultError(result) : undefined);
+        return result;
+      } catch (error) {
+        report(false, error instanceof Error ? error.message : String(error));
+        throw error;
+      }
+    };
+}
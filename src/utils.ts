@@ -0,0 +1,11 @@
+/**
+ * Shared helpers
+ */
+
+/**
+ * Round to a fixed number of decimal places (2 by default)
+ */
+export function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}